@@ -2,6 +2,7 @@
 CREATE TABLE
     categorized_articles (
         article_id TEXT PRIMARY KEY,
+        legacy_article_id TEXT,
         title TEXT NOT NULL,
         description TEXT,
         price TEXT,
@@ -9,16 +10,71 @@ CREATE TABLE
         image TEXT,
         link TEXT NOT NULL,
         category TEXT NOT NULL,
+        subcategory TEXT,
+        confidence NUMERIC(4, 3),
+        secondary_categories TEXT[] NOT NULL DEFAULT '{}',
+        category_scores JSONB,
+        category_locked BOOLEAN NOT NULL DEFAULT FALSE,
+        category_source TEXT CHECK (category_source IN ('ai', 'classifier', 'keywords', 'manual')),
+        categorized_at TIMESTAMP
+        WITH
+            TIME ZONE,
         created_at TIMESTAMP
         WITH
-            TIME ZONE DEFAULT NOW ()
+            TIME ZONE DEFAULT NOW (),
+        temperature INTEGER,
+        votes INTEGER,
+        merchant TEXT,
+        merchant_id TEXT,
+        author TEXT,
+        posted_at TIMESTAMP
+        WITH
+            TIME ZONE,
+        expires_at TIMESTAMP
+        WITH
+            TIME ZONE,
+        voucher_code TEXT,
+        original_price TEXT,
+        comment_count INTEGER,
+        details_scraped_at TIMESTAMP
+        WITH
+            TIME ZONE,
+        price_amount NUMERIC(12, 2),
+        price_currency TEXT,
+        shipping_amount NUMERIC(12, 2),
+        free_shipping BOOLEAN DEFAULT FALSE,
+        original_price_amount NUMERIC(12, 2),
+        discount_percent INTEGER,
+        site TEXT NOT NULL DEFAULT 'pepper',
+        status TEXT NOT NULL DEFAULT 'active',
+        status_checked_at TIMESTAMP
+        WITH
+            TIME ZONE
     );
 
 -- Indeksy dla szybszego wyszukiwania
 CREATE INDEX categorized_articles_category_idx ON categorized_articles (category);
 
+CREATE INDEX categorized_articles_subcategory_idx ON categorized_articles (subcategory);
+
+CREATE INDEX categorized_articles_secondary_categories_idx ON categorized_articles USING GIN (secondary_categories);
+
+CREATE INDEX categorized_articles_confidence_idx ON categorized_articles (confidence);
+
 CREATE INDEX categorized_articles_created_at_idx ON categorized_articles (created_at);
 
+CREATE INDEX categorized_articles_temperature_idx ON categorized_articles (temperature);
+
+CREATE INDEX categorized_articles_price_amount_idx ON categorized_articles (price_amount);
+
+CREATE INDEX categorized_articles_site_idx ON categorized_articles (site);
+
+CREATE INDEX categorized_articles_legacy_article_id_idx ON categorized_articles (legacy_article_id);
+
+CREATE INDEX categorized_articles_status_idx ON categorized_articles (status, status_checked_at);
+
+CREATE INDEX categorized_articles_merchant_id_idx ON categorized_articles (merchant_id);
+
 -- Włączenie RLS (Row Level Security)
 ALTER TABLE categorized_articles ENABLE ROW LEVEL SECURITY;
 
@@ -48,4 +104,136 @@ SELECT
 FROM
     pg_policies
 WHERE
-    tablename = 'categorized_articles';
\ No newline at end of file
+    tablename = 'categorized_articles';
+
+-- Tworzenie tabeli taksonomii kategorii (wypełniana przez aplikację z config/categories.json)
+CREATE TABLE
+    categories (
+        slug TEXT PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        description TEXT,
+        display_order INTEGER NOT NULL DEFAULT 0,
+        keywords TEXT[] NOT NULL DEFAULT '{}',
+        is_fallback BOOLEAN NOT NULL DEFAULT FALSE,
+        parent_slug TEXT REFERENCES categories (slug) ON UPDATE CASCADE,
+        created_at TIMESTAMP
+        WITH
+            TIME ZONE DEFAULT NOW (),
+        updated_at TIMESTAMP
+        WITH
+            TIME ZONE DEFAULT NOW ()
+    );
+
+CREATE INDEX categories_parent_slug_idx ON categories (parent_slug);
+
+-- Tylko jedna kategoria zapasowa
+CREATE UNIQUE INDEX categories_fallback_idx ON categories (is_fallback)
+WHERE
+    is_fallback;
+
+ALTER TABLE categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anon can read" ON categories FOR
+SELECT
+    USING (true);
+
+CREATE POLICY "Service can insert" ON categories FOR INSERT
+WITH
+    CHECK (true);
+
+CREATE POLICY "Service can update" ON categories FOR
+UPDATE USING (true)
+WITH
+    CHECK (true);
+
+CREATE POLICY "Service can delete" ON categories FOR DELETE USING (true);
+
+-- Tworzenie tabeli reguł kategoryzacji (wypełniana przez aplikację z config/category-rules.json)
+CREATE TABLE
+    category_rules (
+        id TEXT PRIMARY KEY,
+        category_slug TEXT NOT NULL REFERENCES categories (slug) ON UPDATE CASCADE ON DELETE CASCADE,
+        type TEXT NOT NULL DEFAULT 'keyword' CHECK (type IN ('keyword', 'regex', 'merchant')),
+        pattern TEXT NOT NULL,
+        weight NUMERIC(6, 2) NOT NULL DEFAULT 1,
+        field TEXT NOT NULL DEFAULT 'any' CHECK (field IN ('any', 'title', 'description')),
+        locale TEXT,
+        created_at TIMESTAMP
+        WITH
+            TIME ZONE DEFAULT NOW (),
+        updated_at TIMESTAMP
+        WITH
+            TIME ZONE DEFAULT NOW ()
+    );
+
+CREATE INDEX category_rules_category_slug_idx ON category_rules (category_slug);
+
+ALTER TABLE category_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anon can read" ON category_rules FOR
+SELECT
+    USING (true);
+
+CREATE POLICY "Service can insert" ON category_rules FOR INSERT
+WITH
+    CHECK (true);
+
+CREATE POLICY "Service can update" ON category_rules FOR
+UPDATE USING (true)
+WITH
+    CHECK (true);
+
+CREATE POLICY "Service can delete" ON category_rules FOR DELETE USING (true);
+
+-- Zapis kategoryzacji (nowy categorized_at) nie zmienia kategorii zablokowanego artykułu
+CREATE OR REPLACE FUNCTION keep_locked_category() RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.category_locked AND NEW.categorized_at IS DISTINCT FROM OLD.categorized_at THEN
+        NEW.category := OLD.category;
+        NEW.subcategory := OLD.subcategory;
+        NEW.confidence := OLD.confidence;
+        NEW.secondary_categories := OLD.secondary_categories;
+        NEW.category_scores := OLD.category_scores;
+        NEW.category_locked := OLD.category_locked;
+        NEW.category_source := OLD.category_source;
+        NEW.categorized_at := OLD.categorized_at;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER categorized_articles_keep_locked_category
+    BEFORE UPDATE ON categorized_articles
+    FOR EACH ROW EXECUTE FUNCTION keep_locked_category();
+
+-- Historia ręcznych zmian kategorii artykułów (tylko dopisywana)
+CREATE TABLE
+    category_corrections (
+        id BIGSERIAL PRIMARY KEY,
+        article_id TEXT NOT NULL REFERENCES categorized_articles (article_id) ON DELETE CASCADE,
+        previous_category TEXT,
+        previous_subcategory TEXT,
+        new_category TEXT NOT NULL,
+        new_subcategory TEXT,
+        previous_secondary_categories TEXT[] NOT NULL DEFAULT '{}',
+        new_secondary_categories TEXT[] NOT NULL DEFAULT '{}',
+        previous_locked BOOLEAN NOT NULL DEFAULT FALSE,
+        locked BOOLEAN NOT NULL DEFAULT FALSE,
+        changed_by TEXT NOT NULL,
+        reason TEXT,
+        created_at TIMESTAMP
+        WITH
+            TIME ZONE DEFAULT NOW ()
+    );
+
+CREATE INDEX category_corrections_article_id_idx ON category_corrections (article_id, created_at);
+
+ALTER TABLE category_corrections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anon can read" ON category_corrections FOR
+SELECT
+    USING (true);
+
+CREATE POLICY "Service can insert" ON category_corrections FOR INSERT
+WITH
+    CHECK (true);
@@ -0,0 +1,15 @@
+-- Kolumny ze strony szczegółów okazji (temperatura, sklep, autor, daty, kod rabatowy)
+ALTER TABLE categorized_articles
+    ADD COLUMN IF NOT EXISTS temperature INTEGER,
+    ADD COLUMN IF NOT EXISTS votes INTEGER,
+    ADD COLUMN IF NOT EXISTS merchant TEXT,
+    ADD COLUMN IF NOT EXISTS author TEXT,
+    ADD COLUMN IF NOT EXISTS posted_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS voucher_code TEXT,
+    ADD COLUMN IF NOT EXISTS original_price TEXT,
+    ADD COLUMN IF NOT EXISTS comment_count INTEGER,
+    ADD COLUMN IF NOT EXISTS details_scraped_at TIMESTAMP WITH TIME ZONE;
+
+-- Indeks do sortowania po "gorącości" okazji
+CREATE INDEX IF NOT EXISTS categorized_articles_temperature_idx ON categorized_articles (temperature);
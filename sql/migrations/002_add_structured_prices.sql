@@ -0,0 +1,11 @@
+-- Ceny w postaci liczbowej (kwota, waluta, darmowa dostawa, cena przed obniżką, rabat)
+ALTER TABLE categorized_articles
+    ADD COLUMN IF NOT EXISTS price_amount NUMERIC(12, 2),
+    ADD COLUMN IF NOT EXISTS price_currency TEXT,
+    ADD COLUMN IF NOT EXISTS shipping_amount NUMERIC(12, 2),
+    ADD COLUMN IF NOT EXISTS free_shipping BOOLEAN DEFAULT FALSE,
+    ADD COLUMN IF NOT EXISTS original_price_amount NUMERIC(12, 2),
+    ADD COLUMN IF NOT EXISTS discount_percent INTEGER;
+
+-- Indeks do filtrowania i sortowania po cenie
+CREATE INDEX IF NOT EXISTS categorized_articles_price_amount_idx ON categorized_articles (price_amount);
@@ -0,0 +1,6 @@
+-- Serwis sieci Pepper, z którego pochodzi artykuł (pepper, mydealz, dealabs, hotukdeals)
+ALTER TABLE categorized_articles
+    ADD COLUMN IF NOT EXISTS site TEXT NOT NULL DEFAULT 'pepper';
+
+-- Indeks do filtrowania po serwisie
+CREATE INDEX IF NOT EXISTS categorized_articles_site_idx ON categorized_articles (site);
@@ -0,0 +1,73 @@
+-- Jednorazowe scalenie duplikatów w categorized_articles.
+-- Linki są sprowadzane do postaci kanonicznej (https, host małymi literami, bez parametrów, fragmentu
+-- i końcowego "/"), a article_id liczony tak jak w src/lib/links.ts: base64 z "host:id_wątku" dla okazji
+-- z serwisów sieci Pepper albo z kanonicznego linku dla pozostałych.
+-- Dawny identyfikator (Base64 linku w postaci, w jakiej go zapisano) trafia przed zmianą do legacy_article_id,
+-- tak jak w nowych wierszach, więc identyfikatory znane klientom dalej prowadzą do artykułu.
+BEGIN;
+
+ALTER TABLE categorized_articles
+    ADD COLUMN IF NOT EXISTS legacy_article_id TEXT;
+
+UPDATE categorized_articles
+SET legacy_article_id = article_id
+WHERE legacy_article_id IS NULL;
+
+CREATE TEMP TABLE canonical_articles ON COMMIT DROP AS
+SELECT
+    article_id,
+    canonical_link,
+    replace(
+        encode(
+            convert_to(CASE WHEN thread_id IS NOT NULL THEN host || ':' || thread_id ELSE canonical_link END, 'UTF8'),
+            'base64'
+        ),
+        E'\n',
+        ''
+    ) AS new_article_id,
+    details_scraped_at,
+    created_at
+FROM (
+    SELECT
+        article_id,
+        host,
+        'https://' || host || coalesce(rtrim(substring(link from '^https?://[^/?#]+(/[^?#]*)'), '/'), '') AS canonical_link,
+        -- Numer wątku tylko dla domyślnych domen serwisów sieci Pepper
+        CASE
+            WHEN host IN ('www.pepper.pl', 'www.mydealz.de', 'www.dealabs.com', 'www.hotukdeals.com')
+            THEN substring(link from '^https?://[^/?#]+(?:/[^/?#]*)*/(?:[^/?#]*-)?(\d{4,})/*(?:[?#].*)?$')
+        END AS thread_id,
+        details_scraped_at,
+        created_at
+    FROM (
+        SELECT *, lower(substring(link from '^https?://([^/?#]+)')) AS host
+        FROM categorized_articles
+        WHERE link ~* '^https?://'
+    ) with_host
+) links;
+
+-- Z każdej grupy duplikatów zostaje wiersz ze szczegółami okazji, a potem najnowszy
+DELETE FROM categorized_articles
+WHERE article_id IN (
+    SELECT article_id
+    FROM (
+        SELECT
+            article_id,
+            row_number() OVER (
+                PARTITION BY new_article_id
+                ORDER BY (details_scraped_at IS NOT NULL) DESC, created_at DESC NULLS LAST
+            ) AS position
+        FROM canonical_articles
+    ) ranked
+    WHERE position > 1
+);
+
+UPDATE categorized_articles AS articles
+SET
+    article_id = canonical.new_article_id,
+    link = canonical.canonical_link
+FROM canonical_articles AS canonical
+WHERE articles.article_id = canonical.article_id
+  AND (articles.article_id <> canonical.new_article_id OR articles.link <> canonical.canonical_link);
+
+COMMIT;
@@ -0,0 +1,21 @@
+-- Krótkie identyfikatory artykułów: 32 znaki hex z SHA-256 zamiast Base64 całego linku.
+-- Wymaga wcześniejszego uruchomienia 004_canonical_article_ids.sql (article_id = Base64 klucza okazji,
+-- legacy_article_id = dawny identyfikator z Base64 linku).
+BEGIN;
+
+ALTER TABLE categorized_articles
+    ADD COLUMN IF NOT EXISTS legacy_article_id TEXT;
+
+-- Stary identyfikator zostaje do wyszukiwania po dawnych id (004 zapisuje go już przed scaleniem)
+UPDATE categorized_articles
+SET legacy_article_id = article_id
+WHERE legacy_article_id IS NULL;
+
+-- Nowy identyfikator liczony z tego samego klucza co w src/lib/links.ts (tylko wiersze jeszcze nie przeliczone)
+UPDATE categorized_articles
+SET article_id = left(encode(sha256(decode(article_id, 'base64')), 'hex'), 32)
+WHERE article_id !~ '^[0-9a-f]{32}$';
+
+CREATE INDEX IF NOT EXISTS categorized_articles_legacy_article_id_idx ON categorized_articles (legacy_article_id);
+
+COMMIT;
@@ -0,0 +1,7 @@
+-- Status okazji (active/expired) wykrywany przy scrapowaniu i ponownym sprawdzaniu strony okazji
+ALTER TABLE categorized_articles
+    ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active',
+    ADD COLUMN IF NOT EXISTS status_checked_at TIMESTAMP WITH TIME ZONE;
+
+-- Indeks do ukrywania wygasłych okazji i wybierania okazji do ponownego sprawdzenia
+CREATE INDEX IF NOT EXISTS categorized_articles_status_idx ON categorized_articles (status, status_checked_at);
@@ -0,0 +1,14 @@
+-- Identyfikator sklepu po ujednoliceniu nazwy ("Allegro", "allegro.pl", "Allegro Smart" -> allegro).
+-- Kanoniczna tabela sklepów i aliasów jest w config/merchants.json.
+BEGIN;
+
+ALTER TABLE categorized_articles
+    ADD COLUMN IF NOT EXISTS merchant_id TEXT;
+
+-- Istniejące wiersze uzupełnia po migracji `npm run backfill:merchants` (aliasy i znaki diakrytyczne
+-- z config/merchants.json, tak jak przy zapisie okazji przez aplikację)
+
+-- Indeks do filtrowania po sklepie i zliczania okazji w /api/merchants
+CREATE INDEX IF NOT EXISTS categorized_articles_merchant_id_idx ON categorized_articles (merchant_id);
+
+COMMIT;
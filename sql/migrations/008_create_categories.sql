@@ -0,0 +1,30 @@
+-- Taksonomia kategorii (nazwa, slug, opis, kolejność, słowa kluczowe) zamiast list zapisanych w kodzie.
+-- Pusta tabela jest wypełniana przez aplikację domyślną taksonomią z config/categories.json.
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS categories (
+    slug TEXT PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    description TEXT,
+    display_order INTEGER NOT NULL DEFAULT 0,
+    keywords TEXT[] NOT NULL DEFAULT '{}',
+    is_fallback BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Tylko jedna kategoria zapasowa (dla artykułów niepasujących do innych)
+CREATE UNIQUE INDEX IF NOT EXISTS categories_fallback_idx ON categories (is_fallback) WHERE is_fallback;
+
+ALTER TABLE categories ENABLE ROW LEVEL SECURITY;
+
+-- Odczyt dla wszystkich, zmiany tylko przez klienta serwisowego (jak w categorized_articles)
+CREATE POLICY "Anon can read" ON categories FOR SELECT USING (true);
+
+CREATE POLICY "Service can insert" ON categories FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Service can update" ON categories FOR UPDATE USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service can delete" ON categories FOR DELETE USING (true);
+
+COMMIT;
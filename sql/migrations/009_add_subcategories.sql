@@ -0,0 +1,18 @@
+-- Podkategorie: drzewo dwupoziomowe w taksonomii i oba poziomy zapisane przy artykule.
+-- Istniejąca taksonomia nie jest uzupełniana - podkategorie z config/categories.json dodaje się przez
+-- POST /api/categorize/categories (albo czyszcząc tabelę categories, żeby aplikacja wypełniła ją od nowa).
+BEGIN;
+
+-- Zmiana sluga kategorii głównej przenosi jej podkategorie
+ALTER TABLE categories
+    ADD COLUMN IF NOT EXISTS parent_slug TEXT REFERENCES categories (slug) ON UPDATE CASCADE;
+
+CREATE INDEX IF NOT EXISTS categories_parent_slug_idx ON categories (parent_slug);
+
+-- category to zawsze kategoria główna, subcategory - najgłębsza dopasowana podkategoria (NULL gdy brak)
+ALTER TABLE categorized_articles
+    ADD COLUMN IF NOT EXISTS subcategory TEXT;
+
+CREATE INDEX IF NOT EXISTS categorized_articles_subcategory_idx ON categorized_articles (subcategory);
+
+COMMIT;
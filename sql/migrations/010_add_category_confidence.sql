@@ -0,0 +1,17 @@
+-- Kategoryzacja wieloetykietowa: pewność kategorii głównej, dodatkowe kategorie główne
+-- i wszystkie etykiety z pewnością ([{"category", "subcategory", "confidence"}], najpierw główna).
+-- Istniejące wiersze zostają bez pewności - filtr minConfidence je pomija.
+BEGIN;
+
+ALTER TABLE categorized_articles
+    ADD COLUMN IF NOT EXISTS confidence NUMERIC(4, 3),
+    ADD COLUMN IF NOT EXISTS secondary_categories TEXT[] NOT NULL DEFAULT '{}',
+    ADD COLUMN IF NOT EXISTS category_scores JSONB;
+
+-- Indeks do wyszukiwania artykułów po etykiecie dodatkowej (secondary_categories @> '{...}')
+CREATE INDEX IF NOT EXISTS categorized_articles_secondary_categories_idx
+    ON categorized_articles USING GIN (secondary_categories);
+
+CREATE INDEX IF NOT EXISTS categorized_articles_confidence_idx ON categorized_articles (confidence);
+
+COMMIT;
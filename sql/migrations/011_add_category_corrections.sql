@@ -0,0 +1,33 @@
+-- Ręczne korekty kategorii: blokada kategorii artykułu przed ponowną kategoryzacją
+-- i historia zmian (kto, co i kiedy zmienił).
+BEGIN;
+
+ALTER TABLE categorized_articles
+    ADD COLUMN IF NOT EXISTS category_locked BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE TABLE IF NOT EXISTS category_corrections (
+    id BIGSERIAL PRIMARY KEY,
+    article_id TEXT NOT NULL REFERENCES categorized_articles (article_id) ON DELETE CASCADE,
+    previous_category TEXT,
+    previous_subcategory TEXT,
+    new_category TEXT NOT NULL,
+    new_subcategory TEXT,
+    previous_secondary_categories TEXT[] NOT NULL DEFAULT '{}',
+    new_secondary_categories TEXT[] NOT NULL DEFAULT '{}',
+    previous_locked BOOLEAN NOT NULL DEFAULT FALSE,
+    locked BOOLEAN NOT NULL DEFAULT FALSE,
+    changed_by TEXT NOT NULL,
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS category_corrections_article_id_idx ON category_corrections (article_id, created_at);
+
+ALTER TABLE category_corrections ENABLE ROW LEVEL SECURITY;
+
+-- Historia jest tylko dopisywana: bez polityk UPDATE i DELETE
+CREATE POLICY "Anon can read" ON category_corrections FOR SELECT USING (true);
+
+CREATE POLICY "Service can insert" ON category_corrections FOR INSERT WITH CHECK (true);
+
+COMMIT;
@@ -0,0 +1,30 @@
+-- Reguły kategoryzacji bez AI: słowa kluczowe i frazy, wyrażenia regularne i sklepy z wagami
+-- (ujemne wagi odejmują punkty). Pusta tabela jest wypełniana przez aplikację z config/category-rules.json.
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS category_rules (
+    id TEXT PRIMARY KEY,
+    category_slug TEXT NOT NULL REFERENCES categories (slug) ON UPDATE CASCADE ON DELETE CASCADE,
+    type TEXT NOT NULL DEFAULT 'keyword' CHECK (type IN ('keyword', 'regex', 'merchant')),
+    pattern TEXT NOT NULL,
+    weight NUMERIC(6, 2) NOT NULL DEFAULT 1,
+    field TEXT NOT NULL DEFAULT 'any' CHECK (field IN ('any', 'title', 'description')),
+    locale TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS category_rules_category_slug_idx ON category_rules (category_slug);
+
+ALTER TABLE category_rules ENABLE ROW LEVEL SECURITY;
+
+-- Odczyt dla wszystkich, zmiany tylko przez klienta serwisowego (jak w categories)
+CREATE POLICY "Anon can read" ON category_rules FOR SELECT USING (true);
+
+CREATE POLICY "Service can insert" ON category_rules FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Service can update" ON category_rules FOR UPDATE USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service can delete" ON category_rules FOR DELETE USING (true);
+
+COMMIT;
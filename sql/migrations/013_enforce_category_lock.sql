@@ -0,0 +1,31 @@
+-- Blokada ręcznie ustawionej kategorii egzekwowana w bazie. Zapis wyniku kategoryzacji ustawia nowy
+-- categorized_at; dla zablokowanego artykułu wyzwalacz zostawia wtedy poprzednie kolumny kategorii,
+-- więc korekta zapisana między odczytem a upsertem nie zostanie nadpisana. Ręczne korekty i zmiany
+-- nazw kategorii nie zmieniają categorized_at i przechodzą bez zmian.
+BEGIN;
+
+ALTER TABLE categorized_articles
+    ADD COLUMN IF NOT EXISTS categorized_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION keep_locked_category() RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.category_locked AND NEW.categorized_at IS DISTINCT FROM OLD.categorized_at THEN
+        NEW.category := OLD.category;
+        NEW.subcategory := OLD.subcategory;
+        NEW.confidence := OLD.confidence;
+        NEW.secondary_categories := OLD.secondary_categories;
+        NEW.category_scores := OLD.category_scores;
+        NEW.category_locked := OLD.category_locked;
+        NEW.categorized_at := OLD.categorized_at;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS categorized_articles_keep_locked_category ON categorized_articles;
+
+CREATE TRIGGER categorized_articles_keep_locked_category
+    BEFORE UPDATE ON categorized_articles
+    FOR EACH ROW EXECUTE FUNCTION keep_locked_category();
+
+COMMIT;
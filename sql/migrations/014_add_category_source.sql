@@ -0,0 +1,32 @@
+-- Źródło kategorii artykułu: model językowy (ai), klasyfikator offline (classifier), słowa kluczowe
+-- i reguły (keywords) albo ręczna korekta (manual). Klasyfikator uczy się tylko na kategoriach
+-- z modelu językowego, ręcznie poprawionych i zablokowanych, a nie na własnych przewidywaniach.
+BEGIN;
+
+ALTER TABLE categorized_articles
+    ADD COLUMN IF NOT EXISTS category_source TEXT
+    CHECK (category_source IN ('ai', 'classifier', 'keywords', 'manual'));
+
+-- Artykuły z historią korekt mają kategorię sprawdzoną ręcznie; źródło pozostałych jest nieznane
+UPDATE categorized_articles
+SET category_source = 'manual'
+WHERE article_id IN (SELECT article_id FROM category_corrections);
+
+-- Wyzwalacz z migracji 013 zostawia też źródło kategorii zablokowanego artykułu
+CREATE OR REPLACE FUNCTION keep_locked_category() RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.category_locked AND NEW.categorized_at IS DISTINCT FROM OLD.categorized_at THEN
+        NEW.category := OLD.category;
+        NEW.subcategory := OLD.subcategory;
+        NEW.confidence := OLD.confidence;
+        NEW.secondary_categories := OLD.secondary_categories;
+        NEW.category_scores := OLD.category_scores;
+        NEW.category_locked := OLD.category_locked;
+        NEW.category_source := OLD.category_source;
+        NEW.categorized_at := OLD.categorized_at;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMIT;
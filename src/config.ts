@@ -56,7 +56,11 @@ const SERVER = {
     ORIGIN: process.env.CORS_ORIGIN || '*',
   },
   // Base URL for the server (used for scheduled tasks)
-  BASE_URL: process.env.SERVER_BASE_URL || 'http://localhost:5001'
+  BASE_URL: process.env.SERVER_BASE_URL || 'http://localhost:5001',
+  // Token of the admin endpoints (Authorization: Bearer <token>); admin endpoints are disabled without it
+  ADMIN_TOKEN: process.env.ADMIN_API_TOKEN || '',
+  // Personal admin tokens as comma separated name:token pairs; the name is recorded as the author of manual corrections
+  ADMIN_TOKENS: process.env.ADMIN_API_TOKENS || ''
 };
 
 // Scheduler configuration
@@ -71,8 +75,29 @@ const SCHEDULER = {
     MAX_PAGES: parseInt(process.env.SCHEDULER_FETCH_PAGES || '1', 10),
     // Whether to use AI for categorization in scheduled job
     USE_AI: process.env.SCHEDULER_USE_AI !== 'false',
+    // Whether to scrape deal pages of newly seen articles in scheduled job
+    ENRICH_DETAILS: process.env.SCHEDULER_ENRICH_DETAILS === 'true',
+    // Pepper-network sites ingested in scheduled job (comma separated, default site if empty)
+    SITES: (process.env.SCHEDULER_SITES || '').split(',').map(site => site.trim()).filter(Boolean),
+    // Listings ingested for every site: home, search:<keyword>, group:<slug>, merchant:<slug> (comma separated)
+    TARGETS: (process.env.SCHEDULER_TARGETS || 'home').split(',').map(target => target.trim()).filter(Boolean),
+    // Whether the scheduled job stops at pages of already cached deals
+    INCREMENTAL: process.env.SCHEDULER_INCREMENTAL !== 'false',
+    // Number of pages fetched for search, group and merchant targets
+    TARGET_PAGES: parseInt(process.env.SCHEDULER_TARGET_PAGES || '3', 10),
     // Cron expression for the scheduler (every 30 minutes by default)
     CRON_EXPRESSION: process.env.FETCH_CATEGORIZE_CRON || '*/30 * * * *'
+  },
+  // Expired deal re-validation scheduler settings
+  REVALIDATE: {
+    // Enable/disable re-validation scheduler
+    ENABLED: process.env.ENABLE_REVALIDATE_SCHEDULER !== 'false',
+    // Only deals cached within this many days are re-checked
+    DAYS: parseInt(process.env.REVALIDATE_DAYS || '3', 10),
+    // Maximum number of deal pages checked per run
+    LIMIT: parseInt(process.env.REVALIDATE_LIMIT || '20', 10),
+    // Cron expression for the scheduler (every 2 hours by default)
+    CRON_EXPRESSION: process.env.REVALIDATE_CRON || '15 */2 * * *'
   }
 };
 
@@ -89,7 +114,21 @@ const SERVICES = {
     API_KEY: process.env.OPENAI_API_KEY,
     ORGANIZATION: process.env.OPENAI_ORGANIZATION,
     MODEL: process.env.OPENAI_MODEL || 'gpt-3.5-turbo'
-  } : undefined
+  } : undefined,
+  // Language model used for AI categorization (see src/lib/llmProviders.ts)
+  LLM: {
+    // 'openai', 'local' (OpenAI-compatible endpoint such as Ollama or llama.cpp) or 'mock' (deterministic, no network)
+    PROVIDER: process.env.LLM_PROVIDER || 'openai',
+    LOCAL: {
+      // Base URL of the OpenAI-compatible API, e.g. http://localhost:8080/v1 for llama.cpp
+      BASE_URL: process.env.LLM_LOCAL_BASE_URL || 'http://localhost:11434/v1',
+      MODEL: process.env.LLM_LOCAL_MODEL || 'llama3.1',
+      // Most local servers ignore the key, but the client requires one
+      API_KEY: process.env.LLM_LOCAL_API_KEY || 'local',
+      // Local models on modest hardware answer slower than OpenAI
+      TIMEOUT: parseInt(process.env.LLM_LOCAL_TIMEOUT || '120000', 10)
+    }
+  }
 };
 
 // API limits and defaults
@@ -107,14 +146,172 @@ const API = {
   },
   // Article categorization
   CATEGORIZATION: {
-    PROMPT: process.env.CATEGORIZATION_PROMPT || 
-      'Categorize this product or deal into ONE of the following categories: Electronics, Fashion, Home & Garden, Beauty, Sports, Toys, Food & Beverages, Travel, Services, Other. RESPOND ONLY WITH THE CATEGORY NAME.',
-    MAX_BATCH_SIZE: parseInt(process.env.MAX_CATEGORIZATION_BATCH_SIZE || '25', 10)
+    // Category taxonomy stored in the categories table (see src/services/categoriesService.ts)
+    TAXONOMY: {
+      // JSON file with the default taxonomy, seeded into an empty table and used without Supabase
+      DEFAULTS_FILE: process.env.CATEGORIES_DEFAULTS_FILE || 'config/categories.json',
+      // How long the taxonomy read from the database is reused
+      CACHE_TTL_MS: parseInt(process.env.CATEGORIES_CACHE_TTL_MS || '60000', 10)
+    },
+    // Keyword categorization (used without AI)
+    KEYWORDS: {
+      // Directory with per-language keyword dictionaries (<locale>.json), chosen by the site of the article
+      DICTIONARIES_DIR: process.env.CATEGORIZATION_KEYWORDS_DIR || 'config/keywords'
+    },
+    // Weighted rules stored in the category_rules table (see src/services/categoryRulesService.ts)
+    RULES: {
+      // JSON file with the default rules, seeded into an empty table and used without Supabase
+      DEFAULTS_FILE: process.env.CATEGORY_RULES_DEFAULTS_FILE || 'config/category-rules.json',
+      // Multiplier of the rule weight for a match in the title
+      TITLE_WEIGHT: parseFloat(process.env.CATEGORIZATION_RULES_TITLE_WEIGHT || '1'),
+      // Multiplier of the rule weight for a match found only in the description
+      DESCRIPTION_WEIGHT: parseFloat(process.env.CATEGORIZATION_RULES_DESCRIPTION_WEIGHT || '0.5'),
+      // Maximum length of a regular expression rule
+      MAX_REGEX_LENGTH: parseInt(process.env.CATEGORIZATION_RULES_MAX_REGEX_LENGTH || '200', 10)
+    },
+    MAX_BATCH_SIZE: parseInt(process.env.MAX_CATEGORIZATION_BATCH_SIZE || '25', 10),
+    // Several articles categorized with a single OpenAI request answering with JSON
+    AI_BATCH: {
+      // Whether AI categorization sends articles in batches (per-article requests otherwise)
+      ENABLED: process.env.CATEGORIZATION_AI_BATCH !== 'false',
+      // Maximum number of articles in one prompt
+      SIZE: parseInt(process.env.CATEGORIZATION_AI_BATCH_SIZE || '20', 10),
+      // Characters of the description sent per article
+      DESCRIPTION_LENGTH: parseInt(process.env.CATEGORIZATION_AI_DESCRIPTION_LENGTH || '300', 10)
+    },
+    // Articles listed under several categories (primary category plus secondary labels)
+    MULTI_LABEL: {
+      // Maximum number of categories per article, including the primary one
+      MAX_LABELS: parseInt(process.env.CATEGORIZATION_MAX_LABELS || '3', 10),
+      // Minimum confidence (0-1) of a secondary label to be stored
+      SECONDARY_MIN_CONFIDENCE: parseFloat(process.env.CATEGORIZATION_SECONDARY_MIN_CONFIDENCE || '0.4')
+    },
+    // Offline naive Bayes classifier trained on the stored categorized articles (see src/services/classifierService.ts)
+    CLASSIFIER: {
+      // Whether a trained model is used before the keywords when AI is unavailable or fails
+      ENABLED: process.env.CATEGORIZATION_CLASSIFIER_ENABLED !== 'false',
+      // Model file, relative to the project root
+      MODEL_FILE: process.env.CATEGORIZATION_CLASSIFIER_MODEL_FILE || 'cache/category-classifier.json',
+      // Minimum probability (0-1) of the best category to accept the prediction (keywords otherwise)
+      MIN_CONFIDENCE: parseFloat(process.env.CATEGORIZATION_CLASSIFIER_MIN_CONFIDENCE || '0.6'),
+      // Minimum number of training articles
+      MIN_TRAINING_ARTICLES: parseInt(process.env.CATEGORIZATION_CLASSIFIER_MIN_TRAINING_ARTICLES || '50', 10),
+      // Maximum number of (most recent) articles read for training
+      MAX_TRAINING_ARTICLES: parseInt(process.env.CATEGORIZATION_CLASSIFIER_MAX_TRAINING_ARTICLES || '20000', 10),
+      // LLM categorizations with a lower primary confidence are left out of training
+      MIN_TRAINING_CONFIDENCE: parseFloat(process.env.CATEGORIZATION_CLASSIFIER_MIN_TRAINING_CONFIDENCE || '0.5')
+    },
+    // Evaluation of the categorizer strategies on a labeled dataset (see src/services/evaluationService.ts)
+    EVALUATION: {
+      // JSON file with the imported verified articles, relative to the project root (written by the import)
+      DATASET_FILE: process.env.CATEGORIZATION_EVALUATION_DATASET || 'cache/evaluation-dataset.json',
+      // Synthetic sample used until a dataset is imported; only checks that the strategies run
+      SMOKE_DATASET_FILE: process.env.CATEGORIZATION_EVALUATION_SMOKE_DATASET || 'fixtures/categorization/smoke-dataset.json',
+      // Misclassified articles listed in a report
+      MAX_MISCLASSIFIED: parseInt(process.env.CATEGORIZATION_EVALUATION_MAX_MISCLASSIFIED || '50', 10)
+    }
+  },
+  // Canonical merchant table used to normalize merchant names
+  MERCHANTS: {
+    // JSON file with merchants and their aliases, relative to the project root
+    FILE: process.env.MERCHANTS_FILE || 'config/merchants.json'
   },
   // Scraper configuration
   SCRAPER: {
     BASE_URL: process.env.PEPPER_BASE_URL || 'https://www.pepper.pl',
-    USER_AGENT: process.env.SCRAPER_USER_AGENT || 'Mozilla/5.0 (compatible; PepperBot/1.0)'
+    // Pepper-network sites (see src/lib/sites.ts), base URLs can be overridden per site
+    SITES: {
+      // Site scraped when a request does not name one
+      DEFAULT: process.env.SCRAPER_DEFAULT_SITE || 'pepper',
+      BASE_URLS: {
+        pepper: process.env.PEPPER_BASE_URL || 'https://www.pepper.pl',
+        mydealz: process.env.MYDEALZ_BASE_URL || 'https://www.mydealz.de',
+        dealabs: process.env.DEALABS_BASE_URL || 'https://www.dealabs.com',
+        hotukdeals: process.env.HOTUKDEALS_BASE_URL || 'https://www.hotukdeals.com'
+      } as Record<string, string>
+    },
+    USER_AGENT: process.env.SCRAPER_USER_AGENT || 'Mozilla/5.0 (compatible; PepperBot/1.0)',
+    // Download strategy: 'http' (plain HTTP, Puppeteer fallback), 'http-only' or 'puppeteer'
+    STRATEGY: process.env.SCRAPER_STRATEGY || 'http',
+    // Timeout for page navigation in milliseconds
+    TIMEOUT: parseInt(process.env.SCRAPING_TIMEOUT || '30000', 10),
+    // Offline fixtures: 'off', 'replay' (read saved HTML) or 'record' (save live pages)
+    FIXTURES: {
+      MODE: process.env.SCRAPER_FIXTURES_MODE || 'off',
+      // Directory with HTML snapshots, relative to the project root
+      DIR: process.env.SCRAPER_FIXTURES_DIR || 'fixtures/scraper'
+    },
+    // Archive of raw listing HTML used for re-parsing after selector fixes
+    ARCHIVE: {
+      ENABLED: process.env.SCRAPER_ARCHIVE_ENABLED !== 'false',
+      // Directory with compressed pages, relative to the project root
+      DIR: process.env.SCRAPER_ARCHIVE_DIR || 'cache/html-archive',
+      // Maximum number of archived pages kept on disk
+      MAX_ENTRIES: parseInt(process.env.SCRAPER_ARCHIVE_MAX_ENTRIES || '500', 10),
+      // Archived pages older than this are removed
+      MAX_AGE_DAYS: parseInt(process.env.SCRAPER_ARCHIVE_MAX_AGE_DAYS || '7', 10)
+    },
+    // Deal detail page scraping
+    DETAILS: {
+      // Whether fetch-categorize-cache enriches newly seen articles by default
+      ENRICH_BY_DEFAULT: process.env.SCRAPER_ENRICH_DETAILS === 'true',
+      // Maximum number of deal pages scraped in a single run
+      MAX_PER_RUN: parseInt(process.env.SCRAPER_DETAILS_MAX_PER_RUN || '30', 10)
+    },
+    // Politeness towards the scraped sites
+    POLITENESS: {
+      // Whether robots.txt rules (Allow/Disallow, Crawl-delay) are honoured
+      RESPECT_ROBOTS: process.env.SCRAPER_RESPECT_ROBOTS !== 'false',
+      // Product token matched against robots.txt user-agent groups
+      ROBOTS_USER_AGENT: process.env.SCRAPER_ROBOTS_USER_AGENT || 'PepperBot',
+      // How long a downloaded robots.txt is reused (default: 6 hours)
+      ROBOTS_TTL_MS: parseInt(process.env.SCRAPER_ROBOTS_TTL_MS || '21600000', 10),
+      // Maximum number of requests per host in any 60 second window
+      MAX_REQUESTS_PER_MINUTE: parseInt(process.env.SCRAPER_MAX_REQUESTS_PER_MINUTE || '20', 10),
+      // Minimum delay between requests to the same host plus random jitter
+      MIN_DELAY_MS: parseInt(process.env.SCRAPER_MIN_DELAY_MS || '1500', 10),
+      JITTER_MS: parseInt(process.env.SCRAPER_JITTER_MS || '1500', 10),
+      // Cool-down after the first 429/503, doubled with every consecutive one up to the maximum
+      BACKOFF_BASE_MS: parseInt(process.env.SCRAPER_BACKOFF_BASE_MS || '60000', 10),
+      BACKOFF_MAX_MS: parseInt(process.env.SCRAPER_BACKOFF_MAX_MS || '3600000', 10),
+      // File with the cool-down state, relative to the project root
+      STATE_FILE: process.env.SCRAPER_POLITENESS_STATE_FILE || 'cache/politeness-state.json'
+    },
+    // Incremental scraping: pages are fetched one by one until a page consists mostly of known deals
+    INCREMENTAL: {
+      // Whether fetch-categorize-cache runs incrementally by default
+      ENABLED_BY_DEFAULT: process.env.SCRAPER_INCREMENTAL === 'true',
+      // Share of already cached articles on a page at which scraping stops
+      SEEN_THRESHOLD: parseFloat(process.env.SCRAPER_INCREMENTAL_SEEN_THRESHOLD || '0.8')
+    },
+    // Selector profiles describing the listing layout
+    SELECTORS: {
+      // JSON file with selector profiles, relative to the project root
+      FILE: process.env.SCRAPER_SELECTORS_FILE || 'config/selector-profiles.json',
+      // Profile to use (defaults to activeProfile from the file)
+      PROFILE: process.env.SCRAPER_SELECTOR_PROFILE || '',
+      // Share of cards with an empty field above which a layout change is reported
+      EMPTY_FIELD_THRESHOLD: parseFloat(process.env.SCRAPER_EMPTY_FIELD_THRESHOLD || '0.6')
+    },
+    // Shared headless browser pool
+    BROWSER_POOL: {
+      // Maximum number of pages open at the same time
+      MAX_CONCURRENCY: parseInt(process.env.BROWSER_POOL_MAX_CONCURRENCY || '2', 10),
+      // Number of navigations after which a page is closed and replaced
+      MAX_PAGE_USES: parseInt(process.env.BROWSER_POOL_MAX_PAGE_USES || '20', 10),
+      // Resource types that are never downloaded
+      BLOCKED_RESOURCE_TYPES: ['image', 'font', 'media', 'stylesheet'],
+      // URL fragments of analytics and ad requests that are aborted
+      BLOCKED_URL_PATTERNS: [
+        'google-analytics.com',
+        'googletagmanager.com',
+        'doubleclick.net',
+        'facebook.net',
+        'hotjar.com',
+        'criteo.',
+        'adservice.'
+      ]
+    }
   }
 };
 
@@ -156,7 +353,6 @@ const config: AppConfig & Record<string, any> = {
   CACHE_EXPIRATION: CACHE.DEFAULTS.TTL,
   PEPPER_BASE_URL: API.SCRAPER.BASE_URL,
   SCRAPER_USER_AGENT: API.SCRAPER.USER_AGENT,
-  CATEGORIZATION_PROMPT: API.CATEGORIZATION.PROMPT,
   MAX_CATEGORIZATION_BATCH_SIZE: API.CATEGORIZATION.MAX_BATCH_SIZE,
   DEBUG: DEBUG_SETTINGS.ENABLED,
   VERBOSE_LOGGING: DEBUG_SETTINGS.VERBOSE_LOGGING,
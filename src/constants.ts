@@ -27,4 +27,17 @@ export const ERROR_CODES = {
   
   // Cache errors
   CACHE_ERROR: 'CACHE_ERROR'
-}; 
\ No newline at end of file
+};
+
+/**
+ * Browser-like headers sent with every scraper request (Puppeteer and plain HTTP)
+ */
+export const SCRAPER_HEADERS = {
+  USER_AGENT: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/115.0.0.0 Safari/537.36',
+  EXTRA: {
+    'Accept-Language': 'en-US,en;q=0.9',
+    'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
+    'Cache-Control': 'max-age=0',
+    'Connection': 'keep-alive',
+  }
+};
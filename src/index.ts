@@ -6,6 +6,7 @@ import compression from 'compression';
 import config from './config';
 import { startCacheCleanup } from './lib/cacheCleanup';
 import { startScheduler, stopScheduler } from './lib/scheduler';
+import { closeBrowserPool } from './lib/browserPool';
 import { EventEmitter } from 'events';
 
 // Increase Node's event emitter limit to avoid warnings
@@ -19,6 +20,8 @@ import articlesRouter from './routes/articles';
 import categorizeRouter from './routes/categorize';
 import supabaseRouter from './routes/supabase';
 import cacheRouter from './routes/cache';
+import archiveRouter from './routes/archive';
+import merchantsRouter from './routes/merchants';
 
 // Create Express app
 const app = express();
@@ -97,6 +100,8 @@ app.use('/api/articles', articlesRouter);
 app.use('/api/categorize', categorizeRouter);
 app.use('/api/supabase', supabaseRouter);
 app.use('/api/cache', cacheRouter);
+app.use('/api/archive', archiveRouter);
+app.use('/api/merchants', merchantsRouter);
 
 // Health check
 app.get('/health', (req: Request, res: Response) => {
@@ -120,6 +125,7 @@ app.get('/', (req: Request, res: Response) => {
       { path: '/api/categorize', description: 'Categorize articles with AI' },
       { path: '/api/supabase', description: 'Supabase connection utilities' },
       { path: '/api/cache', description: 'Cache management' },
+      { path: '/api/archive', description: 'Archived raw HTML of scraped pages' },
       { path: '/health', description: 'Server health check' },
     ]
   });
@@ -157,6 +163,9 @@ const gracefulShutdown = async () => {
     // Zatrzymaj wszystkie zaplanowane zadania
     stopScheduler(scheduledJobs);
     
+    // Zamknij współdzieloną przeglądarkę Puppeteer i wszystkie jej strony
+    await closeBrowserPool();
+    
     // Wymuszamy garbage collection, jeśli jest dostępne
     if (global.gc) {
       try {
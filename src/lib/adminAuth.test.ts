@@ -0,0 +1,66 @@
+import config from '../config';
+import { Request, Response } from '../types/express';
+import { requireAdminToken, getAdminActor } from './adminAuth';
+
+/**
+ * Run the middleware for a request with an Authorization header
+ */
+function authorize(authorization?: string): { status: number | null; next: boolean; res: Response } {
+  const result = { status: null as number | null, next: false, res: {} as Response };
+  const res = {
+    locals: {},
+    status(code: number) {
+      result.status = code;
+      return this;
+    },
+    json() {
+      return this;
+    }
+  } as unknown as Response;
+  result.res = res;
+  requireAdminToken({ headers: { authorization } } as Request, res, () => {
+    result.next = true;
+  });
+  return result;
+}
+
+describe('requireAdminToken', () => {
+  const original = { ...config.SERVER };
+
+  afterEach(() => {
+    Object.assign(config.SERVER, original);
+  });
+
+  it('answers 503 when no token is configured', () => {
+    config.SERVER.ADMIN_TOKEN = '';
+    config.SERVER.ADMIN_TOKENS = '';
+
+    expect(authorize('Bearer anything')).toMatchObject({ status: 503, next: false });
+  });
+
+  it('answers 401 for a missing or wrong token', () => {
+    config.SERVER.ADMIN_TOKEN = 'shared-token';
+
+    expect(authorize()).toMatchObject({ status: 401, next: false });
+    expect(authorize('Bearer wrong')).toMatchObject({ status: 401, next: false });
+    expect(authorize('shared-token')).toMatchObject({ status: 401, next: false });
+  });
+
+  it('lets the shared token through as the admin actor', () => {
+    config.SERVER.ADMIN_TOKEN = 'shared-token';
+    const result = authorize('Bearer shared-token');
+
+    expect(result).toMatchObject({ status: null, next: true });
+    expect(getAdminActor(result.res)).toBe('admin');
+  });
+
+  it('names the holder of a personal token', () => {
+    config.SERVER.ADMIN_TOKEN = '';
+    config.SERVER.ADMIN_TOKENS = 'anna:token-a, piotr:token-b,broken';
+    const result = authorize('Bearer token-b');
+
+    expect(result.next).toBe(true);
+    expect(getAdminActor(result.res)).toBe('piotr');
+    expect(authorize('Bearer broken').status).toBe(401);
+  });
+});
@@ -0,0 +1,97 @@
+import { timingSafeEqual } from 'crypto';
+import { Request, Response, NextFunction } from '../types/express';
+import config from '../config';
+
+/**
+ * Admin token and the name of its holder
+ */
+interface AdminToken {
+  actor: string;
+  token: string;
+}
+
+// Autor zmian wykonanych wspólnym tokenem ADMIN_API_TOKEN
+const SHARED_TOKEN_ACTOR = 'admin';
+
+/**
+ * List the configured admin tokens: the shared ADMIN_API_TOKEN and the personal ADMIN_API_TOKENS
+ * @returns Tokens with their holders
+ */
+function getAdminTokens(): AdminToken[] {
+  const tokens: AdminToken[] = [];
+  if (config.SERVER.ADMIN_TOKEN) {
+    tokens.push({ actor: SHARED_TOKEN_ACTOR, token: config.SERVER.ADMIN_TOKEN });
+  }
+
+  for (const pair of config.SERVER.ADMIN_TOKENS.split(',')) {
+    const separator = pair.indexOf(':');
+    const actor = pair.slice(0, separator).trim();
+    const token = pair.slice(separator + 1).trim();
+    if (separator > 0 && actor && token) {
+      tokens.push({ actor, token });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Read the token sent with a request (`Authorization: Bearer <token>`)
+ * @param req - Request
+ * @returns Token or null if the header is missing
+ */
+function getRequestToken(req: Request): string | null {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization || '');
+  return match ? match[1] : null;
+}
+
+/**
+ * Compare tokens in constant time
+ * @param token - Token from the request
+ * @param expected - Configured token
+ * @returns Whether the tokens are equal
+ */
+function tokensMatch(token: string, expected: string): boolean {
+  const actual = Buffer.from(token);
+  const wanted = Buffer.from(expected);
+  return actual.length === wanted.length && timingSafeEqual(actual, wanted);
+}
+
+/**
+ * Middleware restricting an endpoint to holders of ADMIN_API_TOKEN or one of ADMIN_API_TOKENS: 503 when no token
+ * is configured, 401 when the request carries no token or a wrong one; the holder is kept in `res.locals.adminActor`
+ * @param req - Request
+ * @param res - Response
+ * @param next - Next handler
+ */
+function requireAdminToken(req: Request, res: Response, next: NextFunction): void {
+  const tokens = getAdminTokens();
+  if (tokens.length === 0) {
+    res.status(503).json({ error: 'Admin endpoints unavailable: ADMIN_API_TOKEN not configured' });
+    return;
+  }
+
+  const token = getRequestToken(req);
+  const match = token ? tokens.find(candidate => tokensMatch(token, candidate.token)) : undefined;
+  if (!match) {
+    res.status(401).json({ error: 'Unauthorized: a valid admin token is required' });
+    return;
+  }
+
+  res.locals.adminActor = match.actor;
+  next();
+}
+
+/**
+ * Get the holder of the admin token a request was authorized with (after requireAdminToken)
+ * @param res - Response
+ * @returns Name of the token holder
+ */
+function getAdminActor(res: Response): string {
+  return res.locals.adminActor || SHARED_TOKEN_ACTOR;
+}
+
+export {
+  requireAdminToken,
+  getAdminActor
+};
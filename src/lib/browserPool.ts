@@ -0,0 +1,262 @@
+import puppeteer, { Browser, Page, HTTPRequest } from 'puppeteer';
+import config from '../config';
+import { SCRAPER_HEADERS } from '../constants';
+
+/**
+ * Page kept in the pool together with its usage counter
+ */
+interface PooledPage {
+  /** Puppeteer page instance */
+  page: Page;
+  /** Number of times the page has been handed out */
+  uses: number;
+}
+
+let browser: Browser | null = null;
+let launchPromise: Promise<Browser> | null = null;
+let isClosing = false;
+
+// Strony gotowe do ponownego użycia
+const idlePages: PooledPage[] = [];
+// Liczba stron aktualnie wypożyczonych
+let activePages = 0;
+// Kolejka oczekujących na wolne miejsce w puli
+const waitQueue: Array<() => void> = [];
+// Usage counter for pages that are currently checked out
+const pageUses = new WeakMap<Page, number>();
+
+/**
+ * Launch the shared browser instance (only once, concurrent callers share the same launch)
+ * @returns The browser instance
+ */
+async function getBrowser(): Promise<Browser> {
+  if (browser && browser.isConnected()) {
+    return browser;
+  }
+
+  if (!launchPromise) {
+    console.log('Launching shared Puppeteer browser for the pool...');
+    launchPromise = puppeteer.launch({
+      headless: true,
+      args: [
+        '--no-sandbox',
+        '--disable-setuid-sandbox',
+        '--disable-dev-shm-usage',
+        '--disable-gpu'
+      ]
+    }).then(launched => {
+      browser = launched;
+      launched.on('disconnected', () => {
+        console.warn('Pooled browser disconnected, pool will relaunch it on next request');
+        browser = null;
+        idlePages.length = 0;
+      });
+      return launched;
+    }).finally(() => {
+      launchPromise = null;
+    });
+  }
+
+  return launchPromise;
+}
+
+/**
+ * Check whether a request should be blocked (images, fonts, analytics etc.)
+ * @param request - Intercepted request
+ * @returns True if the request should be aborted
+ */
+function shouldBlockRequest(request: HTTPRequest): boolean {
+  const { BLOCKED_RESOURCE_TYPES, BLOCKED_URL_PATTERNS } = config.API.SCRAPER.BROWSER_POOL;
+
+  if (BLOCKED_RESOURCE_TYPES.includes(request.resourceType())) {
+    return true;
+  }
+
+  const url = request.url();
+  return BLOCKED_URL_PATTERNS.some((pattern: string) => url.includes(pattern));
+}
+
+/**
+ * Create a new page with the scraper defaults and request interception enabled
+ * @returns Configured page
+ */
+async function createPage(): Promise<Page> {
+  const pooledBrowser = await getBrowser();
+  const page = await pooledBrowser.newPage();
+
+  // Set a realistic browser user agent string
+  await page.setUserAgent(SCRAPER_HEADERS.USER_AGENT);
+
+  // Set additional headers
+  await page.setExtraHTTPHeaders(SCRAPER_HEADERS.EXTRA);
+
+  // Blokujemy obrazy, fonty i skrypty analityczne - nie są potrzebne do parsowania HTML
+  await page.setRequestInterception(true);
+  page.on('request', (request: HTTPRequest) => {
+    if (request.isInterceptResolutionHandled()) return;
+
+    if (shouldBlockRequest(request)) {
+      request.abort().catch(() => undefined);
+    } else {
+      request.continue().catch(() => undefined);
+    }
+  });
+
+  return page;
+}
+
+/**
+ * Wait until a slot in the pool is free
+ */
+async function acquireSlot(): Promise<void> {
+  const maxConcurrency = Math.max(1, config.API.SCRAPER.BROWSER_POOL.MAX_CONCURRENCY);
+
+  if (activePages < maxConcurrency) {
+    activePages++;
+    return;
+  }
+
+  // Slot is handed over directly by releaseSlot, so activePages stays unchanged
+  await new Promise<void>(resolve => waitQueue.push(resolve));
+}
+
+/**
+ * Free a slot in the pool and wake up the next waiting caller
+ */
+function releaseSlot(): void {
+  const next = waitQueue.shift();
+  if (next) {
+    next();
+  } else {
+    activePages = Math.max(0, activePages - 1);
+  }
+}
+
+/**
+ * Borrow a page from the pool, waiting if the maximum concurrency has been reached
+ * @returns A ready to use page
+ */
+async function acquirePage(): Promise<Page> {
+  if (isClosing) {
+    throw new Error('Browser pool is shutting down');
+  }
+
+  await acquireSlot();
+
+  if (isClosing) {
+    releaseSlot();
+    throw new Error('Browser pool is shutting down');
+  }
+
+  try {
+    // Reuse an idle page if one is still usable
+    while (idlePages.length > 0) {
+      const pooled = idlePages.pop() as PooledPage;
+      if (!pooled.page.isClosed()) {
+        pageUses.set(pooled.page, pooled.uses + 1);
+        return pooled.page;
+      }
+    }
+
+    const page = await createPage();
+    pageUses.set(page, 1);
+    return page;
+  } catch (error) {
+    releaseSlot();
+    throw error;
+  }
+}
+
+/**
+ * Return a page to the pool. Pages that were used too many times or hit an error are closed.
+ * @param page - Page to return
+ * @param discard - Whether the page should be closed instead of reused
+ */
+async function releasePage(page: Page, discard = false): Promise<void> {
+  const uses = pageUses.get(page) ?? 0;
+  pageUses.delete(page);
+
+  try {
+    const { MAX_PAGE_USES, MAX_CONCURRENCY } = config.API.SCRAPER.BROWSER_POOL;
+    const reusable = !discard && !isClosing && !page.isClosed() &&
+      uses < MAX_PAGE_USES && idlePages.length < MAX_CONCURRENCY;
+
+    if (reusable) {
+      // Czyścimy stronę, żeby nie trzymała w pamięci poprzedniego DOM-u
+      await page.goto('about:blank').catch(() => undefined);
+      idlePages.push({ page, uses });
+    } else if (!page.isClosed()) {
+      await page.close().catch(() => undefined);
+    }
+  } finally {
+    releaseSlot();
+  }
+}
+
+/**
+ * Run a callback with a pooled page and return the page afterwards
+ * @param callback - Function receiving the page
+ * @returns Result of the callback
+ */
+async function withPage<T>(callback: (page: Page) => Promise<T>): Promise<T> {
+  const page = await acquirePage();
+  let failed = false;
+
+  try {
+    return await callback(page);
+  } catch (error) {
+    failed = true;
+    throw error;
+  } finally {
+    await releasePage(page, failed);
+  }
+}
+
+/**
+ * Close all pooled pages and the shared browser (used during graceful shutdown)
+ */
+async function closeBrowserPool(): Promise<void> {
+  isClosing = true;
+
+  // Odrzucamy oczekujących - po zamknięciu puli nie dostaną już strony
+  while (waitQueue.length > 0) {
+    const next = waitQueue.shift();
+    if (next) next();
+  }
+
+  idlePages.length = 0;
+
+  const pendingLaunch = launchPromise;
+  const currentBrowser = browser ?? (pendingLaunch ? await pendingLaunch.catch(() => null) : null);
+  browser = null;
+
+  if (currentBrowser) {
+    try {
+      await currentBrowser.close();
+      console.log('Browser pool closed');
+    } catch (error) {
+      console.error('Error closing browser pool:', error);
+    }
+  }
+}
+
+/**
+ * Get current pool statistics
+ * @returns Pool usage information
+ */
+function getBrowserPoolStats(): { active: number; idle: number; waiting: number; browserRunning: boolean } {
+  return {
+    active: activePages,
+    idle: idlePages.length,
+    waiting: waitQueue.length,
+    browserRunning: !!browser && browser.isConnected()
+  };
+}
+
+export {
+  acquirePage,
+  releasePage,
+  withPage,
+  closeBrowserPool,
+  getBrowserPoolStats
+};
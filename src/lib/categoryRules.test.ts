@@ -0,0 +1,164 @@
+import config from '../config';
+import {
+  CategoryRule,
+  checkRulePatternSafety,
+  compileRulePattern,
+  prepareRuleSubject,
+  matchRule,
+  evaluateRules,
+  sumRuleHits
+} from './categoryRules';
+
+/**
+ * Build a rule with the defaults of the rules file
+ */
+function rule(overrides: Partial<CategoryRule>): CategoryRule {
+  return {
+    id: 'test',
+    categorySlug: 'electronics',
+    type: 'keyword',
+    pattern: '',
+    weight: 2,
+    field: 'any',
+    locale: null,
+    ...overrides
+  };
+}
+
+describe('checkRulePatternSafety', () => {
+  it.each([
+    '(a+)+$',
+    '(\\w*\\s)*',
+    '(a{2,})*',
+    '((a+))+',
+    '(x+x+)+y'
+  ])('rejects the nested quantifiers in %s', pattern => {
+    expect(checkRulePatternSafety(pattern)).toMatch('nested quantifiers');
+  });
+
+  it.each([
+    '(a|a)+$',
+    '(a|aa)*b',
+    '(\\w|\\d)+x',
+    '(?:ab|cd)+',
+    '((a|b)c)*'
+  ])('rejects the repeated alternation in %s', pattern => {
+    expect(checkRulePatternSafety(pattern)).toMatch('overlapping alternatives');
+  });
+
+  it.each([
+    '(a{3})+',
+    '\\(a+\\)+',
+    '[(]+a+',
+    '\\b(rtx|gtx)\\s?\\d{4}\\b',
+    '(rtx|gtx)?\\d{4}',
+    '[a|b]+',
+    'iphone\\s*1[3-6]'
+  ])('accepts %s', pattern => {
+    expect(checkRulePatternSafety(pattern)).toBeNull();
+  });
+
+  it('rejects patterns longer than the configured maximum', () => {
+    expect(checkRulePatternSafety('a'.repeat(config.API.CATEGORIZATION.RULES.MAX_REGEX_LENGTH + 1))).toMatch('longer than');
+  });
+});
+
+describe('compileRulePattern', () => {
+  it('compiles a case-insensitive expression', () => {
+    expect(compileRulePattern('rtx\\s?40\\d0')!.test('Karta RTX 4070')).toBe(true);
+  });
+
+  it('returns null for invalid and unsafe patterns', () => {
+    expect(compileRulePattern('(unclosed')).toBeNull();
+    expect(compileRulePattern('(a+)+$')).toBeNull();
+  });
+});
+
+describe('rule matching', () => {
+  const settings = config.API.CATEGORIZATION.RULES;
+  const original = { ...settings };
+
+  beforeAll(() => {
+    settings.TITLE_WEIGHT = 1;
+    settings.DESCRIPTION_WEIGHT = 0.5;
+  });
+
+  afterAll(() => {
+    Object.assign(settings, original);
+  });
+
+  const subject = prepareRuleSubject({
+    title: 'Słuchawki Sony WH-1000XM5',
+    description: 'Bezprzewodowe słuchawki z ANC, idealne do odkurzacza',
+    merchant: 'x-kom.pl'
+  }, 'pl');
+
+  it('prepares the title, description and canonical merchant', () => {
+    expect(subject).toMatchObject({ locale: 'pl', rawTitle: 'Słuchawki Sony WH-1000XM5', merchantId: 'x-kom' });
+    expect(subject.title.normalized).toBe('sluchawki sony wh 1000xm5');
+  });
+
+  it('gives keyword matches in the title full points and in the description half points', () => {
+    expect(matchRule(rule({ pattern: 'słuchawki' }), subject)).toEqual({ categorySlug: 'electronics', key: 'keyword:sluchawk', points: 2 });
+    expect(matchRule(rule({ pattern: 'odkurzacz' }), subject)).toMatchObject({ points: 1 });
+  });
+
+  it('only looks at the field of the rule', () => {
+    expect(matchRule(rule({ pattern: 'odkurzacz', field: 'title' }), subject)).toBeNull();
+    expect(matchRule(rule({ pattern: 'sony', field: 'description' }), subject)).toBeNull();
+  });
+
+  it('matches regular expressions against the original text', () => {
+    expect(matchRule(rule({ type: 'regex', pattern: 'WH-1000XM\\d' }), subject)).toMatchObject({ key: 'regex:WH-1000XM\\d', points: 2 });
+    expect(matchRule(rule({ type: 'regex', pattern: '(a+)+$' }), subject)).toBeNull();
+  });
+
+  it('matches merchants by canonical id', () => {
+    expect(matchRule(rule({ type: 'merchant', pattern: 'x-kom' }), subject)).toMatchObject({ key: 'merchant:x-kom', points: 2 });
+    expect(matchRule(rule({ type: 'merchant', pattern: 'allegro' }), subject)).toBeNull();
+  });
+
+  it('skips rules of other locales', () => {
+    expect(matchRule(rule({ pattern: 'słuchawki', locale: 'de' }), subject)).toBeNull();
+    expect(matchRule(rule({ pattern: 'słuchawki', locale: 'pl' }), subject)).not.toBeNull();
+  });
+
+  it('returns the hits of the matching rules', () => {
+    const hits = evaluateRules([
+      rule({ pattern: 'sony' }),
+      rule({ pattern: 'lego', categorySlug: 'toys' }),
+      rule({ pattern: 'odkurzacz', categorySlug: 'home', weight: -1 })
+    ], subject);
+
+    expect(hits).toEqual([
+      { categorySlug: 'electronics', key: 'keyword:son', points: 2 },
+      { categorySlug: 'home', key: 'keyword:odkurzacz', points: -0.5 }
+    ]);
+  });
+});
+
+describe('sumRuleHits', () => {
+  it('counts hits of the same form once per group with their highest points', () => {
+    const hits = [
+      { categorySlug: 'electronics', key: 'keyword:sluchawk', points: 1 },
+      { categorySlug: 'audio', key: 'keyword:sluchawk', points: 3 },
+      { categorySlug: 'electronics', key: 'merchant:x-kom', points: 2 }
+    ];
+
+    expect(sumRuleHits(hits, ['electronics', 'audio'])).toBe(5);
+    expect(sumRuleHits(hits, ['electronics'])).toBe(3);
+  });
+
+  it('counts positive and negative hits of the same form separately', () => {
+    const hits = [
+      { categorySlug: 'electronics', key: 'keyword:etui', points: 2 },
+      { categorySlug: 'electronics', key: 'keyword:etui', points: -3 }
+    ];
+
+    expect(sumRuleHits(hits, ['electronics'])).toBe(-1);
+  });
+
+  it('ignores hits of other categories', () => {
+    expect(sumRuleHits([{ categorySlug: 'toys', key: 'keyword:lego', points: 2 }], ['electronics'])).toBe(0);
+  });
+});
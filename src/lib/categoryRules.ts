@@ -0,0 +1,263 @@
+import config from '../config';
+import { KeywordText, prepareKeywordText, getPreparedKeyword, matchesKeyword } from './keywordMatching';
+import { normalizeMerchant } from './merchants';
+
+/**
+ * How a rule matches an article: whole words (several words match as a phrase), a regular expression
+ * or the merchant of the deal
+ */
+export type CategoryRuleType = 'keyword' | 'regex' | 'merchant';
+
+/**
+ * Part of the article a rule looks at (merchant rules ignore it)
+ */
+export type CategoryRuleField = 'any' | 'title' | 'description';
+
+/**
+ * Weighted categorization rule
+ */
+export interface CategoryRule {
+  /** Rule identifier */
+  id: string;
+  /** Slug of the category (or subcategory) the rule points to */
+  categorySlug: string;
+  type: CategoryRuleType;
+  /** Keyword or phrase, regular expression (case-insensitive) or merchant id or name */
+  pattern: string;
+  /** Points added to the category when the rule matches; negative weights take points away */
+  weight: number;
+  field: CategoryRuleField;
+  /** Site locale the rule applies to (null for all sites) */
+  locale: string | null;
+}
+
+/**
+ * Article prepared for rule matching
+ */
+export interface RuleSubject {
+  locale: string;
+  title: KeywordText;
+  description: KeywordText;
+  /** Original title and description for regular expressions */
+  rawTitle: string;
+  rawDescription: string;
+  /** Canonical merchant id or null */
+  merchantId: string | null;
+}
+
+/**
+ * Points a matching rule gives a category
+ */
+export interface RuleHit {
+  categorySlug: string;
+  /** Matched form (stems of a keyword, regex or merchant) - rules of the same form count once per category */
+  key: string;
+  points: number;
+}
+
+const CATEGORY_RULE_TYPES: CategoryRuleType[] = ['keyword', 'regex', 'merchant'];
+const CATEGORY_RULE_FIELDS: CategoryRuleField[] = ['any', 'title', 'description'];
+
+const compiledPatterns = new Map<string, RegExp | null>();
+
+/**
+ * Check whether a quantifier starts at a position: `*`, `+` or a range `{n,}` / `{n,m}`
+ * (exact counts like `{3}` and the optional `?` repeat at most a fixed number of times)
+ * @param pattern - Regular expression source
+ * @param index - Position
+ * @returns Whether the position holds a repeating quantifier
+ */
+function isRepeatingQuantifier(pattern: string, index: number): boolean {
+  const char = pattern[index];
+  return char === '*' || char === '+' || (char === '{' && /^\{\d+,\d*\}/.test(pattern.slice(index)));
+}
+
+/**
+ * Check that a regex rule cannot make matching take exponential time (catastrophic backtracking):
+ * the pattern must not exceed CATEGORIZATION_RULES_MAX_REGEX_LENGTH characters and no repeated group
+ * may contain another repeating quantifier, e.g. `(a+)+` or `(\w*\s)*`, or an alternation, whose
+ * alternatives may overlap, e.g. `(a|aa)*` or `(\w|\d)+`
+ * @param pattern - Regular expression source
+ * @returns Error message or null if the pattern is safe
+ */
+function checkRulePatternSafety(pattern: string): string | null {
+  const maxLength = config.API.CATEGORIZATION.RULES.MAX_REGEX_LENGTH;
+  if (pattern.length > maxLength) {
+    return `regular expression is longer than ${maxLength} characters`;
+  }
+
+  // Dla każdej otwartej grupy: czy zawiera kwantyfikator powtarzający i czy zawiera alternatywę
+  const groups: Array<{ quantifier: boolean; alternation: boolean }> = [];
+  let inCharacterClass = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const group = groups[groups.length - 1];
+    if (char === '\\') {
+      i++;
+    } else if (inCharacterClass) {
+      inCharacterClass = char !== ']';
+    } else if (char === '[') {
+      inCharacterClass = true;
+    } else if (char === '(') {
+      groups.push({ quantifier: false, alternation: false });
+    } else if (char === ')') {
+      const closed = groups.pop() ?? { quantifier: false, alternation: false };
+      const repeated = isRepeatingQuantifier(pattern, i + 1);
+      if (repeated && closed.quantifier) {
+        return 'regular expression repeats a group that contains a quantifier (nested quantifiers)';
+      }
+      if (repeated && closed.alternation) {
+        return 'regular expression repeats a group that contains an alternation (overlapping alternatives)';
+      }
+      const parent = groups[groups.length - 1];
+      if (parent) {
+        parent.quantifier = parent.quantifier || closed.quantifier || repeated;
+        parent.alternation = parent.alternation || closed.alternation;
+      }
+    } else if (group && char === '|') {
+      group.alternation = true;
+    } else if (group && isRepeatingQuantifier(pattern, i)) {
+      group.quantifier = true;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Compile the pattern of a regex rule (compiled once)
+ * @param pattern - Regular expression source
+ * @returns Case-insensitive expression or null if the pattern is invalid or unsafe (see checkRulePatternSafety)
+ */
+function compileRulePattern(pattern: string): RegExp | null {
+  if (!compiledPatterns.has(pattern)) {
+    try {
+      compiledPatterns.set(pattern, checkRulePatternSafety(pattern) ? null : new RegExp(pattern, 'iu'));
+    } catch {
+      compiledPatterns.set(pattern, null);
+    }
+  }
+  return compiledPatterns.get(pattern)!;
+}
+
+/**
+ * Prepare an article for rule matching
+ * @param article - Title, description and merchant of the article
+ * @param locale - Site locale
+ * @returns Rule subject
+ */
+function prepareRuleSubject(
+  article: { title: string; description?: string | null; merchant?: string | null; merchantId?: string | null },
+  locale: string
+): RuleSubject {
+  return {
+    locale,
+    title: prepareKeywordText(article.title || '', locale),
+    description: prepareKeywordText(article.description || '', locale),
+    rawTitle: article.title || '',
+    rawDescription: article.description || '',
+    merchantId: article.merchantId || normalizeMerchant(article.merchant)?.id || null
+  };
+}
+
+/**
+ * Weight of the part of the article a rule matched: a match in the title counts fully, a match found
+ * only in the description counts CATEGORIZATION_RULES_DESCRIPTION_WEIGHT
+ * @param field - Field of the rule
+ * @param inTitle - Whether the title matches
+ * @param inDescription - Whether the description matches
+ * @returns Weight (0 if the rule does not match)
+ */
+function fieldWeight(field: CategoryRuleField, inTitle: () => boolean, inDescription: () => boolean): number {
+  const { TITLE_WEIGHT, DESCRIPTION_WEIGHT } = config.API.CATEGORIZATION.RULES;
+  if (field !== 'description' && inTitle()) {
+    return TITLE_WEIGHT;
+  }
+  if (field !== 'title' && inDescription()) {
+    return DESCRIPTION_WEIGHT;
+  }
+  return 0;
+}
+
+/**
+ * Match a rule against an article
+ * @param rule - Rule
+ * @param subject - Prepared article
+ * @returns Hit or null if the rule does not match or applies to another locale
+ */
+function matchRule(rule: CategoryRule, subject: RuleSubject): RuleHit | null {
+  if (rule.locale && rule.locale !== subject.locale) {
+    return null;
+  }
+
+  let weight = 0;
+  let key: string;
+  switch (rule.type) {
+    case 'keyword': {
+      const prepared = getPreparedKeyword(rule.pattern, subject.locale);
+      key = `keyword:${prepared.words.join(' ')}`;
+      weight = fieldWeight(rule.field, () => matchesKeyword(subject.title, rule.pattern), () => matchesKeyword(subject.description, rule.pattern));
+      break;
+    }
+    case 'regex': {
+      const pattern = compileRulePattern(rule.pattern);
+      key = `regex:${rule.pattern}`;
+      weight = pattern ? fieldWeight(rule.field, () => pattern.test(subject.rawTitle), () => pattern.test(subject.rawDescription)) : 0;
+      break;
+    }
+    case 'merchant': {
+      const merchantId = normalizeMerchant(rule.pattern)?.id;
+      key = `merchant:${merchantId}`;
+      weight = merchantId && merchantId === subject.merchantId ? config.API.CATEGORIZATION.RULES.TITLE_WEIGHT : 0;
+      break;
+    }
+    default:
+      return null;
+  }
+
+  return weight > 0 ? { categorySlug: rule.categorySlug, key, points: rule.weight * weight } : null;
+}
+
+/**
+ * Match rules against an article
+ * @param rules - Rules
+ * @param subject - Prepared article
+ * @returns Hits of the matching rules
+ */
+function evaluateRules(rules: CategoryRule[], subject: RuleSubject): RuleHit[] {
+  return rules
+    .map(rule => matchRule(rule, subject))
+    .filter((hit): hit is RuleHit => hit !== null);
+}
+
+/**
+ * Sum the points of the hits for a group of categories; hits of the same form (e.g. the same keyword
+ * in a category and its subcategory, or "książka" and "książki") count once with their highest points
+ * @param hits - Rule hits
+ * @param slugs - Slugs of the categories in the group
+ * @returns Total points (can be negative)
+ */
+function sumRuleHits(hits: RuleHit[], slugs: string[]): number {
+  const best = new Map<string, number>();
+  for (const hit of hits) {
+    if (!slugs.includes(hit.categorySlug)) continue;
+    // Dodatnie i ujemne trafienia tej samej postaci liczone są osobno
+    const key = `${hit.points < 0 ? '-' : '+'}${hit.key}`;
+    const current = best.get(key);
+    if (current === undefined || Math.abs(hit.points) > Math.abs(current)) {
+      best.set(key, hit.points);
+    }
+  }
+  return Array.from(best.values()).reduce((sum, points) => sum + points, 0);
+}
+
+export {
+  CATEGORY_RULE_TYPES,
+  CATEGORY_RULE_FIELDS,
+  checkRulePatternSafety,
+  compileRulePattern,
+  prepareRuleSubject,
+  matchRule,
+  evaluateRules,
+  sumRuleHits
+};
@@ -0,0 +1,94 @@
+import path from 'path';
+import fs from 'fs';
+import config from '../config';
+
+/**
+ * Article with its verified category
+ */
+export interface DatasetEntry {
+  /** Article identifier (article_id for imported rows) */
+  id: string;
+  title: string;
+  description: string;
+  link: string;
+  site: string | null;
+  merchant: string | null;
+  /** Slug of the expected top-level category */
+  category: string;
+  /** Slug of the expected subcategory (null if the article belongs to the top-level category itself) */
+  subcategory: string | null;
+}
+
+/**
+ * Contents of the dataset file
+ */
+interface DatasetFile {
+  version: number;
+  /** What the dataset is (set in the smoke fixture) */
+  description?: string;
+  entries: DatasetEntry[];
+}
+
+// Wersja 2: kategorie zapisane jako slugi zamiast nazw
+const DATASET_VERSION = 2;
+
+/**
+ * Get the absolute path of the dataset written by the import of the verified articles
+ * @returns File path
+ */
+function getImportedDatasetPath(): string {
+  return path.resolve(__dirname, '../..', config.API.CATEGORIZATION.EVALUATION.DATASET_FILE);
+}
+
+/**
+ * Get the absolute path of the dataset used by the evaluation: the imported one, or the smoke fixture
+ * until the verified articles are imported
+ * @returns File path
+ */
+function getDatasetPath(): string {
+  const importedPath = getImportedDatasetPath();
+  return fs.existsSync(importedPath)
+    ? importedPath
+    : path.resolve(__dirname, '../..', config.API.CATEGORIZATION.EVALUATION.SMOKE_DATASET_FILE);
+}
+
+/**
+ * Check whether the evaluation uses the smoke fixture, whose scores measure nothing
+ * @returns Whether no dataset was imported
+ */
+function isSmokeDataset(): boolean {
+  return getDatasetPath() !== getImportedDatasetPath();
+}
+
+/**
+ * Read a labeled dataset
+ * @param filePath - Dataset file (the one used by the evaluation if omitted)
+ * @returns Entries (empty if there is no dataset file)
+ */
+function loadDataset(filePath: string = getDatasetPath()): DatasetEntry[] {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8')) as DatasetFile;
+  return (parsed.entries || []).filter(entry => entry && entry.id && entry.title && entry.category);
+}
+
+/**
+ * Write the imported dataset
+ * @param entries - Entries
+ */
+function saveDataset(entries: DatasetEntry[]): void {
+  const filePath = getImportedDatasetPath();
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const file: DatasetFile = { version: DATASET_VERSION, entries };
+  fs.writeFileSync(filePath, `${JSON.stringify(file, null, 2)}\n`);
+}
+
+export {
+  getImportedDatasetPath,
+  getDatasetPath,
+  isSmokeDataset,
+  loadDataset,
+  saveDataset
+};
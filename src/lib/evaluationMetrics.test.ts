@@ -0,0 +1,105 @@
+import {
+  ConfusionMatrix,
+  NO_PREDICTION,
+  ratio,
+  addToConfusionMatrix,
+  computeCategoryMetrics,
+  computeMacroF1
+} from './evaluationMetrics';
+
+/**
+ * Build a confusion matrix from [expected, predicted] pairs
+ */
+function matrixOf(pairs: Array<[string, string | null]>): ConfusionMatrix {
+  const matrix: ConfusionMatrix = {};
+  pairs.forEach(([expected, predicted]) => addToConfusionMatrix(matrix, expected, predicted));
+  return matrix;
+}
+
+describe('ratio', () => {
+  it('rounds to 3 decimals', () => {
+    expect(ratio(2, 3)).toBe(0.667);
+    expect(ratio(0, 5)).toBe(0);
+  });
+
+  it('returns null for a zero denominator', () => {
+    expect(ratio(1, 0)).toBeNull();
+  });
+});
+
+describe('addToConfusionMatrix', () => {
+  it('counts articles by expected and predicted category', () => {
+    expect(matrixOf([
+      ['electronics', 'electronics'],
+      ['electronics', 'electronics'],
+      ['electronics', 'home'],
+      ['home', null]
+    ])).toEqual({
+      electronics: { electronics: 2, home: 1 },
+      home: { [NO_PREDICTION]: 1 }
+    });
+  });
+});
+
+describe('computeCategoryMetrics', () => {
+  const matrix = matrixOf([
+    ['electronics', 'electronics'],
+    ['electronics', 'electronics'],
+    ['electronics', 'electronics'],
+    ['electronics', 'home'],
+    ['home', 'home'],
+    ['home', 'electronics'],
+    ['home', null],
+    ['toys', 'electronics']
+  ]);
+  const categories = computeCategoryMetrics(matrix);
+
+  it('computes precision, recall and F1 per category', () => {
+    expect(categories.electronics).toEqual({
+      support: 4,
+      predicted: 5,
+      truePositives: 3,
+      precision: 0.6,
+      recall: 0.75,
+      f1: 0.667
+    });
+    expect(categories.home).toEqual({
+      support: 3,
+      predicted: 2,
+      truePositives: 1,
+      precision: 0.5,
+      recall: 0.333,
+      f1: 0.4
+    });
+  });
+
+  it('gives an expected but never predicted category no precision and no F1', () => {
+    expect(categories.toys).toEqual({ support: 1, predicted: 0, truePositives: 0, precision: null, recall: 0, f1: null });
+  });
+
+  it('lists predicted-only categories without recall and leaves out missing predictions', () => {
+    const metrics = computeCategoryMetrics(matrixOf([['home', 'fashion'], ['home', null]]));
+
+    expect(Object.keys(metrics)).toEqual(['fashion', 'home']);
+    expect(metrics.fashion).toMatchObject({ support: 0, predicted: 1, precision: 0, recall: null, f1: null });
+    expect(metrics.home).toMatchObject({ support: 2, precision: null, recall: 0 });
+  });
+});
+
+describe('computeMacroF1', () => {
+  it('averages the F1 of the expected categories, counting missing F1 as 0', () => {
+    const categories = computeCategoryMetrics(matrixOf([
+      ['electronics', 'electronics'],
+      ['home', 'home'],
+      ['home', 'electronics'],
+      ['toys', 'fashion']
+    ]));
+
+    // electronics 0.667, home 0.667, toys 0; fashion is not expected
+    expect(computeMacroF1(categories)).toBe(0.445);
+  });
+
+  it('returns null when no category is expected', () => {
+    expect(computeMacroF1({})).toBeNull();
+  });
+});
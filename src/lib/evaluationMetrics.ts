@@ -0,0 +1,96 @@
+/**
+ * Precision and recall of one top-level category
+ */
+export interface CategoryMetrics {
+  /** Articles expected in the category */
+  support: number;
+  /** Articles predicted in the category */
+  predicted: number;
+  truePositives: number;
+  /** Null when nothing was predicted in the category */
+  precision: number | null;
+  /** Null when no article is expected in the category */
+  recall: number | null;
+  f1: number | null;
+}
+
+/**
+ * Number of articles by expected category slug, then by predicted category slug
+ */
+export type ConfusionMatrix = Record<string, Record<string, number>>;
+
+// Etykieta macierzy pomyłek dla artykułów bez przewidzianej kategorii
+const NO_PREDICTION = '(none)';
+
+/**
+ * Round a ratio for the report
+ * @param numerator - Numerator
+ * @param denominator - Denominator
+ * @returns Ratio with 3 decimals or null if the denominator is 0
+ */
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? Math.round(numerator / denominator * 1000) / 1000 : null;
+}
+
+/**
+ * Count an article in the confusion matrix
+ * @param matrix - Confusion matrix (updated in place)
+ * @param expected - Expected category slug
+ * @param predicted - Predicted category slug or null if nothing was predicted
+ */
+function addToConfusionMatrix(matrix: ConfusionMatrix, expected: string, predicted: string | null): void {
+  const row = matrix[expected] || (matrix[expected] = {});
+  const label = predicted ?? NO_PREDICTION;
+  row[label] = (row[label] || 0) + 1;
+}
+
+/**
+ * Compute precision, recall and F1 of every category in a confusion matrix
+ * @param matrix - Confusion matrix
+ * @returns Metrics by category slug, sorted by slug (articles without a prediction only lower the recall)
+ */
+function computeCategoryMetrics(matrix: ConfusionMatrix): Record<string, CategoryMetrics> {
+  const labels = new Set<string>(Object.keys(matrix));
+  Object.values(matrix).forEach(row => Object.keys(row).forEach(label => labels.add(label)));
+  labels.delete(NO_PREDICTION);
+
+  const categories: Record<string, CategoryMetrics> = {};
+  for (const label of Array.from(labels).sort()) {
+    const support = Object.values(matrix[label] || {}).reduce((sum, count) => sum + count, 0);
+    const predicted = Object.values(matrix).reduce((sum, row) => sum + (row[label] || 0), 0);
+    const truePositives = matrix[label]?.[label] || 0;
+    const precision = ratio(truePositives, predicted);
+    const recall = ratio(truePositives, support);
+    categories[label] = {
+      support,
+      predicted,
+      truePositives,
+      precision,
+      recall,
+      f1: precision !== null && recall !== null ? (precision + recall > 0 ? Math.round(2 * precision * recall / (precision + recall) * 1000) / 1000 : 0) : null
+    };
+  }
+
+  return categories;
+}
+
+/**
+ * Average the F1 of the expected categories (a category expected but never predicted counts as 0)
+ * @param categories - Metrics by category slug
+ * @returns Macro F1 or null if no category is expected
+ */
+function computeMacroF1(categories: Record<string, CategoryMetrics>): number | null {
+  const f1Scores = Object.values(categories)
+    .filter(metrics => metrics.support > 0)
+    .map(metrics => metrics.f1 ?? 0);
+
+  return ratio(f1Scores.reduce((sum, f1) => sum + f1, 0), f1Scores.length);
+}
+
+export {
+  NO_PREDICTION,
+  ratio,
+  addToConfusionMatrix,
+  computeCategoryMetrics,
+  computeMacroF1
+};
@@ -0,0 +1,139 @@
+import config from '../config';
+import { SelectorProfile, ProfileField } from './selectorProfiles';
+
+/**
+ * Statistics of a single field across all cards of a page
+ */
+export interface FieldStats {
+  /** Number of cards where the field was empty */
+  empty: number;
+  /** Share of cards where the field was empty (0-1) */
+  emptyRatio: number;
+}
+
+/**
+ * Report describing how well the selectors matched a scraped page
+ */
+export interface ExtractionReport {
+  /** Source of the page (URL or archive id) */
+  source: string;
+  /** When the report was created (ISO string) */
+  createdAt: string;
+  /** Selector profile used */
+  profile: string;
+  /** Selector profile version */
+  profileVersion: number;
+  /** Whether the listing container was found */
+  containerFound: boolean;
+  /** Number of cards found in the container */
+  cardsFound: number;
+  /** Number of articles successfully extracted */
+  articlesExtracted: number;
+  /** Per-field empty counters */
+  fields: Record<string, FieldStats>;
+  /** Human readable problems detected on the page */
+  warnings: string[];
+  /** Whether the page looks like Pepper changed its layout */
+  layoutChangeSuspected: boolean;
+}
+
+// Ostatnie raporty trzymane w pamięci do podglądu przez API
+const recentReports: ExtractionReport[] = [];
+const MAX_RECENT_REPORTS = 50;
+
+/**
+ * Start an empty report for a page
+ * @param source - Source of the page (URL or archive id)
+ * @param profile - Selector profile used for extraction
+ * @returns New report
+ */
+function createExtractionReport(source: string, profile: SelectorProfile): ExtractionReport {
+  const fields: Record<string, FieldStats> = {};
+  Object.keys(profile.fields).forEach(field => {
+    fields[field] = { empty: 0, emptyRatio: 0 };
+  });
+
+  return {
+    source,
+    createdAt: new Date().toISOString(),
+    profile: profile.name,
+    profileVersion: profile.version,
+    containerFound: false,
+    cardsFound: 0,
+    articlesExtracted: 0,
+    fields,
+    warnings: [],
+    layoutChangeSuspected: false
+  };
+}
+
+/**
+ * Count the empty fields of a single extracted card
+ * @param report - Report to update
+ * @param values - Extracted field values
+ */
+function recordCardFields(report: ExtractionReport, values: Partial<Record<ProfileField, string | null>>): void {
+  Object.keys(report.fields).forEach(field => {
+    if (!values[field as ProfileField]) {
+      report.fields[field].empty++;
+    }
+  });
+}
+
+/**
+ * Compute ratios, flag fields that are empty for most cards and store the report
+ * @param report - Report to finalize
+ * @param profile - Selector profile used for extraction
+ * @param store - Whether to keep the report in the recent reports list
+ * @returns The finalized report
+ */
+function finalizeExtractionReport(report: ExtractionReport, profile: SelectorProfile, store = true): ExtractionReport {
+  const threshold = config.API.SCRAPER.SELECTORS.EMPTY_FIELD_THRESHOLD;
+  const monitored = profile.monitoredFields || (Object.keys(profile.fields) as ProfileField[]);
+
+  if (!report.containerFound) {
+    report.warnings.push('Listing container not found');
+  } else if (report.cardsFound === 0) {
+    report.warnings.push('No deal cards found within the listing container');
+  }
+
+  Object.entries(report.fields).forEach(([field, stats]) => {
+    stats.emptyRatio = report.cardsFound > 0 ? Number((stats.empty / report.cardsFound).toFixed(2)) : 0;
+
+    if (monitored.includes(field as ProfileField) && report.cardsFound > 0 && stats.emptyRatio >= threshold) {
+      report.warnings.push(`Field "${field}" is empty for ${stats.empty}/${report.cardsFound} cards`);
+    }
+  });
+
+  report.layoutChangeSuspected = report.warnings.length > 0;
+
+  if (report.layoutChangeSuspected) {
+    console.warn(`⚠️ Possible Pepper layout change on ${report.source} (profile ${report.profile} v${report.profileVersion}):`,
+      report.warnings.join('; '));
+  }
+
+  if (store) {
+    recentReports.unshift(report);
+    if (recentReports.length > MAX_RECENT_REPORTS) {
+      recentReports.length = MAX_RECENT_REPORTS;
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Get the most recent extraction reports, newest first
+ * @param limit - Maximum number of reports
+ * @returns Recent reports
+ */
+function getRecentExtractionReports(limit = MAX_RECENT_REPORTS): ExtractionReport[] {
+  return recentReports.slice(0, limit);
+}
+
+export {
+  createExtractionReport,
+  recordCardFields,
+  finalizeExtractionReport,
+  getRecentExtractionReports
+};
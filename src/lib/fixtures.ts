@@ -0,0 +1,102 @@
+import path from 'path';
+import fs from 'fs';
+import config from '../config';
+
+/**
+ * Fixture mode of the scraper
+ * - `off` - always hit the live site
+ * - `replay` - read saved HTML snapshots from the fixture directory, never touch the network
+ * - `record` - hit the live site and save every downloaded page into the fixture directory
+ */
+export type FixtureMode = 'off' | 'replay' | 'record';
+
+const MODES: FixtureMode[] = ['off', 'replay', 'record'];
+
+/**
+ * Get the configured fixture mode (unknown values disable fixtures)
+ * @returns Fixture mode
+ */
+function getFixtureMode(): FixtureMode {
+  const mode = config.API.SCRAPER.FIXTURES.MODE as FixtureMode;
+  return MODES.includes(mode) ? mode : 'off';
+}
+
+/**
+ * Get the absolute path of the fixture directory
+ * @returns Directory path
+ */
+function getFixtureDir(): string {
+  return path.resolve(__dirname, '../..', config.API.SCRAPER.FIXTURES.DIR);
+}
+
+/**
+ * Build the snapshot file name for a URL, e.g. `www.pepper.pl_page_1.html`
+ * @param url - Page URL
+ * @returns File name inside the fixture directory
+ */
+function fixtureFileName(url: string): string {
+  const parsed = new URL(url);
+  const key = `${parsed.hostname}${parsed.pathname === '/' ? '' : parsed.pathname}${parsed.search}`;
+  return `${key.replace(/[^a-zA-Z0-9.-]+/g, '_').replace(/_+$/, '')}.html`;
+}
+
+/**
+ * Read a saved snapshot for a URL
+ * @param url - Page URL
+ * @returns Saved HTML
+ */
+function readFixture(url: string): string {
+  const filePath = path.join(getFixtureDir(), fixtureFileName(url));
+
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`No fixture recorded for ${url} (expected ${filePath})`);
+  }
+
+  console.log(`Replaying ${url} from fixture ${filePath}`);
+  return fs.readFileSync(filePath, 'utf8');
+}
+
+/**
+ * Save a snapshot of a downloaded page
+ * @param url - Page URL
+ * @param html - Page HTML
+ * @returns Path of the written file or null if saving failed
+ */
+function writeFixture(url: string, html: string): string | null {
+  try {
+    const dir = getFixtureDir();
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const filePath = path.join(dir, fixtureFileName(url));
+    fs.writeFileSync(filePath, html, 'utf8');
+    console.log(`Recorded fixture for ${url} at ${filePath}`);
+    return filePath;
+  } catch (error) {
+    // Nagrywanie nie może przerwać scrapowania
+    console.error(`Error recording fixture for ${url}:`, error);
+    return null;
+  }
+}
+
+/**
+ * List recorded snapshot files
+ * @returns File names in the fixture directory
+ */
+function listFixtures(): string[] {
+  const dir = getFixtureDir();
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs.readdirSync(dir).filter(file => file.endsWith('.html')).sort();
+}
+
+export {
+  getFixtureMode,
+  getFixtureDir,
+  fixtureFileName,
+  readFixture,
+  writeFixture,
+  listFixtures
+};
@@ -0,0 +1,51 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import config from '../config';
+import { archivePage, listArchivedPages, readArchivedPage } from './htmlArchive';
+
+describe('html archive', () => {
+  const settings = config.API.SCRAPER.ARCHIVE;
+  const original = { ...settings };
+  let archiveDir: string;
+
+  beforeAll(() => {
+    archiveDir = fs.mkdtempSync(path.join(os.tmpdir(), 'html-archive-'));
+    settings.DIR = archiveDir;
+    settings.MAX_ENTRIES = 10;
+  });
+
+  afterAll(() => {
+    Object.assign(settings, original);
+    fs.rmSync(archiveDir, { recursive: true, force: true });
+  });
+
+  it('keeps pages of different sites fetched at the same moment apart', () => {
+    jest.useFakeTimers({ now: new Date('2026-10-18T10:15:00.123Z') });
+    const pepperId = archivePage('https://www.pepper.pl/?page=2', 2, '<html>pepper</html>', 'pepper');
+    const mydealzId = archivePage('https://www.mydealz.de/?page=2', 2, '<html>mydealz</html>', 'mydealz');
+    jest.useRealTimers();
+
+    expect(pepperId).toBe('pepper_20261018T101500123Z_p2');
+    expect(mydealzId).toBe('mydealz_20261018T101500123Z_p2');
+    expect(readArchivedPage(pepperId!)).toMatchObject({ site: 'pepper', pageNumber: 2, html: '<html>pepper</html>' });
+    expect(readArchivedPage(mydealzId!)).toMatchObject({ site: 'mydealz', html: '<html>mydealz</html>' });
+  });
+
+  it('lists entries archived before the id carried the site, newest first', () => {
+    fs.copyFileSync(
+      path.join(archiveDir, 'pepper_20261018T101500123Z_p2.json.gz'),
+      path.join(archiveDir, '20261019T080000000Z_p1.json.gz')
+    );
+
+    expect(listArchivedPages().map(entry => [entry.id, entry.site])).toEqual([
+      ['20261019T080000000Z_p1', null],
+      ['pepper_20261018T101500123Z_p2', 'pepper'],
+      ['mydealz_20261018T101500123Z_p2', 'mydealz']
+    ]);
+  });
+
+  it('rejects ids that are not archive entries', () => {
+    expect(readArchivedPage('../secrets')).toBeNull();
+  });
+});
@@ -0,0 +1,196 @@
+import path from 'path';
+import fs from 'fs';
+import zlib from 'zlib';
+import config from '../config';
+
+/**
+ * Metadata of an archived listing page
+ */
+export interface ArchivedPageInfo {
+  /** Archive entry identifier (file name without extension) */
+  id: string;
+  /** Site the page was scraped from (null for entries archived before the id carried the site) */
+  site: string | null;
+  /** Listing page number */
+  pageNumber: number;
+  /** When the page was downloaded (ISO string) */
+  fetchedAt: string;
+  /** Compressed size on disk in bytes */
+  sizeBytes: number;
+}
+
+/**
+ * Archived page together with its raw HTML
+ */
+export interface ArchivedPage extends Omit<ArchivedPageInfo, 'sizeBytes'> {
+  /** URL the page was downloaded from */
+  url: string;
+  /** Raw HTML of the page */
+  html: string;
+}
+
+const ARCHIVE_EXTENSION = '.json.gz';
+
+/**
+ * Get the absolute path of the archive directory
+ * @returns Directory path
+ */
+function getArchiveDir(): string {
+  return path.resolve(__dirname, '../..', config.API.SCRAPER.ARCHIVE.DIR);
+}
+
+/**
+ * Check whether raw HTML archival is enabled
+ * @returns True if pages should be archived
+ */
+function isArchiveEnabled(): boolean {
+  return config.API.SCRAPER.ARCHIVE.ENABLED;
+}
+
+/**
+ * Parse the archive entry id, e.g. `pepper_20261018T101500123Z_p2`
+ * @param id - Archive entry id
+ * @returns Site, timestamp and page number or null for foreign files
+ */
+function parseArchiveId(id: string): { site: string | null; fetchedAt: string; pageNumber: number } | null {
+  // Starsze wpisy nie mają identyfikatora serwisu na początku
+  const match = /^(?:([a-z0-9]+)_)?(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(\d{3})Z_p(\d+)$/.exec(id);
+  if (!match) {
+    return null;
+  }
+  const [, site, year, month, day, hour, minute, second, ms, page] = match;
+  return {
+    site: site || null,
+    fetchedAt: `${year}-${month}-${day}T${hour}:${minute}:${second}.${ms}Z`,
+    pageNumber: parseInt(page, 10)
+  };
+}
+
+/**
+ * Save the raw HTML of a scraped listing page (gzip-compressed)
+ * @param url - URL the page was downloaded from
+ * @param pageNumber - Listing page number
+ * @param html - Raw HTML
+ * @param site - Site identifier
+ * @returns Archive entry id or null if archiving failed
+ */
+function archivePage(url: string, pageNumber: number, html: string, site: string): string | null {
+  try {
+    const dir = getArchiveDir();
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const fetchedAt = new Date().toISOString();
+    // Serwisy scrapowane w tej samej milisekundzie nie mogą nadpisać sobie wpisów
+    const id = `${site}_${fetchedAt.replace(/[-:.]/g, '')}_p${pageNumber}`;
+    const payload = JSON.stringify({ url, site, pageNumber, fetchedAt, html });
+
+    fs.writeFileSync(path.join(dir, `${id}${ARCHIVE_EXTENSION}`), zlib.gzipSync(payload));
+
+    // Enforce retention after every write so the archive never grows unbounded
+    pruneArchive();
+
+    return id;
+  } catch (error) {
+    // Archiwizacja nie może przerwać scrapowania
+    console.error(`Error archiving page ${pageNumber}:`, error);
+    return null;
+  }
+}
+
+/**
+ * List archived pages, newest first
+ * @returns Archive entries
+ */
+function listArchivedPages(): ArchivedPageInfo[] {
+  const dir = getArchiveDir();
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  const entries: ArchivedPageInfo[] = [];
+
+  fs.readdirSync(dir)
+    .filter(file => file.endsWith(ARCHIVE_EXTENSION))
+    .forEach(file => {
+      const id = file.slice(0, -ARCHIVE_EXTENSION.length);
+      const parsed = parseArchiveId(id);
+      if (!parsed) return;
+
+      entries.push({
+        id,
+        site: parsed.site,
+        pageNumber: parsed.pageNumber,
+        fetchedAt: parsed.fetchedAt,
+        sizeBytes: fs.statSync(path.join(dir, file)).size
+      });
+    });
+
+  return entries.sort((a, b) => b.fetchedAt.localeCompare(a.fetchedAt) || b.id.localeCompare(a.id));
+}
+
+/**
+ * Read an archived page
+ * @param id - Archive entry id
+ * @returns Archived page or null if not found
+ */
+function readArchivedPage(id: string): ArchivedPage | null {
+  // Id trafia do ścieżki pliku, więc przyjmujemy tylko poprawny format
+  const parsed = parseArchiveId(id);
+  if (!parsed) {
+    return null;
+  }
+
+  const filePath = path.join(getArchiveDir(), `${id}${ARCHIVE_EXTENSION}`);
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  const payload = JSON.parse(zlib.gunzipSync(fs.readFileSync(filePath)).toString('utf8'));
+  return {
+    id,
+    site: parsed.site,
+    url: payload.url,
+    pageNumber: payload.pageNumber,
+    fetchedAt: payload.fetchedAt,
+    html: payload.html
+  };
+}
+
+/**
+ * Remove archive entries exceeding the retention limits (max entries and max age)
+ * @returns Number of removed entries
+ */
+function pruneArchive(): number {
+  const { MAX_ENTRIES, MAX_AGE_DAYS } = config.API.SCRAPER.ARCHIVE;
+  const dir = getArchiveDir();
+  const cutoff = Date.now() - MAX_AGE_DAYS * 24 * 3600 * 1000;
+  let removed = 0;
+
+  listArchivedPages().forEach((entry, index) => {
+    if (index >= MAX_ENTRIES || new Date(entry.fetchedAt).getTime() < cutoff) {
+      try {
+        fs.unlinkSync(path.join(dir, `${entry.id}${ARCHIVE_EXTENSION}`));
+        removed++;
+      } catch (error) {
+        console.error(`Error removing archived page ${entry.id}:`, error);
+      }
+    }
+  });
+
+  if (removed > 0) {
+    console.log(`Pruned ${removed} archived HTML pages`);
+  }
+
+  return removed;
+}
+
+export {
+  getArchiveDir,
+  isArchiveEnabled,
+  archivePage,
+  listArchivedPages,
+  readArchivedPage,
+  pruneArchive
+};
@@ -0,0 +1,105 @@
+import {
+  normalizeText,
+  stemPolish,
+  stemEnglish,
+  prepareKeywordText,
+  getPreparedKeyword,
+  matchesKeyword,
+  getKeywordDictionary
+} from './keywordMatching';
+
+describe('normalizeText', () => {
+  it('lowercases, folds Polish diacritics and replaces punctuation with spaces', () => {
+    expect(normalizeText('Słuchawki Sony WH-1000XM5, żółte!')).toBe('sluchawki sony wh 1000xm5 zolte');
+    expect(normalizeText('ŁÓDŹ')).toBe('lodz');
+  });
+});
+
+describe('stemPolish', () => {
+  it.each([
+    ['odkurzacza', 'odkurzacz'],
+    ['odkurzaczem', 'odkurzacz'],
+    ['odkurzaczy', 'odkurzacz'],
+    ['smartfonow', 'smartfon'],
+    ['sluchawki', 'sluchawk']
+  ])('reduces %s to %s', (word, stem) => {
+    expect(stemPolish(word)).toBe(stem);
+  });
+
+  it('keeps short words', () => {
+    expect(stemPolish('sok')).toBe('sok');
+    expect(stemPolish('tvy')).toBe('tvy');
+  });
+});
+
+describe('stemEnglish', () => {
+  it('reduces plurals to the singular form', () => {
+    expect(stemEnglish('headphones')).toBe('headphone');
+    expect(stemEnglish('batteries')).toBe('battery');
+  });
+
+  it('keeps short words and words ending in ss, us or is', () => {
+    expect(stemEnglish('gas')).toBe('gas');
+    expect(stemEnglish('glass')).toBe('glass');
+    expect(stemEnglish('campus')).toBe('campus');
+  });
+});
+
+describe('prepareKeywordText', () => {
+  it('stems the words in locales with a stemmer', () => {
+    expect(prepareKeywordText('Tanie Odkurzacze!', 'pl')).toEqual({
+      locale: 'pl',
+      normalized: 'tanie odkurzacze',
+      words: ['tan', 'odkurzacz']
+    });
+  });
+
+  it('keeps the words in locales without a stemmer', () => {
+    expect(prepareKeywordText('Kostenlose Kopfhörer', 'de').words).toEqual(['kostenlose', 'kopfhorer']);
+  });
+});
+
+describe('getPreparedKeyword', () => {
+  it('prepares a keyword once per locale', () => {
+    expect(getPreparedKeyword('karta graficzna', 'pl')).toBe(getPreparedKeyword('karta graficzna', 'pl'));
+    expect(getPreparedKeyword('karta graficzna', 'en')).not.toBe(getPreparedKeyword('karta graficzna', 'pl'));
+  });
+});
+
+describe('matchesKeyword', () => {
+  it('matches inflected Polish words with and without diacritics', () => {
+    const text = prepareKeywordText('Zestaw odkurzacza ze słuchawkami', 'pl');
+
+    expect(matchesKeyword(text, 'odkurzacz')).toBe(true);
+    expect(matchesKeyword(text, 'słuchawki')).toBe(true);
+    expect(matchesKeyword(text, 'sluchawki')).toBe(true);
+  });
+
+  it('matches phrases only as a sequence of whole words', () => {
+    const text = prepareKeywordText('Karta graficzna RTX 4070 i płyta główna', 'pl');
+
+    expect(matchesKeyword(text, 'karta graficzna')).toBe(true);
+    expect(matchesKeyword(text, 'płyta główna')).toBe(true);
+    expect(matchesKeyword(text, 'graficzna karta')).toBe(false);
+  });
+
+  it('does not match a keyword inside a longer word', () => {
+    expect(matchesKeyword(prepareKeywordText('Wysoki regał', 'pl'), 'sok')).toBe(false);
+    expect(matchesKeyword(prepareKeywordText('Gift card', 'en'), 'car')).toBe(false);
+    expect(matchesKeyword(prepareKeywordText('Wireless headphones', 'en'), 'headphone')).toBe(true);
+  });
+
+  it('never matches an empty keyword', () => {
+    expect(matchesKeyword(prepareKeywordText('LEGO', 'pl'), ' - ')).toBe(false);
+  });
+});
+
+describe('getKeywordDictionary', () => {
+  it('reads the keywords of a locale by category slug', () => {
+    expect(getKeywordDictionary('pl').electronics).toContain('smartfon');
+  });
+
+  it('returns no keywords for a locale without a dictionary', () => {
+    expect(getKeywordDictionary('xx')).toEqual({});
+  });
+});
@@ -0,0 +1,180 @@
+import path from 'path';
+import fs from 'fs';
+import config from '../config';
+
+/**
+ * Contents of a keyword dictionary file (config/keywords/<locale>.json)
+ */
+interface KeywordDictionaryFile {
+  version: number;
+  locale: string;
+  /** Keywords by category slug, added to the keywords of the taxonomy */
+  keywords: Record<string, string[]>;
+}
+
+/**
+ * Article text prepared for keyword matching
+ */
+export interface KeywordText {
+  /** Locale of the text (site locale) */
+  locale: string;
+  /** Lowercase text without diacritics and punctuation */
+  normalized: string;
+  /** Words of the normalized text, reduced to stems if the locale has a stemmer */
+  words: string[];
+}
+
+// Polskie końcówki fleksyjne (po usunięciu znaków diakrytycznych), najdłuższe najpierw
+const POLISH_SUFFIXES = [
+  'owiami', 'ami', 'ach', 'ego', 'emu', 'ich', 'ych', 'imi', 'ymi', 'owi', 'iem', 'iej', 'owa', 'owe', 'owy', 'owych',
+  'om', 'ow', 'em', 'ej', 'ie', 'ia', 'iu', 'ii', 'im', 'ym',
+  'a', 'e', 'i', 'o', 'u', 'y'
+].sort((a, b) => b.length - a.length);
+const MIN_STEM_LENGTH = 3;
+
+const STEMMERS: Record<string, (word: string) => string> = {
+  pl: stemPolish,
+  en: stemEnglish
+};
+
+const dictionaries = new Map<string, Record<string, string[]>>();
+const preparedKeywords = new Map<string, KeywordText>();
+
+/**
+ * Lowercase a text, fold diacritics ("Słuchawki" -> "sluchawki") and replace punctuation with spaces
+ * @param text - Text to normalize
+ * @returns Normalized text
+ */
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/ł/g, 'l')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Reduce a normalized Polish word to its stem by removing the longest inflectional ending
+ * ("odkurzacza", "odkurzaczem", "odkurzaczy" -> "odkurzacz"; "smartfonow" -> "smartfon")
+ * @param word - Normalized word
+ * @returns Stem (the word itself if it is too short)
+ */
+function stemPolish(word: string): string {
+  for (const suffix of POLISH_SUFFIXES) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= MIN_STEM_LENGTH) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+/**
+ * Reduce a normalized English word to its singular form ("headphones" -> "headphone", "batteries" -> "battery")
+ * @param word - Normalized word
+ * @returns Stem (the word itself if it is too short)
+ */
+function stemEnglish(word: string): string {
+  if (word.length <= MIN_STEM_LENGTH) {
+    return word;
+  }
+  if (word.endsWith('ies')) {
+    return `${word.slice(0, -3)}y`;
+  }
+  if (word.endsWith('s') && !/(ss|us|is)$/.test(word)) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+/**
+ * Prepare a text for keyword matching in a locale
+ * @param text - Article text or keyword
+ * @param locale - Site locale, e.g. `pl`
+ * @returns Normalized text with its words (stems)
+ */
+function prepareKeywordText(text: string, locale: string): KeywordText {
+  const normalized = normalizeText(text);
+  const stemmer = STEMMERS[locale];
+  const words = normalized.split(' ').filter(Boolean);
+  return {
+    locale,
+    normalized,
+    words: stemmer ? words.map(stemmer) : words
+  };
+}
+
+/**
+ * Prepare a keyword for matching in a locale (prepared once per locale)
+ * @param keyword - Keyword
+ * @param locale - Site locale
+ * @returns Prepared keyword
+ */
+function getPreparedKeyword(keyword: string, locale: string): KeywordText {
+  const cacheKey = `${locale}:${keyword}`;
+  let prepared = preparedKeywords.get(cacheKey);
+  if (!prepared) {
+    prepared = prepareKeywordText(keyword, locale);
+    preparedKeywords.set(cacheKey, prepared);
+  }
+  return prepared;
+}
+
+/**
+ * Check whether a keyword appears in a text as a sequence of whole words, compared by stem in locales
+ * with a stemmer ("odkurzacz" matches "Odkurzacza", "sok" does not match "wysoki", "car" does not match "card")
+ * @param text - Prepared article text
+ * @param keyword - Keyword or phrase
+ * @returns True if the keyword matches
+ */
+function matchesKeyword(text: KeywordText, keyword: string): boolean {
+  const { words } = getPreparedKeyword(keyword, text.locale);
+  if (words.length === 0) {
+    return false;
+  }
+
+  for (let i = 0; i + words.length <= text.words.length; i++) {
+    if (words.every((word, offset) => text.words[i + offset] === word)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Get the keyword dictionary of a locale (read from disk once; empty if the locale has no file)
+ * @param locale - Site locale, e.g. `pl`
+ * @returns Keywords by category slug
+ */
+function getKeywordDictionary(locale: string): Record<string, string[]> {
+  const cached = dictionaries.get(locale);
+  if (cached) {
+    return cached;
+  }
+
+  let keywords: Record<string, string[]> = {};
+  const filePath = path.resolve(__dirname, '../..', config.API.CATEGORIZATION.KEYWORDS.DICTIONARIES_DIR, `${locale}.json`);
+  if (fs.existsSync(filePath)) {
+    try {
+      const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8')) as KeywordDictionaryFile;
+      keywords = parsed.keywords || {};
+    } catch (error) {
+      // Bez słownika zostają słowa kluczowe z taksonomii
+      console.error(`Error reading keyword dictionary ${filePath}:`, error);
+    }
+  }
+
+  dictionaries.set(locale, keywords);
+  return keywords;
+}
+
+export {
+  normalizeText,
+  stemPolish,
+  stemEnglish,
+  prepareKeywordText,
+  getPreparedKeyword,
+  matchesKeyword,
+  getKeywordDictionary
+};
@@ -0,0 +1,85 @@
+import {
+  canonicalizeLink,
+  extractThreadId,
+  getArticleKey,
+  createArticleIdFromLink,
+  createLegacyArticleId,
+  decodeLegacyArticleId
+} from './links';
+
+const DEAL_LINK = 'https://www.pepper.pl/promocje/lego-technic-42115-lamborghini-sian-812345';
+
+describe('canonicalizeLink', () => {
+  it('drops the query string, fragment and trailing slash and forces https with a lowercase host', () => {
+    expect(canonicalizeLink('http://WWW.Pepper.pl/promocje/lego-technic-42115-lamborghini-sian-812345/?utm_source=x#comments'))
+      .toBe(DEAL_LINK);
+  });
+
+  it('resolves relative links against the base URL', () => {
+    expect(canonicalizeLink('/promocje/sluchawki-812400', 'https://www.pepper.pl')).toBe('https://www.pepper.pl/promocje/sluchawki-812400');
+  });
+
+  it('returns the trimmed input for invalid or non-http links', () => {
+    expect(canonicalizeLink('  not a link  ')).toBe('not a link');
+    expect(canonicalizeLink('mailto:deals@example.com')).toBe('mailto:deals@example.com');
+  });
+});
+
+describe('extractThreadId', () => {
+  it('reads the numeric thread id at the end of a deal slug', () => {
+    expect(extractThreadId(DEAL_LINK)).toBe('812345');
+  });
+
+  it('ignores links outside the Pepper-network sites', () => {
+    expect(extractThreadId('https://example.com/promocje/lego-812345')).toBeNull();
+  });
+
+  it('ignores deal links without a thread id', () => {
+    expect(extractThreadId('https://www.pepper.pl/promocje/amazon')).toBeNull();
+  });
+});
+
+describe('getArticleKey', () => {
+  it('keys Pepper threads by host and thread id, so slug changes keep the key', () => {
+    expect(getArticleKey(DEAL_LINK)).toBe('www.pepper.pl:812345');
+    expect(getArticleKey('https://www.pepper.pl/promocje/lego-42115-nowa-nazwa-812345?ref=1')).toBe('www.pepper.pl:812345');
+  });
+
+  it('keys other links by their canonical form', () => {
+    expect(getArticleKey('https://Example.com/deal/?a=1')).toBe('https://example.com/deal');
+  });
+});
+
+describe('createArticleIdFromLink', () => {
+  it('creates a 32 character hex id that is the same for every form of the link', () => {
+    const id = createArticleIdFromLink(DEAL_LINK);
+
+    expect(id).toMatch(/^[0-9a-f]{32}$/);
+    expect(createArticleIdFromLink(`${DEAL_LINK}/?utm_source=listing`)).toBe(id);
+    expect(createArticleIdFromLink('https://www.pepper.pl/promocje/812345')).toBe(id);
+  });
+
+  it('creates different ids for different deals', () => {
+    expect(createArticleIdFromLink(DEAL_LINK)).not.toBe(createArticleIdFromLink('https://www.pepper.pl/promocje/sluchawki-812400'));
+  });
+});
+
+describe('legacy article ids', () => {
+  it('encodes the link exactly as given', () => {
+    const link = `${DEAL_LINK}?utm_source=listing`;
+
+    expect(createLegacyArticleId(link)).toBe(Buffer.from(link).toString('base64'));
+    expect(createLegacyArticleId(link)).not.toBe(createLegacyArticleId(DEAL_LINK));
+  });
+
+  it('decodes a legacy id back to its link', () => {
+    expect(decodeLegacyArticleId(createLegacyArticleId(DEAL_LINK))).toBe(DEAL_LINK);
+  });
+
+  it('rejects hashed ids, other Base64 values and empty ids', () => {
+    expect(decodeLegacyArticleId(createArticleIdFromLink(DEAL_LINK))).toBeNull();
+    expect(decodeLegacyArticleId(Buffer.from('www.pepper.pl:812345').toString('base64'))).toBeNull();
+    expect(decodeLegacyArticleId('abc')).toBeNull();
+    expect(decodeLegacyArticleId('')).toBeNull();
+  });
+});
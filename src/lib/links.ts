@@ -0,0 +1,113 @@
+import { createHash } from 'crypto';
+import { listSites } from './sites';
+
+// Length of the hex article id (128 bits of SHA-256)
+const ARTICLE_ID_LENGTH = 32;
+
+// Numeric thread id at the end of a deal slug, e.g. `/promocje/lego-technic-42115-812345`
+const THREAD_ID_PATTERN = /(?:^|-)(\d{4,})$/;
+
+/**
+ * Normalize an article link: https, lowercase host, no query string, fragment or trailing slash
+ * @param link - Raw link (relative links are resolved against the base URL)
+ * @param baseUrl - Base URL for relative links
+ * @returns Canonical link, or the trimmed input if it is not a valid URL
+ */
+function canonicalizeLink(link: string, baseUrl?: string): string {
+  const trimmed = (link || '').trim();
+
+  let parsed: URL;
+  try {
+    parsed = new URL(trimmed, baseUrl);
+  } catch {
+    return trimmed;
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return trimmed;
+  }
+
+  const pathname = parsed.pathname.replace(/\/+$/, '');
+  return `https://${parsed.host.toLowerCase()}${pathname}`;
+}
+
+/**
+ * Check whether a host belongs to one of the Pepper-network sites
+ * @param host - Host name
+ * @returns True for a known site
+ */
+function isSiteHost(host: string): boolean {
+  return listSites().some(site => new URL(site.baseUrl).host.toLowerCase() === host);
+}
+
+/**
+ * Extract the numeric thread id from a Pepper-network deal link
+ * @param link - Deal link
+ * @returns Thread id or null for other links
+ */
+function extractThreadId(link: string): string | null {
+  try {
+    const parsed = new URL(canonicalizeLink(link));
+    if (!isSiteHost(parsed.host)) {
+      return null;
+    }
+    const lastSegment = parsed.pathname.split('/').pop() || '';
+    return THREAD_ID_PATTERN.exec(lastSegment)?.[1] || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the key identifying a deal: `host:threadId` for Pepper-network threads (stable across slug
+ * changes), otherwise the canonical link
+ * @param link - Article link
+ * @returns Identity key
+ */
+function getArticleKey(link: string): string {
+  const canonical = canonicalizeLink(link);
+  const threadId = extractThreadId(canonical);
+  return threadId ? `${new URL(canonical).host}:${threadId}` : canonical;
+}
+
+/**
+ * Create the article_id stored in categorized_articles (truncated SHA-256 of the identity key)
+ * @param link - Article link
+ * @returns Fixed-length article identifier
+ */
+function createArticleIdFromLink(link: string): string {
+  return createHash('sha256').update(getArticleKey(link)).digest('hex').slice(0, ARTICLE_ID_LENGTH);
+}
+
+/**
+ * Create the Base64 article id used before the hashed ids, kept in legacy_article_id for lookups by old ids.
+ * Old ids were built from the link exactly as scraped or sent by the client, so the link is not canonicalized
+ * @param link - Original article link
+ * @returns Legacy article identifier
+ */
+function createLegacyArticleId(link: string): string {
+  return Buffer.from(link).toString('base64');
+}
+
+/**
+ * Read the link back from a legacy Base64 article id
+ * @param id - Article identifier
+ * @returns Encoded http(s) link or null if the id is not a legacy id of a link
+ */
+function decodeLegacyArticleId(id: string): string | null {
+  if (!id || !/^[A-Za-z0-9+/]+={0,2}$/.test(id) || id.length % 4 !== 0) {
+    return null;
+  }
+
+  const decoded = Buffer.from(id, 'base64').toString('utf8');
+  return /^https?:\/\/\S+$/i.test(decoded) ? decoded : null;
+}
+
+export {
+  canonicalizeLink,
+  extractThreadId,
+  getArticleKey,
+  createArticleIdFromLink,
+  createLegacyArticleId,
+  decodeLegacyArticleId
+};
@@ -0,0 +1,59 @@
+import { SiteDefinition } from './sites';
+import { HOME_TARGET, parseListingTarget, formatListingTarget, buildTargetUrl } from './listingTargets';
+
+const SITE: SiteDefinition = {
+  id: 'pepper',
+  name: 'Pepper.pl',
+  baseUrl: 'https://www.pepper.pl/',
+  locale: 'pl',
+  paths: { search: '/search', group: '/grupa', merchant: '/promocje' }
+};
+
+describe('parseListingTarget', () => {
+  it('reads the homepage target', () => {
+    expect(parseListingTarget('home')).toBe(HOME_TARGET);
+    expect(parseListingTarget(' home: ignored')).toBe(HOME_TARGET);
+  });
+
+  it.each([
+    ['search:gpu', { type: 'search', value: 'gpu' }],
+    ['group: lego ', { type: 'group', value: 'lego' }],
+    ['merchant:amazon', { type: 'merchant', value: 'amazon' }],
+    ['search:rtx 4070: ti', { type: 'search', value: 'rtx 4070: ti' }]
+  ])('reads %s', (text, target) => {
+    expect(parseListingTarget(text)).toEqual(target);
+  });
+
+  it('rejects unknown target types', () => {
+    expect(() => parseListingTarget('category:lego')).toThrow('Unknown listing target');
+  });
+
+  it('requires a value for search, group and merchant targets', () => {
+    expect(() => parseListingTarget('search:')).toThrow('requires a value');
+    expect(() => parseListingTarget('group')).toThrow('requires a value');
+  });
+});
+
+describe('formatListingTarget', () => {
+  it('writes targets the way parseListingTarget reads them', () => {
+    for (const text of ['home', 'search:gpu', 'group:lego', 'merchant:amazon']) {
+      expect(formatListingTarget(parseListingTarget(text))).toBe(text);
+    }
+  });
+});
+
+describe('buildTargetUrl', () => {
+  it('builds the homepage listing URL', () => {
+    expect(buildTargetUrl(SITE, HOME_TARGET, 2)).toBe('https://www.pepper.pl?page=2');
+  });
+
+  it('builds search URLs with an encoded keyword', () => {
+    expect(buildTargetUrl(SITE, { type: 'search', value: 'rtx 4070&ti' }, 1))
+      .toBe('https://www.pepper.pl/search?q=rtx%204070%26ti&page=1');
+  });
+
+  it('uses the localized group and merchant paths of the site', () => {
+    expect(buildTargetUrl(SITE, { type: 'group', value: 'lego' }, 3)).toBe('https://www.pepper.pl/grupa/lego?page=3');
+    expect(buildTargetUrl(SITE, { type: 'merchant', value: 'amazon' }, 1)).toBe('https://www.pepper.pl/promocje/amazon?page=1');
+  });
+});
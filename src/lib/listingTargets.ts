@@ -0,0 +1,87 @@
+import { SiteDefinition } from './sites';
+
+/**
+ * Kind of listing the scraper can walk through page by page
+ */
+export type ListingTargetType = 'home' | 'search' | 'group' | 'merchant';
+
+/**
+ * Listing to scrape: the homepage, search results for a keyword, a category group or a merchant page
+ */
+export interface ListingTarget {
+  /** Kind of listing */
+  type: ListingTargetType;
+  /** Search keyword, group slug or merchant slug (not used for the homepage) */
+  value?: string;
+}
+
+const TARGET_TYPES: ListingTargetType[] = ['home', 'search', 'group', 'merchant'];
+
+/**
+ * Homepage listing target
+ */
+const HOME_TARGET: ListingTarget = { type: 'home' };
+
+/**
+ * Parse a target written as `home`, `search:gpu`, `group:lego` or `merchant:amazon`
+ * @param text - Target text
+ * @returns Listing target
+ */
+function parseListingTarget(text: string): ListingTarget {
+  const separatorIndex = text.indexOf(':');
+  const type = (separatorIndex === -1 ? text : text.slice(0, separatorIndex)).trim() as ListingTargetType;
+  const value = separatorIndex === -1 ? '' : text.slice(separatorIndex + 1).trim();
+
+  if (!TARGET_TYPES.includes(type)) {
+    throw new Error(`Unknown listing target "${text}" (expected home, search:<keyword>, group:<slug> or merchant:<slug>)`);
+  }
+
+  if (type === 'home') {
+    return HOME_TARGET;
+  }
+
+  if (!value) {
+    throw new Error(`Listing target "${text}" requires a value`);
+  }
+
+  return { type, value };
+}
+
+/**
+ * Format a target the way parseListingTarget reads it
+ * @param target - Listing target
+ * @returns Target text, e.g. `search:gpu`
+ */
+function formatListingTarget(target: ListingTarget): string {
+  return target.type === 'home' ? 'home' : `${target.type}:${target.value}`;
+}
+
+/**
+ * Build the URL of a listing page of a target
+ * @param site - Site to build the URL for
+ * @param target - Listing target
+ * @param pageNumber - Page number
+ * @returns Listing page URL
+ */
+function buildTargetUrl(site: SiteDefinition, target: ListingTarget, pageNumber: number): string {
+  const baseUrl = site.baseUrl.replace(/\/+$/, '');
+  const value = encodeURIComponent(target.value || '');
+
+  switch (target.type) {
+    case 'search':
+      return `${baseUrl}${site.paths.search}?q=${value}&page=${pageNumber}`;
+    case 'group':
+      return `${baseUrl}${site.paths.group}/${value}?page=${pageNumber}`;
+    case 'merchant':
+      return `${baseUrl}${site.paths.merchant}/${value}?page=${pageNumber}`;
+    default:
+      return `${baseUrl}?page=${pageNumber}`;
+  }
+}
+
+export {
+  HOME_TARGET,
+  parseListingTarget,
+  formatListingTarget,
+  buildTargetUrl
+};
@@ -0,0 +1,91 @@
+import config from '../config';
+import { createMockProvider, getLlmProvider, setLlmProvider, isLlmConfigured } from './llmProviders';
+
+const CATEGORIES = 'Electronics, Home & Household, Kids & Toys';
+
+describe('createMockProvider', () => {
+  const provider = createMockProvider();
+
+  it('needs no API key', () => {
+    expect(provider.name).toBe('mock');
+    expect(provider.isConfigured()).toBe(true);
+  });
+
+  it('answers a single product prompt with ranked categories from the prompt', async () => {
+    const prompt = `Pick the categories of the product from these categories:\n${CATEGORIES}\nTitle: LEGO Technic 42115`;
+    const answer = JSON.parse(await provider.complete({ prompt }));
+
+    expect(answer[0]).toEqual({ category: expect.any(String), confidence: 0.9 });
+    for (const { category } of answer) {
+      expect(CATEGORIES.split(', ')).toContain(category);
+    }
+  });
+
+  it('gives the same product the same answer every time', async () => {
+    const prompt = `Categories:\n${CATEGORIES}\nTitle: Słuchawki Sony WH-1000XM5`;
+
+    await expect(provider.complete({ prompt })).resolves.toBe(await provider.complete({ prompt }));
+  });
+
+  it('answers a product list with the categories of every product by id', async () => {
+    const products = [{ id: 'a', title: 'LEGO Technic 42115' }, { id: 'b', title: 'Odkurzacz Dyson V15' }];
+    const prompt = `Available categories:\n${CATEGORIES}\nProducts:\n${JSON.stringify(products)}`;
+    const answer = JSON.parse(await provider.complete({ prompt }));
+
+    expect(answer.map((item: { id: string }) => item.id)).toEqual(['a', 'b']);
+    expect(answer[0].categories[0].confidence).toBe(0.9);
+  });
+
+  it('answers other prompts with a fixed text', async () => {
+    await expect(provider.complete({ prompt: 'Summarize this deal' })).resolves.toBe('mock completion');
+  });
+
+  it('uses a custom answer and trims it', async () => {
+    const respond = jest.fn(() => '  [{"category": "Electronics", "confidence": 1}]\n');
+    const custom = createMockProvider(respond);
+
+    await expect(custom.complete({ prompt: 'x', temperature: 0 })).resolves.toBe('[{"category": "Electronics", "confidence": 1}]');
+    expect(respond).toHaveBeenCalledWith({ prompt: 'x', temperature: 0 });
+  });
+});
+
+describe('active provider', () => {
+  const originalProvider = config.SERVICES.LLM.PROVIDER;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    config.SERVICES.LLM.PROVIDER = originalProvider;
+    setLlmProvider(null);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('uses the provider set with setLlmProvider', () => {
+    const provider = { ...createMockProvider(), name: 'test', isConfigured: () => false };
+    setLlmProvider(provider);
+
+    expect(getLlmProvider()).toBe(provider);
+    expect(isLlmConfigured()).toBe(false);
+  });
+
+  it('creates the provider selected with LLM_PROVIDER once', () => {
+    config.SERVICES.LLM.PROVIDER = 'mock';
+
+    expect(getLlmProvider().name).toBe('mock');
+    expect(getLlmProvider()).toBe(getLlmProvider());
+    expect(isLlmConfigured()).toBe(true);
+  });
+
+  it('treats an unknown provider as not configured', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    config.SERVICES.LLM.PROVIDER = 'unknown';
+
+    expect(() => getLlmProvider()).toThrow('Unknown LLM provider');
+    expect(isLlmConfigured()).toBe(false);
+  });
+});
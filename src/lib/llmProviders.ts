@@ -0,0 +1,245 @@
+import { OpenAI } from 'openai';
+import crypto from 'crypto';
+import config from '../config';
+
+/**
+ * Single chat completion request
+ */
+export interface LlmCompletionRequest {
+  /** User prompt */
+  prompt: string;
+  /** System message */
+  systemMessage?: string;
+  /** Model to use (provider default if omitted) */
+  model?: string;
+  /** Controls randomness (0-1), lower is more deterministic */
+  temperature?: number;
+  /** Maximum tokens to generate */
+  max_tokens?: number;
+}
+
+/**
+ * Language model backend used for AI categorization
+ */
+export interface LlmProvider {
+  /** Provider name, part of the completion cache key */
+  name: string;
+  /** Whether the provider can be called (API key or endpoint configured) */
+  isConfigured(): boolean;
+  /**
+   * Generate a completion
+   * @param request - Completion request
+   * @returns Trimmed completion text
+   */
+  complete(request: LlmCompletionRequest): Promise<string>;
+}
+
+/**
+ * Create a provider talking to an OpenAI-compatible chat completions API
+ * @param name - Provider name
+ * @param defaultModel - Model used when the request does not name one
+ * @param createClient - Creates the API client (null when the provider is not configured)
+ * @returns Provider
+ */
+function createChatProvider(name: string, defaultModel: string, createClient: () => OpenAI | null): LlmProvider {
+  let client: OpenAI | null = null;
+
+  return {
+    name,
+    isConfigured: () => {
+      client = client || createClient();
+      return !!client;
+    },
+    async complete(request: LlmCompletionRequest): Promise<string> {
+      client = client || createClient();
+      if (!client) {
+        throw new Error(`LLM provider "${name}" is not configured`);
+      }
+
+      const response = await client.chat.completions.create({
+        model: request.model || defaultModel,
+        messages: [
+          ...(request.systemMessage ? [{ role: 'system' as const, content: request.systemMessage }] : []),
+          { role: 'user' as const, content: request.prompt }
+        ],
+        temperature: request.temperature ?? 0.3,
+        max_tokens: request.max_tokens ?? 200,
+        frequency_penalty: 0.2 // Redukcja powtórzeń
+      });
+
+      const content = response.choices[0]?.message?.content?.trim();
+      if (!content) {
+        throw new Error(`No completion content returned from ${name}`);
+      }
+
+      return content;
+    }
+  };
+}
+
+/**
+ * Create the OpenAI provider (configured with OPENAI_API_KEY)
+ * @returns Provider
+ */
+function createOpenAIProvider(): LlmProvider {
+  const openaiConfig = config.SERVICES.OPENAI as { API_KEY: string; ORGANIZATION?: string; MODEL?: string } | undefined;
+
+  return createChatProvider('openai', openaiConfig?.MODEL || 'gpt-3.5-turbo', () => openaiConfig?.API_KEY
+    ? new OpenAI({
+      apiKey: openaiConfig.API_KEY,
+      organization: openaiConfig.ORGANIZATION,
+      maxRetries: 3, // Automatyczne ponowne próby w przypadku błędów API
+      timeout: 30000
+    })
+    : null);
+}
+
+/**
+ * Create the provider of a local OpenAI-compatible endpoint (Ollama, llama.cpp server, vLLM...)
+ * @returns Provider
+ */
+function createLocalProvider(): LlmProvider {
+  const local = config.SERVICES.LLM.LOCAL;
+
+  return createChatProvider('local', local.MODEL, () => local.BASE_URL
+    ? new OpenAI({
+      apiKey: local.API_KEY,
+      baseURL: local.BASE_URL,
+      maxRetries: 1,
+      timeout: local.TIMEOUT
+    })
+    : null);
+}
+
+/**
+ * Pick an item by the hash of a text, so the same text always gets the same answer
+ * @param text - Text to hash
+ * @param items - Items to choose from
+ * @returns Chosen item
+ */
+function pickByHash<T>(text: string, items: T[]): T {
+  const hash = parseInt(crypto.createHash('md5').update(text).digest('hex').slice(0, 8), 16);
+  return items[hash % items.length];
+}
+
+/**
+ * Ranked categories the mock provider gives a product: a primary category and, when the hash picks a
+ * different one, a less confident secondary category
+ * @param text - Product title
+ * @param categories - Categories from the prompt
+ * @returns `{ category, confidence }` objects, best first
+ */
+function mockCategoryScores(text: string, categories: string[]): Array<{ category: string; confidence: number }> {
+  const primary = pickByHash(text, categories);
+  const secondary = pickByHash(`${text}#2`, categories);
+
+  return [
+    { category: primary, confidence: 0.9 },
+    ...(secondary !== primary ? [{ category: secondary, confidence: 0.5 }] : [])
+  ];
+}
+
+/**
+ * Default answer of the mock provider: understands the categorization prompts (a line listing the categories
+ * after "categories:", optionally followed by a JSON array of products) and answers them deterministically
+ * @param request - Completion request
+ * @returns JSON array of ranked categories (per product for the product list) or a fixed text for other prompts
+ */
+function answerMockRequest(request: LlmCompletionRequest): string {
+  const lines = request.prompt.split('\n').map(line => line.trim());
+  const listIndex = lines.findIndex(line => /categories:$/i.test(line));
+  const categories = listIndex === -1 ? [] : (lines[listIndex + 1] || '').split(',').map(c => c.trim()).filter(Boolean);
+
+  if (categories.length === 0) {
+    return 'mock completion';
+  }
+
+  for (const line of lines) {
+    if (!line.startsWith('[')) continue;
+    try {
+      const products = JSON.parse(line) as Array<{ id: string; title?: string }>;
+      return JSON.stringify(products.map(product => ({
+        id: product.id,
+        categories: mockCategoryScores(product.title || product.id, categories)
+      })));
+    } catch {
+      // Not the product list, keep looking
+    }
+  }
+
+  // Single product prompts name the product in a "Title:" line, hashed like the titles in the JSON list
+  const titleLine = lines.find(line => line.startsWith('Title:'));
+  return JSON.stringify(mockCategoryScores(titleLine ? titleLine.slice('Title:'.length).trim() : request.prompt, categories));
+}
+
+/**
+ * Create a deterministic provider that needs no network or API key (for tests and local development)
+ * @param respond - Produces the answer (default: answers the categorization prompts)
+ * @returns Provider
+ */
+function createMockProvider(respond: (request: LlmCompletionRequest) => string = answerMockRequest): LlmProvider {
+  return {
+    name: 'mock',
+    isConfigured: () => true,
+    complete: async request => respond(request).trim()
+  };
+}
+
+let activeProvider: LlmProvider | null = null;
+
+/**
+ * Get the provider selected with LLM_PROVIDER (created once)
+ * @returns Active provider
+ */
+function getLlmProvider(): LlmProvider {
+  if (activeProvider) {
+    return activeProvider;
+  }
+
+  switch (config.SERVICES.LLM.PROVIDER) {
+    case 'openai':
+      activeProvider = createOpenAIProvider();
+      break;
+    case 'local':
+      activeProvider = createLocalProvider();
+      break;
+    case 'mock':
+      activeProvider = createMockProvider();
+      break;
+    default:
+      throw new Error(`Unknown LLM provider "${config.SERVICES.LLM.PROVIDER}" (expected openai, local or mock)`);
+  }
+
+  console.log(`Using LLM provider: ${activeProvider.name}`);
+  return activeProvider;
+}
+
+/**
+ * Replace the active provider (e.g. with a mock in tests); null restores the configured one
+ * @param provider - Provider to use
+ */
+function setLlmProvider(provider: LlmProvider | null): void {
+  activeProvider = provider;
+}
+
+/**
+ * Check whether AI categorization can run with the active provider
+ * @returns True if the provider is configured
+ */
+function isLlmConfigured(): boolean {
+  try {
+    return getLlmProvider().isConfigured();
+  } catch (error) {
+    console.error('Error selecting LLM provider:', error);
+    return false;
+  }
+}
+
+export {
+  createOpenAIProvider,
+  createLocalProvider,
+  createMockProvider,
+  getLlmProvider,
+  setLlmProvider,
+  isLlmConfigured
+};
@@ -0,0 +1,45 @@
+import { normalizeMerchant, parseMerchantFilter, listKnownMerchants } from './merchants';
+
+describe('normalizeMerchant', () => {
+  it.each([
+    ['Amazon.pl', 'amazon', 'Amazon'],
+    ['https://www.amazon.de/dp/B0123', 'amazon', 'Amazon'],
+    ['mediaexpert.pl', 'media-expert', 'Media Expert'],
+    ['  Media   Expert ', 'media-expert', 'Media Expert'],
+    ['RTV EURO AGD', 'rtv-euro-agd', 'RTV Euro AGD'],
+    ['Allegro Smart!', 'allegro', 'Allegro']
+  ])('maps %s to a known merchant', (raw, id, name) => {
+    expect(normalizeMerchant(raw)).toEqual({ id, name, known: true });
+  });
+
+  it('creates a slug for merchants missing from the merchants file', () => {
+    expect(normalizeMerchant('Sklep Rowerowy Łódź')).toEqual({ id: 'sklep-rowerowy-lodz', name: 'Sklep Rowerowy Łódź', known: false });
+  });
+
+  it('returns null for empty names', () => {
+    expect(normalizeMerchant('')).toBeNull();
+    expect(normalizeMerchant('   ')).toBeNull();
+    expect(normalizeMerchant(null)).toBeNull();
+    expect(normalizeMerchant(undefined)).toBeNull();
+  });
+});
+
+describe('parseMerchantFilter', () => {
+  it('resolves ids, names and domains and drops duplicates', () => {
+    expect(parseMerchantFilter('allegro,Media Expert, mediaexpert.pl,,amazon.co.uk')).toEqual(['allegro', 'media-expert', 'amazon']);
+  });
+
+  it('returns no merchants for an empty filter', () => {
+    expect(parseMerchantFilter(undefined)).toEqual([]);
+    expect(parseMerchantFilter('')).toEqual([]);
+  });
+});
+
+describe('listKnownMerchants', () => {
+  it('lists the merchants from the merchants file', () => {
+    const merchants = listKnownMerchants();
+
+    expect(merchants.length).toBeGreaterThan(0);
+    expect(merchants).toContainEqual(expect.objectContaining({ id: 'x-kom', name: 'x-kom' }));
+  });
+});
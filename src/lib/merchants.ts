@@ -0,0 +1,157 @@
+import path from 'path';
+import fs from 'fs';
+import config from '../config';
+
+/**
+ * Canonical merchant from the merchants file
+ */
+export interface KnownMerchant {
+  /** Merchant identifier stored in merchant_id */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Spellings and domains used for the merchant on the deal sites */
+  aliases: string[];
+}
+
+/**
+ * Merchant of a deal after normalization
+ */
+export interface MerchantInfo {
+  /** Merchant identifier (canonical id or slug of an unknown merchant) */
+  id: string;
+  /** Display name (canonical name or the cleaned up scraped name) */
+  name: string;
+  /** Whether the merchant is in the merchants file */
+  known: boolean;
+}
+
+/**
+ * Contents of the merchants file
+ */
+interface MerchantsFile {
+  version: number;
+  merchants: KnownMerchant[];
+}
+
+// Domain suffixes dropped from merchant names like "allegro.pl" or "argos.co.uk"
+const DOMAIN_SUFFIX_PATTERN = /(\.(com|net|org|pl|de|fr|co|uk|eu|shop|store))+$/;
+
+let merchantIndex: Map<string, KnownMerchant> | null = null;
+let knownMerchants: KnownMerchant[] = [];
+
+/**
+ * Reduce a merchant name to the part that tells merchants apart: lowercase ASCII without protocol,
+ * `www.`, path and domain suffix
+ * @param value - Merchant name or domain
+ * @returns Cleaned up name
+ */
+function stripMerchantName(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/ł/g, 'l')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/^https?:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/\/.*$/, '')
+    .replace(DOMAIN_SUFFIX_PATTERN, '');
+}
+
+/**
+ * Build the lookup key of a merchant name ("Media Expert", "mediaexpert.pl" -> "mediaexpert")
+ * @param value - Merchant name, alias or domain
+ * @returns Lookup key
+ */
+function toMerchantKey(value: string): string {
+  return stripMerchantName(value).replace(/[^a-z0-9]+/g, '');
+}
+
+/**
+ * Build the identifier of a merchant missing from the merchants file
+ * @param value - Merchant name
+ * @returns Slug, e.g. `sklep-rowerowy`
+ */
+function toMerchantSlug(value: string): string {
+  return stripMerchantName(value).replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Load the merchants file and index the ids, names and aliases (read from disk once)
+ * @returns Lookup key -> merchant
+ */
+function loadMerchantIndex(): Map<string, KnownMerchant> {
+  if (merchantIndex) {
+    return merchantIndex;
+  }
+
+  const filePath = path.resolve(__dirname, '../..', config.API.MERCHANTS.FILE);
+  merchantIndex = new Map();
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8')) as MerchantsFile;
+    knownMerchants = parsed.merchants || [];
+  } catch (error) {
+    // Bez pliku sklepów nazwy są tylko porządkowane, nie łączone z aliasami
+    console.error(`Error reading merchants file ${filePath}:`, error);
+    knownMerchants = [];
+  }
+
+  for (const merchant of knownMerchants) {
+    for (const value of [merchant.id, merchant.name, ...(merchant.aliases || [])]) {
+      merchantIndex.set(toMerchantKey(value), merchant);
+    }
+  }
+
+  return merchantIndex;
+}
+
+/**
+ * Map a scraped merchant name to its canonical merchant
+ * @param raw - Merchant name as shown on the deal site
+ * @returns Normalized merchant or null for an empty name
+ */
+function normalizeMerchant(raw: string | null | undefined): MerchantInfo | null {
+  const name = (raw || '').replace(/\s+/g, ' ').trim();
+  const key = toMerchantKey(name);
+  if (!key) {
+    return null;
+  }
+
+  const known = loadMerchantIndex().get(key);
+  if (known) {
+    return { id: known.id, name: known.name, known: true };
+  }
+
+  return { id: toMerchantSlug(name), name, known: false };
+}
+
+/**
+ * Resolve merchant filter values (ids, names or domains) to merchant identifiers
+ * @param values - Comma separated merchants, e.g. `allegro,Media Expert`
+ * @returns Unique merchant identifiers
+ */
+function parseMerchantFilter(values: string | undefined): string[] {
+  const ids = (values || '')
+    .split(',')
+    .map(value => normalizeMerchant(value)?.id)
+    .filter((id): id is string => !!id);
+
+  return Array.from(new Set(ids));
+}
+
+/**
+ * List the merchants from the merchants file
+ * @returns Canonical merchants
+ */
+function listKnownMerchants(): KnownMerchant[] {
+  loadMerchantIndex();
+  return knownMerchants;
+}
+
+export {
+  normalizeMerchant,
+  parseMerchantFilter,
+  listKnownMerchants
+};
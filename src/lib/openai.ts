@@ -1,10 +1,10 @@
-import { OpenAI } from 'openai';
+import { getLlmProvider, isLlmConfigured } from './llmProviders';
 
 /**
- * Options for generating a completion with OpenAI
+ * Options for generating a completion with the configured LLM provider
  */
 export interface CompletionOptions {
-  /** The model to use (e.g. "gpt-3.5-turbo", "gpt-4") */
+  /** The model to use (e.g. "gpt-3.5-turbo", "llama3.1"; provider default if empty) */
   model: string;
   /** Controls randomness (0-1), lower is more deterministic */
   temperature?: number;
@@ -14,55 +14,36 @@ export interface CompletionOptions {
   systemMessage?: string;
 }
 
-// Check if API key exists
-const apiKey = process.env.OPENAI_API_KEY;
-
-// Initialize OpenAI client
-const openai = apiKey 
-  ? new OpenAI({ apiKey })
-  : null;
-
-// Whether OpenAI is configured
-const isConfigured = !!apiKey;
+// Whether the configured LLM provider can be called
+const isConfigured = isLlmConfigured();
 
 /**
- * Generate a completion using OpenAI
- * @param prompt - The prompt to send to OpenAI
+ * Generate a completion with the configured LLM provider (OpenAI, local endpoint or mock)
+ * @param prompt - The prompt to send
  * @param options - Configuration options for the completion
  * @returns The generated completion text
  */
 async function generateCompletion(prompt: string, options: CompletionOptions): Promise<string> {
-  if (!isConfigured || !openai) {
-    throw new Error('OpenAI is not configured');
+  const provider = getLlmProvider();
+  if (!provider.isConfigured()) {
+    throw new Error(`LLM provider "${provider.name}" is not configured`);
   }
 
   try {
-    const response = await openai.chat.completions.create({
-      model: options.model || 'gpt-3.5-turbo',
-      messages: [
-        ...(options.systemMessage ? [{ role: 'system' as const, content: options.systemMessage }] : []),
-        { role: 'user' as const, content: prompt }
-      ],
+    return await provider.complete({
+      prompt,
+      systemMessage: options.systemMessage,
+      model: options.model || undefined,
       temperature: options.temperature !== undefined ? options.temperature : 0.7,
-      max_tokens: options.max_tokens,
+      max_tokens: options.max_tokens
     });
-
-    // Extract the completion text from the response
-    const completionText = response.choices[0]?.message?.content?.trim();
-    
-    if (!completionText) {
-      throw new Error('No completion returned from OpenAI');
-    }
-    
-    return completionText;
   } catch (error) {
-    console.error('Error generating completion with OpenAI:', error);
+    console.error(`Error generating completion with ${provider.name}:`, error);
     throw new Error(`Failed to generate completion: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
 export {
-  openai,
   isConfigured,
   generateCompletion
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,52 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import axios from 'axios';
+import config from '../config';
+import { withPage } from './browserPool';
+import { fetchHtmlWithHttp, fetchLivePage, getFetchErrorStatus } from './pageFetchers';
+
+jest.mock('axios');
+jest.mock('./browserPool', () => ({ withPage: jest.fn() }));
+const mockedGet = axios.get as jest.MockedFunction<typeof axios.get>;
+
+describe('failed downloads', () => {
+  const politeness = config.API.SCRAPER.POLITENESS;
+  const original = { politeness: { ...politeness }, strategy: config.API.SCRAPER.STRATEGY };
+  let stateDir: string;
+
+  beforeAll(() => {
+    stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'page-fetchers-'));
+    politeness.STATE_FILE = path.join(stateDir, 'state.json');
+    politeness.RESPECT_ROBOTS = false;
+    politeness.MIN_DELAY_MS = 0;
+    politeness.JITTER_MS = 0;
+    config.API.SCRAPER.STRATEGY = 'http';
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    Object.assign(politeness, original.politeness);
+    config.API.SCRAPER.STRATEGY = original.strategy;
+    fs.rmSync(stateDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('keeps the HTTP status of the response', async () => {
+    mockedGet.mockResolvedValueOnce({ status: 410, data: '', headers: {} });
+
+    const error = await fetchHtmlWithHttp('https://www.pepper.pl/promocje/usunieta-800001').catch(caught => caught);
+    expect(getFetchErrorStatus(error)).toBe(410);
+  });
+
+  it('does not render a deleted page in the browser', async () => {
+    mockedGet.mockResolvedValueOnce({ status: 404, data: '', headers: {} });
+
+    await expect(fetchLivePage('https://www.pepper.pl/promocje/usunieta-800002', 'body')).rejects.toMatchObject({ status: 404 });
+    expect(withPage).not.toHaveBeenCalled();
+  });
+
+  it('has no status for errors without a response', () => {
+    expect(getFetchErrorStatus(new Error('timeout'))).toBeNull();
+  });
+});
@@ -0,0 +1,203 @@
+import axios from 'axios';
+import { load } from 'cheerio';
+import { withPage } from './browserPool';
+import { getFixtureMode, readFixture, writeFixture } from './fixtures';
+import { acquireRequestSlot, recordResponseStatus } from './politeness';
+import config from '../config';
+import { SCRAPER_HEADERS } from '../constants';
+
+/**
+ * Strategy used to download listing pages
+ * - `puppeteer` - always render the page in the pooled headless browser
+ * - `http` - plain HTTP request, Puppeteer only when the response lacks the required content
+ * - `http-only` - plain HTTP request without any browser fallback (no Chromium needed)
+ */
+export type ScraperStrategy = 'puppeteer' | 'http' | 'http-only';
+
+/**
+ * Result of downloading a single page
+ */
+export interface FetchedPage {
+  /** Raw HTML of the page */
+  html: string;
+  /** Method that actually produced the HTML */
+  fetchedWith: 'http' | 'puppeteer' | 'fixture';
+}
+
+/**
+ * Download error with the HTTP status of the response, if one came back
+ */
+export interface PageFetchError extends Error {
+  status?: number;
+}
+
+const STRATEGIES: ScraperStrategy[] = ['puppeteer', 'http', 'http-only'];
+// Statusy usuniętej strony: przeglądarka nie zwróci nic innego, więc nie ma po co jej uruchamiać
+const MISSING_PAGE_STATUSES = [404, 410];
+
+/**
+ * Create the error of a failed download
+ * @param status - HTTP status of the response (none when no response came back)
+ * @returns Error carrying the status
+ */
+function createFetchError(status?: number): PageFetchError {
+  const error: PageFetchError = new Error(`Error fetching URL: ${status ?? 'No response'}`);
+  error.status = status;
+  return error;
+}
+
+/**
+ * Read the HTTP status of a failed download
+ * @param error - Thrown error
+ * @returns HTTP status or null if the download failed without a response
+ */
+function getFetchErrorStatus(error: unknown): number | null {
+  return (error as PageFetchError)?.status ?? null;
+}
+
+/**
+ * Get the configured scraper strategy (falls back to `http` for unknown values)
+ * @returns Scraper strategy
+ */
+function getScraperStrategy(): ScraperStrategy {
+  const strategy = config.API.SCRAPER.STRATEGY as ScraperStrategy;
+  return STRATEGIES.includes(strategy) ? strategy : 'http';
+}
+
+/**
+ * Check whether the HTML contains the element required for parsing
+ * @param html - Page HTML
+ * @param requiredSelector - Selector that must be present
+ * @returns True if the selector matches at least one element
+ */
+function hasRequiredContent(html: string, requiredSelector: string): boolean {
+  return load(html)(requiredSelector).length > 0;
+}
+
+/**
+ * Download a page using a plain HTTP request
+ * @param url - URL to download
+ * @returns Page HTML
+ */
+async function fetchHtmlWithHttp(url: string): Promise<string> {
+  await acquireRequestSlot(url);
+  console.log(`Fetching ${url} over plain HTTP...`);
+
+  const response = await axios.get<string>(url, {
+    timeout: config.API.SCRAPER.TIMEOUT,
+    responseType: 'text',
+    maxRedirects: 5,
+    headers: {
+      'User-Agent': SCRAPER_HEADERS.USER_AGENT,
+      ...SCRAPER_HEADERS.EXTRA
+    },
+    validateStatus: () => true
+  });
+
+  recordResponseStatus(url, response.status, response.headers['retry-after']);
+
+  if (response.status < 200 || response.status >= 300) {
+    throw createFetchError(response.status);
+  }
+
+  return typeof response.data === 'string' ? response.data : String(response.data);
+}
+
+/**
+ * Download a page by rendering it in the pooled headless browser
+ * @param url - URL to download
+ * @param requiredSelector - Selector to wait for before reading the content
+ * @returns Page HTML
+ */
+async function fetchHtmlWithPuppeteer(url: string, requiredSelector: string): Promise<string> {
+  const timeout = config.API.SCRAPER.TIMEOUT;
+  await acquireRequestSlot(url);
+
+  // Borrow a page from the shared browser pool instead of launching a new browser
+  return withPage(async page => {
+    page.setDefaultNavigationTimeout(timeout);
+
+    console.log(`Navigating to ${url}...`);
+    const response = await page.goto(url, { waitUntil: 'networkidle0', timeout });
+    if (response) {
+      recordResponseStatus(url, response.status(), response.headers()['retry-after']);
+    }
+    if (!response || !response.ok()) {
+      console.error(`Error response: ${response ? response.status() : 'No response'}`);
+      throw createFetchError(response?.status());
+    }
+
+    // Wait for the content to load
+    await page.waitForSelector(requiredSelector, { timeout });
+
+    console.log('Content loaded, extracting data...');
+    return page.content();
+  });
+}
+
+/**
+ * Download a page from the live site with the configured strategy
+ * @param url - URL to download
+ * @param requiredSelector - Selector the HTML must contain to be usable
+ * @returns Downloaded page
+ */
+async function fetchLivePage(url: string, requiredSelector: string): Promise<FetchedPage> {
+  const strategy = getScraperStrategy();
+
+  if (strategy === 'puppeteer') {
+    return { html: await fetchHtmlWithPuppeteer(url, requiredSelector), fetchedWith: 'puppeteer' };
+  }
+
+  try {
+    const html = await fetchHtmlWithHttp(url);
+    if (hasRequiredContent(html, requiredSelector)) {
+      return { html, fetchedWith: 'http' };
+    }
+
+    if (strategy === 'http-only') {
+      throw new Error(`HTTP response for ${url} does not contain ${requiredSelector}`);
+    }
+    console.warn(`HTTP response for ${url} lacks ${requiredSelector}, falling back to Puppeteer`);
+  } catch (error) {
+    const status = getFetchErrorStatus(error);
+    if (strategy === 'http-only' || (status !== null && MISSING_PAGE_STATUSES.includes(status))) {
+      throw error;
+    }
+    console.warn(`Plain HTTP fetch of ${url} failed, falling back to Puppeteer:`,
+      error instanceof Error ? error.message : error);
+  }
+
+  return { html: await fetchHtmlWithPuppeteer(url, requiredSelector), fetchedWith: 'puppeteer' };
+}
+
+/**
+ * Download a page, honouring the fixture mode (replay from disk or record live pages)
+ * @param url - URL to download
+ * @param requiredSelector - Selector the HTML must contain to be usable
+ * @returns Downloaded page
+ */
+async function fetchPage(url: string, requiredSelector: string): Promise<FetchedPage> {
+  const fixtureMode = getFixtureMode();
+
+  if (fixtureMode === 'replay') {
+    return { html: readFixture(url), fetchedWith: 'fixture' };
+  }
+
+  const page = await fetchLivePage(url, requiredSelector);
+
+  if (fixtureMode === 'record') {
+    writeFixture(url, page.html);
+  }
+
+  return page;
+}
+
+export {
+  MISSING_PAGE_STATUSES,
+  getFetchErrorStatus,
+  getScraperStrategy,
+  fetchHtmlWithHttp,
+  fetchHtmlWithPuppeteer,
+  fetchLivePage,
+  fetchPage
+};
@@ -0,0 +1,157 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import axios from 'axios';
+import config from '../config';
+import {
+  parseRobotsTxt,
+  isAllowedByRobots,
+  acquireRequestSlot,
+  recordResponseStatus,
+  getHostBackoff
+} from './politeness';
+
+jest.mock('axios');
+const mockedGet = axios.get as jest.MockedFunction<typeof axios.get>;
+
+const ROBOTS_TXT = `
+# Pepper robots.txt
+User-agent: *
+Disallow: /profile
+Disallow: /search?*sort=
+Allow: /profile/public
+Crawl-delay: 2
+
+User-agent: PepperBot
+User-agent: OtherBot
+Disallow: /admin
+Disallow: /*.pdf$
+Crawl-delay: 5
+`;
+
+describe('parseRobotsTxt', () => {
+  it('keeps the rules of the group naming the scraper', () => {
+    const policy = parseRobotsTxt(ROBOTS_TXT, 'PepperBot/1.0');
+
+    expect(policy.rules).toEqual([
+      { allow: false, pattern: '/admin' },
+      { allow: false, pattern: '/*.pdf$' }
+    ]);
+    expect(policy.crawlDelayMs).toBe(5000);
+  });
+
+  it('falls back to the * group for other user agents', () => {
+    const policy = parseRobotsTxt(ROBOTS_TXT, 'SomeCrawler');
+
+    expect(policy.rules).toHaveLength(3);
+    expect(policy.crawlDelayMs).toBe(2000);
+  });
+
+  it('has no rules for an empty robots.txt', () => {
+    expect(parseRobotsTxt('', 'PepperBot')).toMatchObject({ rules: [], crawlDelayMs: null });
+  });
+});
+
+describe('isAllowedByRobots', () => {
+  const originalUserAgent = config.API.SCRAPER.POLITENESS.ROBOTS_USER_AGENT;
+
+  beforeAll(() => {
+    config.API.SCRAPER.POLITENESS.ROBOTS_USER_AGENT = 'GenericBot';
+    mockedGet.mockResolvedValue({ status: 200, data: ROBOTS_TXT });
+  });
+
+  afterAll(() => {
+    config.API.SCRAPER.POLITENESS.ROBOTS_USER_AGENT = originalUserAgent;
+    mockedGet.mockReset();
+  });
+
+  it.each([
+    ['https://robots-a.example/promocje/lego-812345', true],
+    ['https://robots-a.example/profile/jan', false],
+    ['https://robots-a.example/profile/public/jan', true],
+    ['https://robots-a.example/search?q=lego&sort=hot', false],
+    ['https://robots-a.example/search?q=lego', true]
+  ])('checks %s', async (url, allowed) => {
+    await expect(isAllowedByRobots(url)).resolves.toBe(allowed);
+  });
+
+  it('downloads robots.txt once per site', () => {
+    expect(mockedGet).toHaveBeenCalledTimes(1);
+    expect(mockedGet.mock.calls[0][0]).toBe('https://robots-a.example/robots.txt');
+  });
+
+  it('assumes no restrictions when robots.txt is missing', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    mockedGet.mockResolvedValueOnce({ status: 404, data: '' });
+
+    await expect(isAllowedByRobots('https://robots-b.example/profile/jan')).resolves.toBe(true);
+  });
+});
+
+describe('back-off after throttling responses', () => {
+  const settings = config.API.SCRAPER.POLITENESS;
+  const original = { ...settings };
+  let stateDir: string;
+
+  beforeAll(() => {
+    stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'politeness-'));
+    settings.STATE_FILE = path.join(stateDir, 'state.json');
+    settings.BACKOFF_BASE_MS = 1000;
+    settings.BACKOFF_MAX_MS = 3000;
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    Object.assign(settings, original);
+    fs.rmSync(stateDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('doubles the cool-down with every consecutive 429 up to the maximum', () => {
+    const url = 'https://throttled.example/page';
+    const cooldownMs = () => Date.parse(getHostBackoff('throttled.example')!.cooldownUntil!) - Date.now();
+
+    recordResponseStatus(url, 429);
+    expect(getHostBackoff('throttled.example')).toMatchObject({ strikes: 1, lastStatus: 429 });
+    expect(cooldownMs()).toBeLessThanOrEqual(1000);
+
+    recordResponseStatus(url, 503);
+    expect(cooldownMs()).toBeGreaterThan(1000);
+
+    recordResponseStatus(url, 429);
+    recordResponseStatus(url, 429);
+    expect(getHostBackoff('throttled.example')!.strikes).toBe(4);
+    expect(cooldownMs()).toBeLessThanOrEqual(3000);
+  });
+
+  it('honours a longer Retry-After', () => {
+    recordResponseStatus('https://retry.example/page', 429, '120');
+
+    expect(Date.parse(getHostBackoff('retry.example')!.cooldownUntil!) - Date.now()).toBeGreaterThan(100000);
+  });
+
+  it('persists the state and clears it after a successful response', () => {
+    const saved = JSON.parse(fs.readFileSync(settings.STATE_FILE, 'utf8'));
+    expect(saved['retry.example'].strikes).toBe(1);
+
+    recordResponseStatus('https://retry.example/page', 200);
+    expect(getHostBackoff('retry.example')).toBeNull();
+  });
+
+  it('refuses requests to a host that is cooling down', async () => {
+    await expect(acquireRequestSlot('https://throttled.example/next')).rejects.toThrow('cooling down');
+  });
+
+  it('refuses a request that was already waiting in line when the host got throttled', async () => {
+    settings.RESPECT_ROBOTS = false;
+    settings.MIN_DELAY_MS = 200;
+    settings.JITTER_MS = 0;
+    const url = 'https://queued.example/page';
+
+    await acquireRequestSlot(url);
+    const queued = acquireRequestSlot(url);
+    recordResponseStatus(url, 429);
+
+    await expect(queued).rejects.toThrow('cooling down');
+  });
+});
@@ -0,0 +1,357 @@
+import path from 'path';
+import fs from 'fs';
+import axios from 'axios';
+import config from '../config';
+import { SCRAPER_HEADERS } from '../constants';
+
+/**
+ * Single Allow/Disallow rule from robots.txt
+ */
+interface RobotsRule {
+  /** Whether the rule allows the path */
+  allow: boolean;
+  /** Path pattern (may contain `*` and a trailing `$`) */
+  pattern: string;
+}
+
+/**
+ * Rules from robots.txt that apply to the scraper
+ */
+interface RobotsPolicy {
+  /** Allow/Disallow rules of the matching user-agent group */
+  rules: RobotsRule[];
+  /** Crawl-delay in milliseconds, if set */
+  crawlDelayMs: number | null;
+  /** When the policy was downloaded (ms since epoch) */
+  fetchedAt: number;
+}
+
+/**
+ * Back-off state of a host, persisted across scheduler runs and restarts
+ */
+export interface HostBackoffState {
+  /** Number of consecutive 429/503 responses */
+  strikes: number;
+  /** Until when no requests are sent to the host (ISO string) */
+  cooldownUntil: string | null;
+  /** Status code of the last throttling response */
+  lastStatus: number | null;
+}
+
+/**
+ * In-memory request bookkeeping of a host
+ */
+interface HostRequestLog {
+  /** Start times of the requests within the last minute */
+  recent: number[];
+  /** Start time of the previous request */
+  lastRequestAt: number;
+  /** Tail of the queue serializing requests to the host */
+  queue: Promise<void>;
+}
+
+// Status codes meaning "slow down"
+const THROTTLE_STATUSES = [429, 503];
+
+const robotsCache = new Map<string, RobotsPolicy>();
+const requestLogs = new Map<string, HostRequestLog>();
+let backoffState: Record<string, HostBackoffState> | null = null;
+
+/**
+ * Get the absolute path of the file with the persisted back-off state
+ * @returns File path
+ */
+function getStateFilePath(): string {
+  return path.resolve(__dirname, '../..', config.API.SCRAPER.POLITENESS.STATE_FILE);
+}
+
+/**
+ * Load the back-off state (read from disk once)
+ * @returns Back-off state per host
+ */
+function loadBackoffState(): Record<string, HostBackoffState> {
+  if (backoffState) {
+    return backoffState;
+  }
+
+  try {
+    const filePath = getStateFilePath();
+    backoffState = fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf8')) : {};
+  } catch (error) {
+    console.error('Error reading scraper back-off state, starting fresh:', error);
+    backoffState = {};
+  }
+
+  return backoffState as Record<string, HostBackoffState>;
+}
+
+/**
+ * Save the back-off state to disk
+ */
+function saveBackoffState(): void {
+  try {
+    const filePath = getStateFilePath();
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(loadBackoffState(), null, 2));
+  } catch (error) {
+    // Brak zapisu stanu nie może przerwać scrapowania
+    console.error('Error saving scraper back-off state:', error);
+  }
+}
+
+/**
+ * Parse robots.txt and keep the rules of the group matching our user agent (or `*`)
+ * @param text - Contents of robots.txt
+ * @param userAgent - Product token of the scraper
+ * @returns Robots policy
+ */
+function parseRobotsTxt(text: string, userAgent: string): RobotsPolicy {
+  const token = userAgent.toLowerCase();
+  const groups: Array<{ agents: string[]; rules: RobotsRule[]; crawlDelayMs: number | null }> = [];
+  let current: (typeof groups)[number] | null = null;
+  let readingAgents = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separatorIndex = line.indexOf(':');
+    if (separatorIndex === -1) continue;
+
+    const field = line.slice(0, separatorIndex).trim().toLowerCase();
+    const value = line.slice(separatorIndex + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !readingAgents) {
+        current = { agents: [], rules: [], crawlDelayMs: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      readingAgents = true;
+      continue;
+    }
+
+    readingAgents = false;
+    if (!current) continue;
+
+    if ((field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ allow: field === 'allow', pattern: value });
+    } else if (field === 'crawl-delay') {
+      const seconds = parseFloat(value);
+      current.crawlDelayMs = Number.isNaN(seconds) ? null : seconds * 1000;
+    }
+  }
+
+  const group = groups.find(candidate => candidate.agents.some(agent => agent !== '*' && token.includes(agent)))
+    || groups.find(candidate => candidate.agents.includes('*'));
+
+  return {
+    rules: group?.rules || [],
+    crawlDelayMs: group?.crawlDelayMs ?? null,
+    fetchedAt: Date.now()
+  };
+}
+
+/**
+ * Check whether a robots.txt pattern matches a path
+ * @param pattern - Rule pattern
+ * @param urlPath - Path with query string
+ * @returns True if the rule applies
+ */
+function matchesRobotsPattern(pattern: string, urlPath: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const source = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}${anchored ? '$' : ''}`).test(urlPath);
+}
+
+/**
+ * Get the robots.txt policy of a site (cached for ROBOTS_TTL_MS)
+ * @param origin - Origin of the site, e.g. https://www.pepper.pl
+ * @returns Robots policy
+ */
+async function getRobotsPolicy(origin: string): Promise<RobotsPolicy> {
+  const cached = robotsCache.get(origin);
+  if (cached && Date.now() - cached.fetchedAt < config.API.SCRAPER.POLITENESS.ROBOTS_TTL_MS) {
+    return cached;
+  }
+
+  let policy: RobotsPolicy;
+  try {
+    const response = await axios.get<string>(`${origin}/robots.txt`, {
+      timeout: config.API.SCRAPER.TIMEOUT,
+      responseType: 'text',
+      headers: { 'User-Agent': SCRAPER_HEADERS.USER_AGENT },
+      validateStatus: () => true
+    });
+
+    if (response.status >= 200 && response.status < 300) {
+      policy = parseRobotsTxt(String(response.data), config.API.SCRAPER.POLITENESS.ROBOTS_USER_AGENT);
+    } else {
+      // Missing robots.txt means no restrictions
+      console.warn(`robots.txt of ${origin} returned ${response.status}, assuming no restrictions`);
+      policy = { rules: [], crawlDelayMs: null, fetchedAt: Date.now() };
+    }
+  } catch (error) {
+    console.warn(`Could not download robots.txt of ${origin}, assuming no restrictions:`,
+      error instanceof Error ? error.message : error);
+    policy = { rules: [], crawlDelayMs: null, fetchedAt: Date.now() };
+  }
+
+  robotsCache.set(origin, policy);
+  return policy;
+}
+
+/**
+ * Check whether robots.txt allows the scraper to fetch a URL (longest matching rule wins, Allow on ties)
+ * @param url - URL to check
+ * @returns True if the URL may be fetched
+ */
+async function isAllowedByRobots(url: string): Promise<boolean> {
+  if (!config.API.SCRAPER.POLITENESS.RESPECT_ROBOTS) {
+    return true;
+  }
+
+  const parsed = new URL(url);
+  const policy = await getRobotsPolicy(parsed.origin);
+  const urlPath = `${parsed.pathname}${parsed.search}`;
+
+  let verdict: RobotsRule | null = null;
+  for (const rule of policy.rules) {
+    if (!matchesRobotsPattern(rule.pattern, urlPath)) continue;
+    if (!verdict || rule.pattern.length > verdict.pattern.length
+      || (rule.pattern.length === verdict.pattern.length && rule.allow)) {
+      verdict = rule;
+    }
+  }
+
+  return !verdict || verdict.allow;
+}
+
+/**
+ * Get the back-off state of a host
+ * @param host - Host name
+ * @returns Back-off state or null if the host was never throttled
+ */
+function getHostBackoff(host: string): HostBackoffState | null {
+  return loadBackoffState()[host] || null;
+}
+
+/**
+ * Get the back-off state of all hosts
+ * @returns Back-off state per host
+ */
+function listHostBackoffs(): Record<string, HostBackoffState> {
+  return { ...loadBackoffState() };
+}
+
+/**
+ * Fail when a host is cooling down after 429/503
+ * @param host - Host name
+ */
+function assertHostNotCoolingDown(host: string): void {
+  const backoff = getHostBackoff(host);
+  if (backoff?.cooldownUntil && Date.parse(backoff.cooldownUntil) > Date.now()) {
+    throw new Error(`Host ${host} is cooling down after HTTP ${backoff.lastStatus} until ${backoff.cooldownUntil}`);
+  }
+}
+
+/**
+ * Wait until a request to the URL fits the politeness rules, then reserve it
+ * - fails when robots.txt disallows the URL or the host is cooling down after 429/503, also when the cool-down
+ *   started while the request waited in line
+ * - serializes requests per host, keeping a minimum delay with random jitter (or the Crawl-delay)
+ * - keeps at most MAX_REQUESTS_PER_MINUTE requests per host in any 60 s window
+ * @param url - URL about to be requested
+ */
+async function acquireRequestSlot(url: string): Promise<void> {
+  const settings = config.API.SCRAPER.POLITENESS;
+  const { host, origin } = new URL(url);
+
+  assertHostNotCoolingDown(host);
+
+  if (!(await isAllowedByRobots(url))) {
+    throw new Error(`Fetching ${url} is disallowed by robots.txt`);
+  }
+
+  const crawlDelayMs = settings.RESPECT_ROBOTS ? (await getRobotsPolicy(origin)).crawlDelayMs || 0 : 0;
+
+  let log = requestLogs.get(host);
+  if (!log) {
+    log = { recent: [], lastRequestAt: 0, queue: Promise.resolve() };
+    requestLogs.set(host, log);
+  }
+  const hostLog = log;
+
+  // Requests to the same host wait in line, so parallel page fetches cannot burst
+  const turn = hostLog.queue.then(async () => {
+    const delayMs = Math.max(settings.MIN_DELAY_MS, crawlDelayMs) + Math.random() * settings.JITTER_MS;
+    let waitMs = hostLog.lastRequestAt + delayMs - Date.now();
+
+    hostLog.recent = hostLog.recent.filter(startedAt => Date.now() - startedAt < 60000);
+    if (hostLog.recent.length >= settings.MAX_REQUESTS_PER_MINUTE) {
+      waitMs = Math.max(waitMs, hostLog.recent[0] + 60000 - Date.now());
+    }
+
+    if (waitMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+    }
+
+    // An earlier request in the line may have been throttled while this one waited
+    assertHostNotCoolingDown(host);
+
+    hostLog.lastRequestAt = Date.now();
+    hostLog.recent.push(hostLog.lastRequestAt);
+  });
+
+  hostLog.queue = turn.catch(() => undefined);
+  await turn;
+}
+
+/**
+ * Record the status of a response: 429/503 start an exponential cool-down, success clears it
+ * @param url - Requested URL
+ * @param status - HTTP status code
+ * @param retryAfter - Value of the Retry-After header, if any
+ */
+function recordResponseStatus(url: string, status: number, retryAfter?: string | null): void {
+  const settings = config.API.SCRAPER.POLITENESS;
+  const { host } = new URL(url);
+  const state = loadBackoffState();
+
+  if (THROTTLE_STATUSES.includes(status)) {
+    const strikes = (state[host]?.strikes || 0) + 1;
+    let cooldownMs = Math.min(settings.BACKOFF_BASE_MS * 2 ** (strikes - 1), settings.BACKOFF_MAX_MS);
+
+    // Retry-After is either a number of seconds or an HTTP date
+    if (retryAfter) {
+      const retryAfterMs = /^\d+$/.test(retryAfter.trim())
+        ? parseInt(retryAfter, 10) * 1000
+        : Date.parse(retryAfter) - Date.now();
+      if (!Number.isNaN(retryAfterMs)) {
+        cooldownMs = Math.max(cooldownMs, retryAfterMs);
+      }
+    }
+
+    state[host] = {
+      strikes,
+      cooldownUntil: new Date(Date.now() + cooldownMs).toISOString(),
+      lastStatus: status
+    };
+    console.warn(`Host ${host} responded with ${status}, cooling down for ${Math.round(cooldownMs / 1000)}s (strike ${strikes})`);
+    saveBackoffState();
+  } else if (status >= 200 && status < 300 && state[host]) {
+    delete state[host];
+    saveBackoffState();
+  }
+}
+
+export {
+  parseRobotsTxt,
+  isAllowedByRobots,
+  acquireRequestSlot,
+  recordResponseStatus,
+  getHostBackoff,
+  listHostBackoffs
+};
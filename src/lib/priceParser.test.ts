@@ -0,0 +1,82 @@
+import { parsePrice, computeDiscountPercent, parseArticlePrices } from './priceParser';
+
+describe('parsePrice', () => {
+  it.each([
+    ['1 299,99zł', 1299.99],
+    ['1.299,99 zł', 1299.99],
+    ['1 299 zł', 1299],
+    ['49,90 PLN', 49.9],
+    ['999zł', 999]
+  ])('parses the Polish price %s', (raw, amount) => {
+    expect(parsePrice(raw, 'pl')).toEqual({ amount, currency: 'PLN', isFree: false });
+  });
+
+  it('reads English prices with a decimal point and comma thousands', () => {
+    expect(parsePrice('£1,299.99', 'en')).toEqual({ amount: 1299.99, currency: 'GBP', isFree: false });
+  });
+
+  it('takes the currency from the text before the locale default', () => {
+    expect(parsePrice('19,99 €', 'pl')).toEqual({ amount: 19.99, currency: 'EUR', isFree: false });
+  });
+
+  it.each([
+    ['Darmowa', 'pl'],
+    ['Kostenlos', 'de'],
+    ['Gratuit', 'fr'],
+    ['FREE', 'en']
+  ])('treats %s as free in the %s locale', (raw, locale) => {
+    expect(parsePrice(raw, locale)).toMatchObject({ amount: 0, isFree: true });
+  });
+
+  it('treats a zero amount as free', () => {
+    expect(parsePrice('0,00zł')).toEqual({ amount: 0, currency: 'PLN', isFree: true });
+  });
+
+  it('returns no amount for empty or numberless text', () => {
+    expect(parsePrice('')).toEqual({ amount: null, currency: null, isFree: false });
+    expect(parsePrice(null)).toEqual({ amount: null, currency: null, isFree: false });
+    expect(parsePrice('Zobacz cenę')).toEqual({ amount: null, currency: 'PLN', isFree: false });
+  });
+
+  it('falls back to the Polish rules for unknown locales', () => {
+    expect(parsePrice('1 299,99', 'xx')).toEqual({ amount: 1299.99, currency: 'PLN', isFree: false });
+  });
+});
+
+describe('computeDiscountPercent', () => {
+  it('rounds the discount to whole percent', () => {
+    expect(computeDiscountPercent(1299, 1749.99)).toBe(26);
+    expect(computeDiscountPercent(50, 100)).toBe(50);
+  });
+
+  it('returns null when the discount cannot be computed', () => {
+    expect(computeDiscountPercent(null, 100)).toBeNull();
+    expect(computeDiscountPercent(100, null)).toBeNull();
+    expect(computeDiscountPercent(100, 0)).toBeNull();
+    expect(computeDiscountPercent(120, 100)).toBeNull();
+  });
+});
+
+describe('parseArticlePrices', () => {
+  it('parses the price, shipping and original price of an article', () => {
+    expect(parseArticlePrices({ price: '1 299,00zł', shippingPrice: 'Darmowa', originalPrice: '1 749,99zł' }, 'pl')).toEqual({
+      priceAmount: 1299,
+      priceCurrency: 'PLN',
+      shippingAmount: 0,
+      freeShipping: true,
+      originalPriceAmount: 1749.99,
+      discountPercent: 26
+    });
+  });
+
+  it('leaves missing prices empty', () => {
+    expect(parseArticlePrices({ price: '49,99zł' })).toEqual({
+      priceAmount: 49.99,
+      priceCurrency: 'PLN',
+      shippingAmount: null,
+      freeShipping: false,
+      originalPriceAmount: null,
+      discountPercent: null
+    });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Locale specific rules for reading prices
+ */
+export interface PriceLocale {
+  /** Decimal separator used by the site */
+  decimalSeparator: ',' | '.';
+  /** Currency assumed when the text has no currency marker */
+  defaultCurrency: string;
+  /** Lowercase words meaning "free" (e.g. free shipping) */
+  freeWords: string[];
+}
+
+/**
+ * Result of parsing a single price string
+ */
+export interface ParsedPrice {
+  /** Numeric amount or null if no number was found */
+  amount: number | null;
+  /** ISO currency code or null if the price is empty */
+  currency: string | null;
+  /** Whether the text means "free" */
+  isFree: boolean;
+}
+
+/**
+ * Structured prices of an article stored next to the raw strings
+ */
+export interface ArticlePrices {
+  /** Numeric deal price */
+  priceAmount: number | null;
+  /** Currency of the deal price */
+  priceCurrency: string | null;
+  /** Numeric shipping price */
+  shippingAmount: number | null;
+  /** Whether shipping is free */
+  freeShipping: boolean;
+  /** Numeric price before the discount */
+  originalPriceAmount: number | null;
+  /** Discount in percent, computed from the original price */
+  discountPercent: number | null;
+}
+
+const PRICE_LOCALES: Record<string, PriceLocale> = {
+  pl: {
+    decimalSeparator: ',',
+    defaultCurrency: 'PLN',
+    freeWords: ['darmowa', 'darmowy', 'darmowe', 'za darmo', 'gratis', 'bezpłatna', 'bezpłatny', 'free']
+  },
+  de: {
+    decimalSeparator: ',',
+    defaultCurrency: 'EUR',
+    freeWords: ['kostenlos', 'versandkostenfrei', 'gratis', 'umsonst', 'free']
+  },
+  fr: {
+    decimalSeparator: ',',
+    defaultCurrency: 'EUR',
+    freeWords: ['gratuit', 'gratuite', 'offert', 'offerte', 'free']
+  },
+  en: {
+    decimalSeparator: '.',
+    defaultCurrency: 'GBP',
+    freeWords: ['free']
+  }
+};
+
+// Currency markers mapped to ISO codes
+const CURRENCY_MARKERS: Array<[RegExp, string]> = [
+  [/zł|pln/i, 'PLN'],
+  [/€|eur/i, 'EUR'],
+  [/£|gbp/i, 'GBP'],
+  [/\$|usd/i, 'USD']
+];
+
+/**
+ * Get price rules for a locale (falls back to Polish)
+ * @param locale - Locale code
+ * @returns Price rules
+ */
+function getPriceLocale(locale = 'pl'): PriceLocale {
+  return PRICE_LOCALES[locale] || PRICE_LOCALES.pl;
+}
+
+/**
+ * Parse a price string like "1 299,99zł", "1.299,99 zł", "£1,299.99" or "Darmowa"
+ * @param raw - Raw price text
+ * @param locale - Locale code of the site
+ * @returns Parsed price
+ */
+function parsePrice(raw: string | null | undefined, locale = 'pl'): ParsedPrice {
+  const rules = getPriceLocale(locale);
+  const text = (raw || '').replace(/[\u00a0\u202f]/g, ' ').trim();
+
+  if (!text) {
+    return { amount: null, currency: null, isFree: false };
+  }
+
+  const lower = text.toLowerCase();
+  const currency = CURRENCY_MARKERS.find(([marker]) => marker.test(text))?.[1] || rules.defaultCurrency;
+
+  if (rules.freeWords.some(word => lower.includes(word))) {
+    return { amount: 0, currency, isFree: true };
+  }
+
+  // First number in the text, including thousands separators
+  const match = text.match(/\d[\d\s.,']*/);
+  if (!match) {
+    return { amount: null, currency, isFree: false };
+  }
+
+  const thousandsSeparators = rules.decimalSeparator === ',' ? /[\s.']/g : /[\s,']/g;
+  let numeric = match[0].trim().replace(thousandsSeparators, '');
+  if (rules.decimalSeparator === ',') {
+    numeric = numeric.replace(',', '.');
+  }
+  numeric = numeric.replace(/[.,]+$/, '');
+
+  const amount = parseFloat(numeric);
+  if (Number.isNaN(amount)) {
+    return { amount: null, currency, isFree: false };
+  }
+
+  return { amount, currency, isFree: amount === 0 };
+}
+
+/**
+ * Compute the discount in percent
+ * @param price - Current price
+ * @param originalPrice - Price before the discount
+ * @returns Discount rounded to whole percent or null if it cannot be computed
+ */
+function computeDiscountPercent(price: number | null, originalPrice: number | null): number | null {
+  if (price === null || originalPrice === null || originalPrice <= 0 || price > originalPrice) {
+    return null;
+  }
+  return Math.round((1 - price / originalPrice) * 100);
+}
+
+/**
+ * Parse all price strings of an article
+ * @param article - Article with raw price strings
+ * @param locale - Locale code of the site
+ * @returns Structured prices
+ */
+function parseArticlePrices(
+  article: { price?: string; shippingPrice?: string; originalPrice?: string | null },
+  locale = 'pl'
+): ArticlePrices {
+  const price = parsePrice(article.price, locale);
+  const shipping = parsePrice(article.shippingPrice, locale);
+  const original = parsePrice(article.originalPrice, locale);
+
+  return {
+    priceAmount: price.amount,
+    priceCurrency: price.currency,
+    shippingAmount: shipping.amount,
+    freeShipping: shipping.isFree,
+    originalPriceAmount: original.amount,
+    discountPercent: computeDiscountPercent(price.amount, original.amount)
+  };
+}
+
+export {
+  getPriceLocale,
+  parsePrice,
+  computeDiscountPercent,
+  parseArticlePrices
+};
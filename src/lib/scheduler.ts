@@ -2,9 +2,11 @@ import cron, { ScheduledTask } from 'node-cron';
 import axios from 'axios';
 import config from '../config';
 import { EventEmitter } from 'events';
+import { parseListingTarget, formatListingTarget, ListingTarget } from './listingTargets';
 
 // Flaga lockująca, aby zapobiec równoczesnemu uruchomieniu wielu instancji zadania
 let isJobRunning = false;
+let isRevalidateRunning = false;
 
 // Zwiększamy limit słuchaczy dla modułu axios
 if (axios.defaults.httpAgent) {
@@ -22,6 +24,24 @@ if (axios.defaults.httpsAgent) {
   }
 }
 
+/**
+ * Read the listing targets of the scheduled job, skipping invalid entries
+ * @returns Listing targets to ingest
+ */
+function getScheduledTargets(): ListingTarget[] {
+  const targets: ListingTarget[] = [];
+
+  for (const text of config.SCHEDULER.FETCH_CATEGORIZE.TARGETS) {
+    try {
+      targets.push(parseListingTarget(text));
+    } catch (error) {
+      console.warn(`Skipping scheduler target: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  return targets;
+}
+
 /**
  * Schedule a cron job to fetch and categorize articles every 10 minutes
  * @returns The scheduled cron job or null if disabled
@@ -35,7 +55,10 @@ function scheduleFetchCategorizeCache(): ScheduledTask | null {
   
   // Get the cron expression from config (default: every 10 minutes)
   const cronExpression = config.FETCH_CATEGORIZE_CRON;
-  console.log(`Setting up cron job to fetch and categorize articles with schedule: ${cronExpression}`);
+  const targets = getScheduledTargets();
+  console.log(`Setting up cron job to fetch and categorize articles with schedule: ${cronExpression} (targets: ${
+    targets.map(formatListingTarget).join(', ')
+  })`);
   
   // Tworzenie zadania z uwzględnieniem parametrów konfiguracyjnych
   const cronJob = cron.schedule(cronExpression, async () => {
@@ -56,10 +79,13 @@ function scheduleFetchCategorizeCache(): ScheduledTask | null {
       
       // Pobieramy tylko 1 stronę artykułów zamiast domyślnych 3, żeby zaoszczędzić zasoby
       const pagesParam = Math.min(config.SCHEDULER_FETCH_PAGES || 1, 2); // Maksymalnie 2 strony w zadaniu cron
-      const endpoint = `/api/articles/fetch-categorize-cache?maxPages=10`;
-      const url = `${baseUrl}${endpoint}`;
-      
-      console.log(`Making request to ${url}`);
+      const enrichParam = config.SCHEDULER.FETCH_CATEGORIZE.ENRICH_DETAILS ? '&enrichDetails=true' : '';
+      // W trybie przyrostowym maxPages jest tylko górnym limitem - zatrzymujemy się na znanych okazjach
+      const incrementalParam = `&incremental=${config.SCHEDULER.FETCH_CATEGORIZE.INCREMENTAL}`;
+      // Bez listy serwisów pobieramy tylko serwis domyślny
+      const sites: Array<string | null> = config.SCHEDULER.FETCH_CATEGORIZE.SITES.length > 0
+        ? config.SCHEDULER.FETCH_CATEGORIZE.SITES
+        : [null];
       
       // Tworzymy nową instancję axios z własnymi ustawieniami agenta
       const axiosInstance = axios.create({
@@ -78,13 +104,37 @@ function scheduleFetchCategorizeCache(): ScheduledTask | null {
         }
       }
       
-      // Make the HTTP request to the endpoint, z timeoutem
-      const response = await axiosInstance.get(url);
+      // Serwisy i listy pobieramy po kolei, żeby nie obciążać przeglądarki i API kategoryzacji
+      let totalCategorized = 0;
+      for (const site of sites) {
+        for (const target of targets) {
+          const siteParam = site ? `&site=${encodeURIComponent(site)}` : '';
+          // Strona główna jak dotychczas, wyszukiwania, grupy i sklepy z osobnym limitem stron
+          const targetParam = target.type === 'home'
+            ? 'maxPages=10'
+            : `maxPages=${config.SCHEDULER.FETCH_CATEGORIZE.TARGET_PAGES}&target=${encodeURIComponent(formatListingTarget(target))}`;
+          const url = `${baseUrl}/api/articles/fetch-categorize-cache?${targetParam}${enrichParam}${incrementalParam}${siteParam}`;
+          
+          console.log(`Making request to ${url}`);
+          
+          try {
+            // Make the HTTP request to the endpoint, z timeoutem
+            const response = await axiosInstance.get(url);
+            totalCategorized += response.data.stats?.totalCategorized || 0;
+          } catch (targetError: unknown) {
+            // Błąd jednej listy nie przerywa pobierania pozostałych
+            console.error(`Error fetching ${formatListingTarget(target)} from ${site || 'default site'}:`,
+              targetError instanceof Error ? targetError.message : targetError);
+            if (axios.isAxiosError(targetError) && targetError.response) {
+              console.error('Response data:', targetError.response.data);
+              console.error('Response status:', targetError.response.status);
+            }
+          }
+        }
+      }
       
       const duration = ((Date.now() - startTime) / 1000).toFixed(2);
-      console.log(`Scheduled job completed successfully in ${duration}s. Fetched and categorized ${
-        response.data.stats?.totalCategorized || 0
-      } articles.`);
+      console.log(`Scheduled job completed in ${duration}s. Fetched and categorized ${totalCategorized} articles.`);
     } catch (error: unknown) {
       if (error instanceof Error) {
         console.error('Error in scheduled fetch-categorize-cache job:', error.message);
@@ -121,6 +171,49 @@ function scheduleFetchCategorizeCache(): ScheduledTask | null {
   return cronJob;
 }
 
+/**
+ * Schedule a cron job re-checking recently cached deals and marking expired ones
+ * @returns The scheduled cron job or null if disabled
+ */
+function scheduleDealRevalidation(): ScheduledTask | null {
+  const settings = config.SCHEDULER.REVALIDATE;
+  if (!settings.ENABLED) {
+    console.log('Deal re-validation scheduler is disabled');
+    return null;
+  }
+
+  console.log(`Setting up cron job to re-validate cached deals with schedule: ${settings.CRON_EXPRESSION}`);
+
+  return cron.schedule(settings.CRON_EXPRESSION, async () => {
+    // Pobieranie i ponowne sprawdzanie korzystają z tej samej przeglądarki, więc nie nakładamy ich na siebie
+    if (isRevalidateRunning || isJobRunning) {
+      console.log('Another scheduled job is still running. Skipping deal re-validation.');
+      return;
+    }
+
+    isRevalidateRunning = true;
+    const startTime = Date.now();
+    console.log(`[${new Date().toISOString()}] Running scheduled deal re-validation job...`);
+
+    try {
+      const baseUrl = config.SERVER_BASE_URL || `http://localhost:${config.PORT}`;
+      const url = `${baseUrl}/api/articles/revalidate?days=${settings.DAYS}&limit=${settings.LIMIT}`;
+      const response = await axios.post(url, null, { timeout: 300000 });
+
+      const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+      console.log(`Deal re-validation completed in ${duration}s. Checked ${response.data.checked}, expired ${response.data.expired}.`);
+    } catch (error: unknown) {
+      console.error('Error in scheduled deal re-validation job:', error instanceof Error ? error.message : error);
+      if (axios.isAxiosError(error) && error.response) {
+        console.error('Response data:', error.response.data);
+        console.error('Response status:', error.response.status);
+      }
+    } finally {
+      isRevalidateRunning = false;
+    }
+  });
+}
+
 /**
  * Start all scheduled tasks
  * @returns An object containing all scheduled jobs
@@ -133,6 +226,11 @@ export function startScheduler(): Record<string, ScheduledTask> {
   if (fetchCategorizeJob) {
     jobs.fetchCategorizeCache = fetchCategorizeJob;
   }
+
+  const revalidationJob = scheduleDealRevalidation();
+  if (revalidationJob) {
+    jobs.dealRevalidation = revalidationJob;
+  }
   
   if (Object.keys(jobs).length > 0) {
     console.log('Scheduler started successfully');
@@ -167,4 +265,4 @@ export function stopScheduler(jobs: Record<string, ScheduledTask>): void {
   console.log('All scheduled jobs stopped');
 }
 
-export { scheduleFetchCategorizeCache }; 
\ No newline at end of file
+export { scheduleFetchCategorizeCache, getScheduledTargets }; 
\ No newline at end of file
@@ -0,0 +1,78 @@
+import config from '../config';
+import { fixtureFileName } from './fixtures';
+import { scrapeArticlesFromPepper, scrapeArticleDetails, buildListingUrl } from './scraper';
+
+describe('scraper in fixture replay mode', () => {
+  const originalMode = config.API.SCRAPER.FIXTURES.MODE;
+
+  beforeAll(() => {
+    config.API.SCRAPER.FIXTURES.MODE = 'replay';
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    config.API.SCRAPER.FIXTURES.MODE = originalMode;
+    jest.restoreAllMocks();
+  });
+
+  it('names the listing snapshot after the page URL', () => {
+    expect(fixtureFileName(buildListingUrl(1))).toBe('www.pepper.pl_page_1.html');
+  });
+
+  it('extracts the articles of a recorded listing page', async () => {
+    const articles = await scrapeArticlesFromPepper(1, 'pepper');
+
+    expect(articles).toHaveLength(3);
+    expect(articles![0]).toMatchObject({
+      title: 'LEGO Technic 42115 Lamborghini Sián FKP 37',
+      link: 'https://www.pepper.pl/promocje/lego-technic-42115-lamborghini-sian-812345',
+      originalLink: 'https://www.pepper.pl/promocje/lego-technic-42115-lamborghini-sian-812345?utm_source=listing#comments',
+      price: '1 299,00zł',
+      priceAmount: 1299,
+      priceCurrency: 'PLN',
+      freeShipping: true,
+      image: 'https://static.pepper.pl/threads/raw/a1b2c/812345_1/re/600x600/qt/60/812345_1.jpg',
+      site: 'pepper',
+      status: 'active'
+    });
+  });
+
+  it('resolves relative links and reads the shipping price and merchant', async () => {
+    const articles = await scrapeArticlesFromPepper(1, 'pepper');
+
+    expect(articles![1]).toMatchObject({
+      link: 'https://www.pepper.pl/promocje/sluchawki-sony-wh-1000xm5-812400',
+      priceAmount: 999,
+      shippingAmount: 14.99,
+      freeShipping: false
+    });
+    expect(articles![1].merchant).toBeTruthy();
+  });
+
+  it('marks expired deals', async () => {
+    const articles = await scrapeArticlesFromPepper(1, 'pepper');
+
+    expect(articles![2].status).toBe('expired');
+  });
+
+  it('returns null when no snapshot was recorded for the page', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(scrapeArticlesFromPepper(999, 'pepper')).resolves.toBeNull();
+  });
+
+  it('extracts the details of a recorded deal page', async () => {
+    const details = await scrapeArticleDetails('https://www.pepper.pl/promocje/lego-technic-42115-lamborghini-sian-812345');
+
+    expect(details).toMatchObject({
+      temperature: 1024,
+      votes: 187,
+      author: 'klocek_fan',
+      postedAt: '2026-10-15T06:30:00.000Z',
+      voucherCode: 'LEGO10',
+      originalPrice: '1 749,99zł',
+      commentCount: 42,
+      status: 'active'
+    });
+  });
+});
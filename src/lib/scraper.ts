@@ -1,10 +1,83 @@
 import { load } from 'cheerio';
-import puppeteer from 'puppeteer';
+import { fetchPage, getFetchErrorStatus } from './pageFetchers';
+import { parseArticlePrices, ArticlePrices } from './priceParser';
+import { isArchiveEnabled, archivePage } from './htmlArchive';
+import { getSite, resolveSiteUrl, unknownSiteUrlMessage, SiteDefinition } from './sites';
+import { HOME_TARGET, buildTargetUrl, ListingTarget } from './listingTargets';
+import { canonicalizeLink } from './links';
+import { normalizeMerchant } from './merchants';
+import {
+  getActiveSelectorProfile,
+  findFirst,
+  extractField,
+  hasMarker,
+  SelectorProfile,
+  ProfileField,
+  DetailField,
+  CheerioAPI,
+  Selection
+} from './selectorProfiles';
+import { createExtractionReport, recordCardFields, finalizeExtractionReport, ExtractionReport } from './extractionReport';
+
+/**
+ * Whether a deal can still be used
+ */
+export type DealStatus = 'active' | 'expired';
+
+/**
+ * Data available only on a deal's own page
+ */
+export interface ArticleDetails {
+  /** Temperature of the deal (sum of community votes) */
+  temperature: number | null;
+  /** Number of votes, if shown separately */
+  votes: number | null;
+  /** Merchant (shop) name, normalized to the canonical merchant */
+  merchant: string | null;
+  /** Identifier of the merchant (see config/merchants.json) */
+  merchantId: string | null;
+  /** User who posted the deal */
+  author: string | null;
+  /** When the deal was posted (ISO string) */
+  postedAt: string | null;
+  /** When the deal expires (ISO string) */
+  expiresAt: string | null;
+  /** Voucher code required to get the deal */
+  voucherCode: string | null;
+  /** Price before the discount */
+  originalPrice: string | null;
+  /** Number of comments */
+  commentCount: number | null;
+  /** Whether the deal is marked as expired */
+  status: DealStatus;
+}
+
+/**
+ * Outcome of downloading a deal page
+ */
+export interface DealPageResult {
+  /** Deal details or null if the page could not be downloaded or parsed */
+  details: ArticleDetails | null;
+  /** HTTP status of a failed download (null when no response came back or the download succeeded) */
+  failedStatus: number | null;
+}
+
+/**
+ * Category assigned to a categorized article
+ */
+export interface CategoryLabel {
+  /** Top-level category */
+  category: string;
+  /** Subcategory (null when only the top-level category matched) */
+  subcategory: string | null;
+  /** Confidence between 0 and 1 */
+  confidence: number;
+}
 
 /**
  * Interface representing an article from Pepper
  */
-export interface Article {
+export interface Article extends Partial<ArticleDetails>, Partial<ArticlePrices> {
   /** Title of the article */
   title: string;
   /** Description of the article */
@@ -17,139 +90,309 @@ export interface Article {
   image: string;
   /** Link to the article */
   link: string;
+  /** Link as found on the listing card, when it differs from the canonical link (source of legacy ids) */
+  originalLink?: string;
+  /** When the deal page was last scraped (set only for enriched articles) */
+  detailsScrapedAt?: string | null;
+  /** Pepper-network site the article was scraped from */
+  site?: string;
+  /** Subcategory of a categorized article (top-level category is the grouping key) */
+  subcategory?: string | null;
+  /** Confidence of the primary category (0-1) */
+  confidence?: number | null;
+  /** Other top-level categories the article is also listed under */
+  secondaryCategories?: string[];
+  /** All assigned categories with their confidence, primary first */
+  categoryScores?: CategoryLabel[];
+  /** Whether the category was set by hand and is kept by categorization runs */
+  categoryLocked?: boolean;
+}
+
+/**
+ * Builds the URL of a listing page
+ * @param pageNumber - Page number
+ * @param site - Site to build the URL for (default site if omitted)
+ * @param target - Listing to page through (homepage if omitted)
+ * @returns Listing page URL
+ */
+function buildListingUrl(
+  pageNumber: number,
+  site: SiteDefinition = getSite(),
+  target: ListingTarget = HOME_TARGET
+): string {
+  return buildTargetUrl(site, target, pageNumber);
 }
 
 /**
- * Downloads article data from pepper.pl for a specific page
+ * Downloads article data from a Pepper-network site for a specific page
  * @param pageNumber - Page number to download
- * @returns Array of articles or null in case of error
+ * @param siteId - Site identifier (default site if omitted)
+ * @param target - Listing to scrape: homepage, search results, group or merchant page
+ * @returns Array of articles (empty if the listing has no deals) or null in case of error
  */
-async function scrapeArticlesFromPepper(pageNumber: number): Promise<Article[] | null> {
+async function scrapeArticlesFromPepper(
+  pageNumber: number,
+  siteId?: string,
+  target: ListingTarget = HOME_TARGET
+): Promise<Article[] | null> {
   try {
-    const url = `https://www.pepper.pl?page=${pageNumber}`;
-
-    // Launch puppeteer with additional args
-    const browser = await puppeteer.launch({
-      headless: true,
-      args: ['--no-sandbox', '--disable-setuid-sandbox']
-    });
-    const page = await browser.newPage();
-
-    // Set a realistic browser user agent string
-    await page.setUserAgent(
-      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/115.0.0.0 Safari/537.36'
-    );
-
-    // Set additional headers
-    await page.setExtraHTTPHeaders({
-      'Accept-Language': 'en-US,en;q=0.9',
-      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
-      'Cache-Control': 'max-age=0',
-      'Connection': 'keep-alive',
-    });
-
-    const timeout = parseInt(process.env.SCRAPING_TIMEOUT || '30000');
-    page.setDefaultNavigationTimeout(timeout);
-
-    console.log(`Navigating to ${url}...`);
-    const response = await page.goto(url, { waitUntil: 'networkidle0', timeout });
-    if (!response || !response.ok()) {
-      console.error(`Error response: ${response ? response.status() : 'No response'}`);
-      await browser.close();
-      throw new Error(`Error fetching URL: ${response ? response.status() : 'No response'}`);
+    const site = getSite(siteId);
+    const url = buildListingUrl(pageNumber, site, target);
+
+    // Download the listing with the configured strategy (plain HTTP or Puppeteer)
+    const { html: data, fetchedWith } = await fetchPage(url, getActiveSelectorProfile().container.join(', '));
+    console.log(`Page ${pageNumber} fetched with ${fetchedWith}, extracting data...`);
+
+    // Keep the raw HTML so it can be re-parsed later (replayed fixtures are already on disk)
+    if (isArchiveEnabled() && fetchedWith !== 'fixture') {
+      archivePage(url, pageNumber, data, site.id);
     }
 
-    // Wait for the content to load
-    await page.waitForSelector('#content-list', { timeout });
-    
-    console.log('Content loaded, extracting data...');
-    const data = await page.content();
-    await browser.close();
+    // Kontener bez kart to pusta lista (koniec wyników), brak kontenera to błąd strony
+    const { articles, report } = parseListingPage(data, url, true, site);
+    return report.containerFound ? articles ?? [] : null;
+  } catch (error) {
+    console.error('Failed to download elements:', error);
+    return null;
+  }
+}
+
+/**
+ * Result of parsing a listing page
+ */
+export interface ListingParseResult {
+  /** Extracted articles or null if the listing could not be found */
+  articles: Article[] | null;
+  /** Report describing how well the selectors matched */
+  report: ExtractionReport;
+}
+
+/**
+ * Extracts articles from the HTML of a listing page using the active selector profile
+ * @param html - HTML of the listing page
+ * @param source - Source of the page (URL or archive id) used in the report
+ * @param storeReport - Whether to keep the report in the recent reports list
+ * @param site - Site the page comes from (prices are parsed with its locale)
+ * @returns Articles with the extraction report
+ */
+function parseListingPage(
+  html: string,
+  source: string,
+  storeReport = true,
+  site: SiteDefinition = getSite()
+): ListingParseResult {
+  const profile = getActiveSelectorProfile();
+  const report = createExtractionReport(source, profile);
+
+  // Load the HTML using Cheerio
+  const $ = load(html);
+
+  const container = findFirst($.root(), profile.container);
 
-    // Load the HTML using Cheerio
-    const $ = load(data);
+  if (!container.length) {
+    console.error(`Target div not found using selectors: ${profile.container.join(', ')}`);
+    return { articles: null, report: finalizeExtractionReport(report, profile, storeReport) };
+  }
+  report.containerFound = true;
+
+  // Extract article data
+  const cards = findFirst(container.first(), profile.card);
+  report.cardsFound = cards.length;
 
-    const selector = 'div#content-list';
-    const container = $(selector);
+  if (!cards.length) {
+    console.error('Target articles not found within container');
+    return { articles: null, report: finalizeExtractionReport(report, profile, storeReport) };
+  }
 
-    if (!container.length) {
-      console.error(`Target div not found using selector: ${selector}`);
-      return null;
+  const elementsData: Article[] = [];
+  cards.each((_, elem) => {
+    const card = $(elem);
+    const cardBody = findFirst(card, profile.cardBody).first();
+
+    if (!cardBody.length) {
+      console.warn(`Card body (${profile.cardBody.join(', ')}) not found inside an article element`);
+      recordCardFields(report, {});
+      return;
     }
 
-    // Extract article data
-    const articles = container.find('article');
-    if (!articles.length) {
-      console.error('Target articles not found within container');
-      return null;
+    const extractedData = extractThreadCardData($, card, cardBody, profile);
+    recordCardFields(report, extractedData ?? {});
+
+    if (extractedData) {
+      // Structured prices are stored next to the raw strings, links without tracking noise
+      const link = canonicalizeLink(extractedData.link, site.baseUrl);
+      elementsData.push({
+        ...extractedData,
+        ...parseArticlePrices(extractedData, site.locale),
+        link,
+        ...(link !== extractedData.link ? { originalLink: extractedData.link } : {}),
+        site: site.id
+      });
     }
-    
-    const elementsData: Article[] = [];
-    articles.each((_, elem) => {
-      const threadListCardBody = $(elem).find('.threadListCard-body');
-      const threadListCardImage = $(elem)
-        .find('.threadListCard-image')
-        .find('img')
-        .attr('srcset')?.replace(' 2x', '');
-        
-      if (!threadListCardBody.length) {
-        console.warn('threadListCard-body not found inside an article element');
-        return;
-      }
-      
-      const htmlContent = threadListCardBody.html() ?? '';
-      if (htmlContent) {
-        const extractedData = extractThreadCardData(htmlContent);
-        if (extractedData) {
-          // Add the image property
-          elementsData.push({ ...extractedData, image: threadListCardImage ?? '' });
-        }
-      }
-    });
-
-    // Filter out null values
-    return elementsData.filter((article): article is Article => article !== null);
-  } catch (error) {
-    console.error('Failed to download elements:', error);
+  });
+
+  report.articlesExtracted = elementsData.length;
+
+  return { articles: elementsData, report: finalizeExtractionReport(report, profile, storeReport) };
+}
+
+/**
+ * Extracts articles from the HTML of a listing page
+ * @param html - HTML of the listing page
+ * @param source - Source of the page used in the extraction report
+ * @param site - Site the page comes from
+ * @returns Array of articles or null if the listing could not be found
+ */
+function parseListingHtml(html: string, source = 'html', site: SiteDefinition = getSite()): Article[] | null {
+  return parseListingPage(html, source, true, site).articles;
+}
+
+/**
+ * Extracts data from a thread card using the fallback selectors of the profile
+ * @param $ - Loaded listing document
+ * @param card - Whole card element
+ * @param cardBody - Card body element
+ * @param profile - Selector profile
+ * @returns Article data or null if extraction fails
+ */
+function extractThreadCardData(
+  $: CheerioAPI,
+  card: Selection,
+  cardBody: Selection,
+  profile: SelectorProfile
+): Article | null {
+  const cardScoped = profile.cardScopedFields || [];
+  const read = (field: ProfileField): string =>
+    extractField($, cardScoped.includes(field) ? card : cardBody, profile.fields[field] || []);
+
+  // Find the thread link
+  const link = read('link');
+  if (!link) {
+    console.error('Thread link not found');
     return null;
   }
+
+  const merchant = normalizeMerchant(read('merchant'));
+
+  return {
+    link,
+    title: read('title'),
+    price: read('price'),
+    shippingPrice: read('shippingPrice'),
+    description: read('description'),
+    // srcset contains the high resolution variant followed by its density descriptor
+    image: read('image').replace(' 2x', ''),
+    merchant: merchant?.name ?? null,
+    merchantId: merchant?.id ?? null,
+    status: hasMarker(card, profile.expiredMarkers || []) ? 'expired' : 'active'
+  };
 }
 
 /**
- * Extracts data from the HTML content of a thread card
- * @param html - HTML content
- * @returns Article data without image or null if extraction fails
+ * Parses an integer from text like "1 234°" or "-12"
+ * @param value - Text to parse
+ * @returns Parsed number or null
  */
-function extractThreadCardData(html: string): Omit<Article, 'image'> | null {
+function parseInteger(value: string): number | null {
+  const match = value.replace(/\s/g, '').match(/-?\d+/);
+  return match ? parseInt(match[0], 10) : null;
+}
+
+/**
+ * Parses a date from an ISO string or unix timestamp (seconds)
+ * @param value - Text to parse
+ * @returns ISO date string or null
+ */
+function parseDate(value: string): string | null {
+  if (!value) {
+    return null;
+  }
+  const timestamp = /^\d+$/.test(value) ? parseInt(value, 10) * 1000 : Date.parse(value);
+  return Number.isNaN(timestamp) ? null : new Date(timestamp).toISOString();
+}
+
+/**
+ * Extracts deal details from the HTML of a deal page
+ * @param html - HTML of the deal page
+ * @returns Deal details or null if the deal element could not be found
+ */
+function parseDetailHtml(html: string): ArticleDetails | null {
+  const profile = getActiveSelectorProfile();
+  if (!profile.detail) {
+    throw new Error(`Selector profile "${profile.name}" has no detail page selectors`);
+  }
+
   const $ = load(html);
+  const root = findFirst($.root(), profile.detail.container).first();
 
-  // Find the thread link element
-  const threadLinkElem = $('a.thread-link');
-  if (!threadLinkElem.length) {
-    console.error('Thread link not found');
+  if (!root.length) {
+    console.error(`Deal element not found using selectors: ${profile.detail.container.join(', ')}`);
     return null;
   }
-  const link = threadLinkElem.attr('href')?.trim() || '';
-  const title = threadLinkElem.attr('title')?.trim() || threadLinkElem.text().trim();
 
-  // Extract thread price
-  const price = $('span.thread-price').text().trim();
+  const read = (field: DetailField): string => extractField($, root, profile.detail?.fields[field] || []);
+  const merchant = normalizeMerchant(read('merchant'));
+  const expiresAt = parseDate(read('expiresAt'));
+  // A deal is expired when Pepper marks it so or its expiry date has passed
+  const expired = hasMarker(root, profile.detail.expiredMarkers || [])
+    || (expiresAt !== null && Date.parse(expiresAt) < Date.now());
+
+  return {
+    temperature: parseInteger(read('temperature')),
+    votes: parseInteger(read('votes')),
+    merchant: merchant?.name ?? null,
+    merchantId: merchant?.id ?? null,
+    author: read('author') || null,
+    postedAt: parseDate(read('postedAt')),
+    expiresAt,
+    voucherCode: read('voucherCode') || null,
+    originalPrice: read('originalPrice') || null,
+    commentCount: parseInteger(read('commentCount')),
+    status: expired ? 'expired' : 'active'
+  };
+}
+
+/**
+ * Downloads a deal page and extracts its details, keeping the HTTP status of a failed download
+ * @param link - Link to the deal
+ * @returns Deal details (null in case of error) and the status of a failed download
+ */
+async function fetchDealPage(link: string): Promise<DealPageResult> {
+  try {
+    // Relative links are resolved against the default site, other hosts are never requested
+    const resolved = resolveSiteUrl(link);
+    if (!resolved) {
+      throw new Error(unknownSiteUrlMessage(link));
+    }
+    const { url } = resolved;
+    const profile = getActiveSelectorProfile();
+    const requiredSelector = (profile.detail?.container || ['body']).join(', ');
 
-  // Extract shipping price
-  const shippingPrice = $('span.flex--inline.boxAlign-ai--all-c.color--text-TranslucentSecondary')
-    .find('span.overflow--wrap-off')
-    .text()
-    .trim();
+    const { html, fetchedWith } = await fetchPage(url, requiredSelector);
+    console.log(`Deal page ${url} fetched with ${fetchedWith}, extracting details...`);
 
-  // Extract description from userHtml content
-  const description = $('div.userHtml.userHtml-content')
-    .find('div.overflow--wrap-break')
-    .text()
-    .trim();
+    return { details: parseDetailHtml(html), failedStatus: null };
+  } catch (error) {
+    console.error(`Failed to download deal details for ${link}:`, error);
+    return { details: null, failedStatus: getFetchErrorStatus(error) };
+  }
+}
 
-  return { link, title, price, shippingPrice, description };
+/**
+ * Downloads a deal page and extracts its details
+ * @param link - Link to the deal
+ * @returns Deal details or null in case of error
+ */
+async function scrapeArticleDetails(link: string): Promise<ArticleDetails | null> {
+  return (await fetchDealPage(link)).details;
 }
 
 export {
-  scrapeArticlesFromPepper
+  scrapeArticlesFromPepper,
+  buildListingUrl,
+  parseListingPage,
+  parseListingHtml,
+  parseDetailHtml,
+  fetchDealPage,
+  scrapeArticleDetails
 }; 
\ No newline at end of file
@@ -0,0 +1,211 @@
+import path from 'path';
+import fs from 'fs';
+import { load } from 'cheerio';
+import config from '../config';
+
+// Loaded cheerio document and a selection of nodes within it
+export type CheerioAPI = ReturnType<typeof load>;
+export type Selection = ReturnType<CheerioAPI['root']>;
+
+/**
+ * Single selector for a field: plain CSS selector (text content) or selector with attribute
+ */
+export type FieldSelector = string | {
+  /** CSS selector */
+  selector: string;
+  /** Attribute to read instead of the text content */
+  attr?: string;
+};
+
+/**
+ * Fields extracted from a listing card
+ */
+export type ProfileField = 'link' | 'title' | 'price' | 'shippingPrice' | 'description' | 'image' | 'merchant';
+
+/**
+ * Fields extracted from a deal detail page
+ */
+export type DetailField =
+  | 'temperature'
+  | 'votes'
+  | 'merchant'
+  | 'author'
+  | 'postedAt'
+  | 'expiresAt'
+  | 'voucherCode'
+  | 'originalPrice'
+  | 'commentCount';
+
+/**
+ * Selector profile describing one version of the listing layout
+ */
+export interface SelectorProfile {
+  /** Profile name */
+  name: string;
+  /** Profile version, bumped whenever selectors change */
+  version: number;
+  /** Human readable description */
+  description?: string;
+  /** Selectors of the listing container (first match wins) */
+  container: string[];
+  /** Selectors of a single deal card within the container */
+  card: string[];
+  /** Selectors of the card body the fields are read from */
+  cardBody: string[];
+  /** Fallback selectors for every field, tried in order until one returns a value */
+  fields: Record<ProfileField, FieldSelector[]>;
+  /** Fields read from the whole card instead of the card body */
+  cardScopedFields?: ProfileField[];
+  /** Fields checked by the extraction report */
+  monitoredFields?: ProfileField[];
+  /** Selectors marking a card as an expired deal (matched against the card and its descendants) */
+  expiredMarkers?: string[];
+  /** Selectors of the deal detail page */
+  detail?: {
+    /** Selectors of the main deal element */
+    container: string[];
+    /** Fallback selectors for every detail field */
+    fields: Partial<Record<DetailField, FieldSelector[]>>;
+    /** Selectors marking the deal as expired */
+    expiredMarkers?: string[];
+  };
+}
+
+/**
+ * Contents of the selector profiles file
+ */
+interface SelectorProfilesFile {
+  activeProfile: string;
+  profiles: Record<string, Omit<SelectorProfile, 'name'>>;
+}
+
+let cachedProfiles: SelectorProfilesFile | null = null;
+let cachedFilePath: string | null = null;
+
+/**
+ * Get the absolute path of the selector profiles file
+ * @returns File path
+ */
+function getProfilesFilePath(): string {
+  return path.resolve(__dirname, '../..', config.API.SCRAPER.SELECTORS.FILE);
+}
+
+/**
+ * Load the selector profiles file (cached until reloadSelectorProfiles is called)
+ * @returns Parsed profiles file
+ */
+function loadProfilesFile(): SelectorProfilesFile {
+  const filePath = getProfilesFilePath();
+
+  if (cachedProfiles && cachedFilePath === filePath) {
+    return cachedProfiles;
+  }
+
+  const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8')) as SelectorProfilesFile;
+  if (!parsed.profiles || Object.keys(parsed.profiles).length === 0) {
+    throw new Error(`No selector profiles defined in ${filePath}`);
+  }
+
+  cachedProfiles = parsed;
+  cachedFilePath = filePath;
+  console.log(`Loaded ${Object.keys(parsed.profiles).length} selector profile(s) from ${filePath}`);
+
+  return parsed;
+}
+
+/**
+ * Get the selector profile used by the scraper (env override first, then the file default)
+ * @returns Active selector profile
+ */
+function getActiveSelectorProfile(): SelectorProfile {
+  const file = loadProfilesFile();
+  const name = config.API.SCRAPER.SELECTORS.PROFILE || file.activeProfile;
+  const profile = file.profiles[name];
+
+  if (!profile) {
+    throw new Error(`Selector profile "${name}" not found`);
+  }
+
+  return { ...profile, name };
+}
+
+/**
+ * List all available selector profiles
+ * @returns Profile names with versions
+ */
+function listSelectorProfiles(): Array<{ name: string; version: number; description?: string; active: boolean }> {
+  const active = getActiveSelectorProfile().name;
+  return Object.entries(loadProfilesFile().profiles).map(([name, profile]) => ({
+    name,
+    version: profile.version,
+    description: profile.description,
+    active: name === active
+  }));
+}
+
+/**
+ * Drop the cached profiles so the file is read again on next use
+ */
+function reloadSelectorProfiles(): void {
+  cachedProfiles = null;
+  cachedFilePath = null;
+}
+
+/**
+ * Find the first selector from the list that matches anything within the root
+ * @param root - Element to search in
+ * @param selectors - Selectors tried in order
+ * @returns Matched elements (empty selection when nothing matched)
+ */
+function findFirst(root: Selection, selectors: string[]): Selection {
+  for (const selector of selectors) {
+    const found = root.find(selector);
+    if (found.length) {
+      return found;
+    }
+  }
+  return root.slice(0, 0);
+}
+
+/**
+ * Read a field value using its fallback selectors
+ * @param $ - Loaded document
+ * @param root - Element to search in
+ * @param selectors - Fallback selectors for the field
+ * @returns Trimmed value or empty string if no selector produced a value
+ */
+function extractField($: CheerioAPI, root: Selection, selectors: FieldSelector[]): string {
+  for (const fieldSelector of selectors) {
+    const { selector, attr } = typeof fieldSelector === 'string'
+      ? { selector: fieldSelector, attr: undefined }
+      : fieldSelector;
+
+    const elem = root.find(selector).first();
+    if (!elem.length) continue;
+
+    const value = (attr ? elem.attr(attr) : $(elem).text())?.trim();
+    if (value) {
+      return value;
+    }
+  }
+  return '';
+}
+
+/**
+ * Check whether an element matches, or contains an element matching, any of the marker selectors
+ * @param root - Element to check
+ * @param selectors - Marker selectors
+ * @returns True if any selector matched
+ */
+function hasMarker(root: Selection, selectors: string[]): boolean {
+  return selectors.some(selector => root.is(selector) || root.find(selector).length > 0);
+}
+
+export {
+  getActiveSelectorProfile,
+  listSelectorProfiles,
+  reloadSelectorProfiles,
+  findFirst,
+  extractField,
+  hasMarker
+};
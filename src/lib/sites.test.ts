@@ -0,0 +1,30 @@
+import { resolveSiteUrl, findSiteByUrl } from './sites';
+
+describe('resolveSiteUrl', () => {
+  it('keeps links to registered sites', () => {
+    expect(resolveSiteUrl('https://www.mydealz.de/deals/lego-123')).toEqual({
+      site: expect.objectContaining({ id: 'mydealz' }),
+      url: 'https://www.mydealz.de/deals/lego-123'
+    });
+  });
+
+  it('resolves relative links against the default site', () => {
+    expect(resolveSiteUrl('/promocje/lego-812345')!.url).toBe('https://www.pepper.pl/promocje/lego-812345');
+  });
+
+  it.each([
+    'http://169.254.169.254/latest/meta-data',
+    'http://localhost:3000/api/cache',
+    'https://www.pepper.pl.evil.example/promocje/1',
+    'https://www.pepper.pl:8443/promocje/1',
+    '//internal.example/promocje/1',
+    'file:///etc/passwd',
+    'http://[::1'
+  ])('rejects %s', link => {
+    expect(resolveSiteUrl(link)).toBeNull();
+  });
+
+  it('is stricter than findSiteByUrl, which falls back to the default site', () => {
+    expect(findSiteByUrl('http://localhost:3000/').id).toBe('pepper');
+  });
+});
@@ -0,0 +1,164 @@
+import config from '../config';
+
+/**
+ * Pepper-network site the scraper can ingest
+ */
+export interface SiteDefinition {
+  /** Site identifier stored with the articles */
+  id: string;
+  /** Human readable name */
+  name: string;
+  /** Base URL of the site (listing pages are `${baseUrl}?page=N`) */
+  baseUrl: string;
+  /** Locale used for parsing prices */
+  locale: string;
+  /** Localized paths of the search, group and merchant listings */
+  paths: {
+    search: string;
+    group: string;
+    merchant: string;
+  };
+}
+
+// All sites of the network share the same thread card layout, only the domain, locale and paths differ
+const SITES: Array<Omit<SiteDefinition, 'baseUrl'>> = [
+  {
+    id: 'pepper',
+    name: 'Pepper.pl',
+    locale: 'pl',
+    paths: { search: '/search', group: '/grupa', merchant: '/promocje' }
+  },
+  {
+    id: 'mydealz',
+    name: 'mydealz.de',
+    locale: 'de',
+    paths: { search: '/search', group: '/gruppe', merchant: '/deals' }
+  },
+  {
+    id: 'dealabs',
+    name: 'Dealabs.com',
+    locale: 'fr',
+    paths: { search: '/search', group: '/groupe', merchant: '/codes-promo' }
+  },
+  {
+    id: 'hotukdeals',
+    name: 'hotukdeals.com',
+    locale: 'en',
+    paths: { search: '/search', group: '/tag', merchant: '/vouchers' }
+  }
+];
+
+/**
+ * Build the full site definition with the configured base URL
+ * @param site - Static site data
+ * @returns Site definition
+ */
+function withBaseUrl(site: Omit<SiteDefinition, 'baseUrl'>): SiteDefinition {
+  return { ...site, baseUrl: config.API.SCRAPER.SITES.BASE_URLS[site.id] };
+}
+
+/**
+ * List all supported sites
+ * @returns Site definitions
+ */
+function listSites(): SiteDefinition[] {
+  return SITES.map(withBaseUrl);
+}
+
+/**
+ * Check whether a site identifier is supported
+ * @param id - Site identifier
+ * @returns True if the site is in the registry
+ */
+function isKnownSite(id: string | null | undefined): boolean {
+  return !!id && SITES.some(site => site.id === id);
+}
+
+/**
+ * Error message for an unsupported site identifier
+ * @param id - Site identifier
+ * @returns Message listing the available sites
+ */
+function unknownSiteMessage(id: string): string {
+  return `Unknown site "${id}" (available: ${SITES.map(site => site.id).join(', ')})`;
+}
+
+/**
+ * Get a site by its identifier (the configured default site if none is given)
+ * @param id - Site identifier
+ * @returns Site definition
+ */
+function getSite(id?: string | null): SiteDefinition {
+  const siteId = id || config.API.SCRAPER.SITES.DEFAULT;
+  const site = SITES.find(candidate => candidate.id === siteId);
+
+  if (!site) {
+    throw new Error(unknownSiteMessage(siteId));
+  }
+
+  return withBaseUrl(site);
+}
+
+/**
+ * Find the site a URL belongs to
+ * @param url - Absolute URL (e.g. a deal link)
+ * @returns Matching site or the default site for relative or foreign URLs
+ */
+function findSiteByUrl(url: string): SiteDefinition {
+  try {
+    const { hostname } = new URL(url);
+    const site = listSites().find(candidate => new URL(candidate.baseUrl).hostname === hostname);
+    return site || getSite();
+  } catch {
+    return getSite();
+  }
+}
+
+/**
+ * Resolve a deal link to an absolute URL on a registered site (relative links point to the default site);
+ * links to any other host are rejected so that the scraper only ever requests the sites of the registry
+ * @param link - Absolute or relative deal link
+ * @returns Site and absolute URL, or null for invalid links and hosts outside the registry
+ */
+function resolveSiteUrl(link: string): { site: SiteDefinition; url: string } | null {
+  try {
+    const url = new URL(link, getSite().baseUrl);
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      return null;
+    }
+    const site = listSites().find(candidate => new URL(candidate.baseUrl).host === url.host);
+    return site ? { site, url: url.toString() } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Error message for a link outside the registered sites
+ * @param link - Deal link
+ * @returns Message listing the supported hosts
+ */
+function unknownSiteUrlMessage(link: string): string {
+  const hosts = listSites().map(site => new URL(site.baseUrl).host);
+  return `Link "${link}" does not belong to a supported site (available: ${hosts.join(', ')})`;
+}
+
+/**
+ * Resolve the site of an article (explicit site first, then the domain of its link)
+ * @param article - Article with an optional site identifier
+ * @returns Site definition
+ */
+function resolveArticleSite(article: { site?: string | null; link: string }): SiteDefinition {
+  return isKnownSite(article.site) ? getSite(article.site) : findSiteByUrl(article.link);
+}
+
+export {
+  listSites,
+  isKnownSite,
+  unknownSiteMessage,
+  getSite,
+  findSiteByUrl,
+  resolveSiteUrl,
+  unknownSiteUrlMessage,
+  resolveArticleSite
+};
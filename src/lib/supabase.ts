@@ -1,11 +1,29 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { parseArticlePrices } from './priceParser';
+import { resolveArticleSite } from './sites';
+import { createArticleIdFromLink, createLegacyArticleId, canonicalizeLink } from './links';
+import { normalizeMerchant } from './merchants';
+
+/**
+ * Category assigned to an article, as stored in category_scores
+ */
+export interface CategoryScoreColumn {
+  /** Top-level category */
+  category: string;
+  /** Subcategory (null when only the top-level category matched) */
+  subcategory: string | null;
+  /** Confidence between 0 and 1 */
+  confidence: number;
+}
 
 /**
  * Interface representing a categorized article in Supabase
  */
 export interface CategorizedArticle {
-  /** Unique article identifier (Base64 of the link) */
+  /** Unique article identifier (truncated SHA-256 of the canonical link or thread id) */
   article_id: string;
+  /** Previous identifier (Base64 of the link), kept for lookups by old ids */
+  legacy_article_id?: string | null;
   /** Title of the article */
   title: string;
   /** Description of the article */
@@ -20,8 +38,62 @@ export interface CategorizedArticle {
   link: string;
   /** Category of the article */
   category: string;
+  /** Subcategory of the article (null when only the top-level category matched) */
+  subcategory?: string | null;
+  /** Confidence of the primary category (0-1) */
+  confidence?: number | null;
+  /** Other top-level categories the article is also listed under */
+  secondary_categories?: string[] | null;
+  /** All assigned categories with their confidence, primary first */
+  category_scores?: CategoryScoreColumn[] | null;
+  /** Whether the category was set by hand and must not be overwritten by categorization runs */
+  category_locked?: boolean | null;
+  /** How the category was assigned: ai, classifier, keywords or manual (null for rows saved before migration 014) */
+  category_source?: string | null;
+  /** Date of the last categorization run that wrote the category (locked rows keep theirs, see migration 013) */
+  categorized_at?: string | null;
   /** Date when the record was created */
   created_at: string;
+  /** Temperature of the deal */
+  temperature?: number | null;
+  /** Number of votes */
+  votes?: number | null;
+  /** Merchant (shop) name */
+  merchant?: string | null;
+  /** Canonical merchant identifier */
+  merchant_id?: string | null;
+  /** User who posted the deal */
+  author?: string | null;
+  /** When the deal was posted */
+  posted_at?: string | null;
+  /** When the deal expires */
+  expires_at?: string | null;
+  /** Voucher code */
+  voucher_code?: string | null;
+  /** Price before the discount */
+  original_price?: string | null;
+  /** Number of comments */
+  comment_count?: number | null;
+  /** When the deal page was last scraped */
+  details_scraped_at?: string | null;
+  /** Numeric deal price */
+  price_amount?: number | null;
+  /** Currency of the deal price */
+  price_currency?: string | null;
+  /** Numeric shipping price */
+  shipping_amount?: number | null;
+  /** Whether shipping is free */
+  free_shipping?: boolean | null;
+  /** Numeric price before the discount */
+  original_price_amount?: number | null;
+  /** Discount in percent */
+  discount_percent?: number | null;
+  /** Pepper-network site the article comes from */
+  site?: string | null;
+  /** Deal status: active or expired */
+  status?: string | null;
+  /** When the status was last checked */
+  status_checked_at?: string | null;
 }
 
 /**
@@ -40,6 +112,58 @@ export interface Article {
   image: string;
   /** Link to the article */
   link: string;
+  /** Link as scraped, when it differs from the canonical link */
+  originalLink?: string;
+  /** Subcategory of the article */
+  subcategory?: string | null;
+  /** Confidence of the primary category (0-1) */
+  confidence?: number | null;
+  /** Other top-level categories the article is also listed under */
+  secondaryCategories?: string[];
+  /** All assigned categories with their confidence, primary first */
+  categoryScores?: CategoryScoreColumn[];
+  /** Whether the category was set by hand and is locked */
+  categoryLocked?: boolean;
+  /** Temperature of the deal */
+  temperature?: number | null;
+  /** Number of votes */
+  votes?: number | null;
+  /** Merchant (shop) name */
+  merchant?: string | null;
+  /** Canonical merchant identifier */
+  merchantId?: string | null;
+  /** User who posted the deal */
+  author?: string | null;
+  /** When the deal was posted */
+  postedAt?: string | null;
+  /** When the deal expires */
+  expiresAt?: string | null;
+  /** Voucher code */
+  voucherCode?: string | null;
+  /** Price before the discount */
+  originalPrice?: string | null;
+  /** Number of comments */
+  commentCount?: number | null;
+  /** When the deal page was last scraped */
+  detailsScrapedAt?: string | null;
+  /** Numeric deal price */
+  priceAmount?: number | null;
+  /** Currency of the deal price */
+  priceCurrency?: string | null;
+  /** Numeric shipping price */
+  shippingAmount?: number | null;
+  /** Whether shipping is free */
+  freeShipping?: boolean;
+  /** Numeric price before the discount */
+  originalPriceAmount?: number | null;
+  /** Discount in percent */
+  discountPercent?: number | null;
+  /** Pepper-network site the article comes from */
+  site?: string;
+  /** Deal status: active or expired */
+  status?: 'active' | 'expired';
+  /** When the status was last checked */
+  statusCheckedAt?: string | null;
 }
 
 /**
@@ -48,7 +172,8 @@ export interface Article {
  * @returns Unique article identifier
  */
 function createUniqueId(link: string): string {
-  return Buffer.from(link).toString('base64');
+  // Tracking parameters, trailing slashes and slug changes map to the same id
+  return createArticleIdFromLink(link);
 }
 
 /**
@@ -64,6 +189,126 @@ function toArticle(cachedArticle: CategorizedArticle): Article {
     shippingPrice: cachedArticle.shipping_price,
     image: cachedArticle.image,
     link: cachedArticle.link,
+    site: cachedArticle.site || resolveArticleSite(cachedArticle).id,
+    subcategory: cachedArticle.subcategory ?? null,
+    confidence: cachedArticle.confidence ?? null,
+    secondaryCategories: cachedArticle.secondary_categories || [],
+    categoryScores: cachedArticle.category_scores || [],
+    categoryLocked: !!cachedArticle.category_locked,
+    status: cachedArticle.status === 'expired' ? 'expired' : 'active',
+    statusCheckedAt: cachedArticle.status_checked_at ?? null,
+    merchant: cachedArticle.merchant ?? null,
+    merchantId: cachedArticle.merchant_id ?? null,
+    priceAmount: cachedArticle.price_amount ?? null,
+    priceCurrency: cachedArticle.price_currency ?? null,
+    shippingAmount: cachedArticle.shipping_amount ?? null,
+    freeShipping: !!cachedArticle.free_shipping,
+    originalPriceAmount: cachedArticle.original_price_amount ?? null,
+    discountPercent: cachedArticle.discount_percent ?? null,
+    ...(cachedArticle.details_scraped_at ? {
+      temperature: cachedArticle.temperature ?? null,
+      votes: cachedArticle.votes ?? null,
+      author: cachedArticle.author ?? null,
+      postedAt: cachedArticle.posted_at ?? null,
+      expiresAt: cachedArticle.expires_at ?? null,
+      voucherCode: cachedArticle.voucher_code ?? null,
+      originalPrice: cachedArticle.original_price ?? null,
+      commentCount: cachedArticle.comment_count ?? null,
+      detailsScrapedAt: cachedArticle.details_scraped_at
+    } : {})
+  };
+}
+
+/**
+ * Gets the top-level categories an article is listed under: the primary category and the secondary labels
+ * @param cachedArticle - Record from Supabase
+ * @param minConfidence - Leave out secondary labels with a lower confidence
+ * @returns Category names, primary first
+ */
+function toCategoryLabels(cachedArticle: CategorizedArticle, minConfidence = 0): string[] {
+  const scores = cachedArticle.category_scores || [];
+  const secondary = (cachedArticle.secondary_categories || []).filter(category => {
+    const score = scores.find(entry => entry.category === category);
+    return category !== cachedArticle.category && (score?.confidence ?? 0) >= minConfidence;
+  });
+
+  return [cachedArticle.category, ...secondary];
+}
+
+/**
+ * Converts the raw price strings of an article to structured Supabase columns
+ * @param article - Article object
+ * @returns Price columns to save
+ */
+function toPriceColumns(article: Article): Partial<CategorizedArticle> {
+  const prices = parseArticlePrices(article, resolveArticleSite(article).locale);
+
+  return {
+    price_amount: prices.priceAmount,
+    price_currency: prices.priceCurrency,
+    shipping_amount: prices.shippingAmount,
+    free_shipping: prices.freeShipping,
+    original_price_amount: prices.originalPriceAmount,
+    discount_percent: prices.discountPercent
+  };
+}
+
+/**
+ * Converts the deal status of an article to Supabase columns (empty when the status is unknown,
+ * so saving an article without it never reactivates an expired deal)
+ * @param article - Article object
+ * @returns Status columns to save
+ */
+function toStatusColumns(article: Article): Partial<CategorizedArticle> {
+  if (!article.status) {
+    return {};
+  }
+
+  return {
+    status: article.status,
+    status_checked_at: new Date().toISOString()
+  };
+}
+
+/**
+ * Converts the merchant of an article to Supabase columns, normalized to the canonical merchant
+ * (empty when the merchant is unknown, so saving without it keeps the stored one)
+ * @param article - Article object
+ * @returns Merchant columns to save
+ */
+function toMerchantColumns(article: Article): Partial<CategorizedArticle> {
+  const merchant = normalizeMerchant(article.merchant);
+  if (!merchant) {
+    return {};
+  }
+
+  return {
+    merchant: merchant.name,
+    merchant_id: merchant.id
+  };
+}
+
+/**
+ * Converts the detail page fields of an article to Supabase columns
+ * (empty when the article was never enriched, so tables without the detail columns keep working)
+ * @param article - Article object
+ * @returns Detail columns to save
+ */
+function toDetailColumns(article: Article): Partial<CategorizedArticle> {
+  if (!article.detailsScrapedAt) {
+    return {};
+  }
+
+  return {
+    temperature: article.temperature ?? null,
+    votes: article.votes ?? null,
+    author: article.author ?? null,
+    posted_at: article.postedAt ?? null,
+    expires_at: article.expiresAt ?? null,
+    voucher_code: article.voucherCode ?? null,
+    original_price: article.originalPrice ?? null,
+    comment_count: article.commentCount ?? null,
+    details_scraped_at: article.detailsScrapedAt
   };
 }
 
@@ -89,14 +334,20 @@ function toCategorizedArticle(article: Article, category: string): CategorizedAr
   // Ensure all fields have values (even if empty strings)
   const safeArticle: CategorizedArticle = {
     article_id: createUniqueId(article.link),
+    legacy_article_id: createLegacyArticleId(article.originalLink || article.link),
     title: article.title || '',
     description: article.description || '',
     price: article.price || '',
     shipping_price: article.shippingPrice || '',
     image: article.image || '',
-    link: article.link,
+    link: canonicalizeLink(article.link),
     category: category,
     created_at: new Date().toISOString(),
+    site: resolveArticleSite(article).id,
+    ...toPriceColumns(article),
+    ...toStatusColumns(article),
+    ...toDetailColumns(article),
+    ...toMerchantColumns(article),
   };
   
   return safeArticle;
@@ -151,5 +402,10 @@ export {
   createAnonClient,
   createUniqueId,
   toArticle,
+  toCategoryLabels,
+  toDetailColumns,
+  toPriceColumns,
+  toStatusColumns,
+  toMerchantColumns,
   toCategorizedArticle
 }; 
\ No newline at end of file
@@ -0,0 +1,68 @@
+import { tokenize, trainNaiveBayes, isNaiveBayesModel, classifyText } from './textClassifier';
+
+const EXAMPLES = [
+  { text: 'Karta graficzna RTX 4070 Super', label: 'elektronika/podzespoly' },
+  { text: 'Procesor AMD Ryzen 7 7800X3D', label: 'elektronika/podzespoly' },
+  { text: 'Karta graficzna Radeon RX 7800 XT', label: 'elektronika/podzespoly' },
+  { text: 'Klocki LEGO Technic Lamborghini', label: 'dom/zabawki' },
+  { text: 'LEGO Star Wars Sokół Millennium', label: 'dom/zabawki' }
+];
+
+describe('tokenize', () => {
+  it('keeps lowercase words of at least two characters and their bigrams', () => {
+    expect(tokenize('Karta RTX-4070 i Sokół')).toEqual([
+      'karta', 'rtx', '4070', 'sokół',
+      'karta rtx', 'rtx 4070', '4070 sokół'
+    ]);
+  });
+
+  it('returns no tokens for text without words', () => {
+    expect(tokenize(' - ! ')).toEqual([]);
+  });
+});
+
+describe('trainNaiveBayes', () => {
+  it('counts the documents and tokens of every label', () => {
+    const model = trainNaiveBayes(EXAMPLES);
+
+    expect(model.documents).toBe(5);
+    expect(Object.keys(model.labels).sort()).toEqual(['dom/zabawki', 'elektronika/podzespoly']);
+    expect(model.labels['elektronika/podzespoly'].documents).toBe(3);
+    expect(model.labels['elektronika/podzespoly'].counts['karta graficzna']).toBe(2);
+    expect(model.labels['dom/zabawki'].counts.lego).toBe(2);
+  });
+});
+
+describe('isNaiveBayesModel', () => {
+  it('accepts a trained model', () => {
+    expect(isNaiveBayesModel(trainNaiveBayes(EXAMPLES))).toBe(true);
+  });
+
+  it('rejects other versions, empty models and other values', () => {
+    expect(isNaiveBayesModel({ ...trainNaiveBayes(EXAMPLES), version: 0 })).toBe(false);
+    expect(isNaiveBayesModel(trainNaiveBayes([]))).toBe(false);
+    expect(isNaiveBayesModel(null)).toBe(false);
+    expect(isNaiveBayesModel('model')).toBe(false);
+  });
+});
+
+describe('classifyText', () => {
+  const model = trainNaiveBayes(EXAMPLES);
+
+  it('ranks the labels by probability', () => {
+    const predictions = classifyText(model, 'Karta graficzna RTX 4060');
+
+    expect(predictions.map(prediction => prediction.label)).toEqual(['elektronika/podzespoly', 'dom/zabawki']);
+    expect(predictions[0].probability).toBeGreaterThan(0.8);
+    expect(predictions.reduce((sum, prediction) => sum + prediction.probability, 0)).toBeCloseTo(1);
+  });
+
+  it('picks the toy label for LEGO sets', () => {
+    expect(classifyText(model, 'LEGO Technic Bugatti')[0].label).toBe('dom/zabawki');
+  });
+
+  it('returns no predictions for text without known tokens', () => {
+    expect(classifyText(model, 'Odkurzacz bezprzewodowy')).toEqual([]);
+    expect(classifyText(trainNaiveBayes([]), 'LEGO')).toEqual([]);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Labeled text used to train the classifier
+ */
+export interface TrainingExample {
+  text: string;
+  label: string;
+}
+
+/**
+ * Token counts of one label
+ */
+export interface LabelStats {
+  /** Number of training texts with this label */
+  documents: number;
+  /** Total number of tokens in these texts */
+  tokens: number;
+  /** Occurrences of each token */
+  counts: Record<string, number>;
+}
+
+/**
+ * Multinomial naive Bayes model over token unigrams and bigrams (plain JSON, saved to disk as is)
+ */
+export interface NaiveBayesModel {
+  version: number;
+  /** When the model was trained (ISO string) */
+  trainedAt: string;
+  /** Number of training texts */
+  documents: number;
+  /** Number of distinct tokens */
+  vocabularySize: number;
+  labels: Record<string, LabelStats>;
+}
+
+/**
+ * Label predicted for a text
+ */
+export interface Prediction {
+  label: string;
+  /** Posterior probability between 0 and 1 */
+  probability: number;
+}
+
+const MODEL_VERSION = 1;
+// Wygładzanie Laplace'a dla tokenów niewidzianych przy danej etykiecie
+const SMOOTHING = 1;
+
+/**
+ * Split a text into lowercase words (letters and digits, at least 2 characters) and their bigrams
+ * @param text - Text to split
+ * @returns Tokens
+ */
+function tokenize(text: string): string[] {
+  const words = (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(word => word.length >= 2);
+  const bigrams = words.slice(1).map((word, index) => `${words[index]} ${word}`);
+  return [...words, ...bigrams];
+}
+
+/**
+ * Train a naive Bayes model
+ * @param examples - Labeled texts
+ * @returns Trained model
+ */
+function trainNaiveBayes(examples: TrainingExample[]): NaiveBayesModel {
+  const labels: Record<string, LabelStats> = {};
+  const vocabulary = new Set<string>();
+
+  for (const { text, label } of examples) {
+    const stats = labels[label] || (labels[label] = { documents: 0, tokens: 0, counts: {} });
+    stats.documents++;
+    for (const token of tokenize(text)) {
+      stats.counts[token] = (stats.counts[token] || 0) + 1;
+      stats.tokens++;
+      vocabulary.add(token);
+    }
+  }
+
+  return {
+    version: MODEL_VERSION,
+    trainedAt: new Date().toISOString(),
+    documents: examples.length,
+    vocabularySize: vocabulary.size,
+    labels
+  };
+}
+
+/**
+ * Check whether a value read from disk is a model of the current version
+ * @param value - Parsed JSON
+ * @returns True if the value can be used for predictions
+ */
+function isNaiveBayesModel(value: unknown): value is NaiveBayesModel {
+  const model = value as NaiveBayesModel;
+  return !!model && model.version === MODEL_VERSION && typeof model.labels === 'object' && model.documents > 0;
+}
+
+/**
+ * Rank the labels of a model for a text
+ * @param model - Trained model
+ * @param text - Text to classify
+ * @returns Labels sorted by probability, highest first; empty if the text has no token known to the model
+ */
+function classifyText(model: NaiveBayesModel, text: string): Prediction[] {
+  const tokens = tokenize(text);
+  const labelNames = Object.keys(model.labels);
+  if (labelNames.length === 0 || !tokens.some(token => labelNames.some(label => model.labels[label].counts[token]))) {
+    return [];
+  }
+
+  // Logarytmy zamiast iloczynów, żeby długie opisy nie dawały zera
+  const logScores = labelNames.map(label => {
+    const stats = model.labels[label];
+    const denominator = stats.tokens + SMOOTHING * model.vocabularySize;
+    let score = Math.log(stats.documents / model.documents);
+    for (const token of tokens) {
+      score += Math.log(((stats.counts[token] || 0) + SMOOTHING) / denominator);
+    }
+    return score;
+  });
+
+  const max = Math.max(...logScores);
+  const weights = logScores.map(score => Math.exp(score - max));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  return labelNames
+    .map((label, index) => ({ label, probability: weights[index] / total }))
+    .sort((a, b) => b.probability - a.probability);
+}
+
+export {
+  tokenize,
+  trainNaiveBayes,
+  isNaiveBayesModel,
+  classifyText
+};
@@ -0,0 +1,90 @@
+import express from 'express';
+import { Request, Response, RequestHandler } from '../types/express';
+import { listArchivedPages, readArchivedPage, pruneArchive, isArchiveEnabled } from '../lib/htmlArchive';
+import { parseListingPage } from '../lib/scraper';
+import { getSite, findSiteByUrl, isKnownSite } from '../lib/sites';
+import { requireAdminToken } from '../lib/adminAuth';
+
+const router = express.Router();
+
+/**
+ * @route GET /api/archive
+ * @desc List archived raw HTML listing pages (newest first)
+ * @access Admin (Authorization: Bearer ADMIN_API_TOKEN)
+ */
+router.get('/', requireAdminToken, ((_req: Request, res: Response) => {
+  try {
+    const pages = listArchivedPages();
+
+    return res.status(200).json({
+      enabled: isArchiveEnabled(),
+      pages,
+      count: pages.length
+    });
+  } catch (error) {
+    console.error('Error listing archived pages:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+}) as RequestHandler);
+
+/**
+ * @route POST /api/archive/:id/reparse
+ * @desc Re-run the listing extraction against an archived page (e.g. after fixing selectors)
+ * @access Admin (Authorization: Bearer ADMIN_API_TOKEN)
+ * @param {string} id - Archive entry id
+ */
+router.post('/:id/reparse', requireAdminToken, ((req: Request<{ id: string }>, res: Response) => {
+  try {
+    const archived = readArchivedPage(req.params.id);
+
+    if (!archived) {
+      return res.status(404).json({
+        error: `Archived page ${req.params.id} not found`
+      });
+    }
+
+    // Re-parse with the currently active selector profile, without polluting the live reports
+    const { articles, report } = parseListingPage(archived.html, archived.id, false, isKnownSite(archived.site) ? getSite(archived.site) : findSiteByUrl(archived.url));
+
+    return res.status(200).json({
+      id: archived.id,
+      site: archived.site,
+      url: archived.url,
+      pageNumber: archived.pageNumber,
+      fetchedAt: archived.fetchedAt,
+      articles: articles || [],
+      totalArticles: articles ? articles.length : 0,
+      report
+    });
+  } catch (error) {
+    console.error('Error re-parsing archived page:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+}) as RequestHandler<{ id: string }>);
+
+/**
+ * @route DELETE /api/archive/prune
+ * @desc Apply the archive retention limits immediately
+ * @access Admin (Authorization: Bearer ADMIN_API_TOKEN)
+ */
+router.delete('/prune', requireAdminToken, ((_req: Request, res: Response) => {
+  try {
+    const removed = pruneArchive();
+
+    return res.status(200).json({
+      message: `Removed ${removed} archived pages`,
+      removed
+    });
+  } catch (error) {
+    console.error('Error pruning archive:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+}) as RequestHandler);
+
+export default router;
@@ -3,25 +3,42 @@ import { Request, Response, ArticlesRequestQuery, RequestHandler } from '../type
 import articlesService from '../services/articlesService';
 import { ERROR_CODES } from '../constants';
 import categorizeService from '../services/categorizeService';
+import { getFixtureMode, getFixtureDir, listFixtures } from '../lib/fixtures';
+import { getActiveSelectorProfile, listSelectorProfiles, reloadSelectorProfiles } from '../lib/selectorProfiles';
+import { getRecentExtractionReports } from '../lib/extractionReport';
+import { getSite, isKnownSite, listSites, unknownSiteMessage, resolveSiteUrl, unknownSiteUrlMessage } from '../lib/sites';
+import { parseListingTarget, formatListingTarget, ListingTarget } from '../lib/listingTargets';
+import { listHostBackoffs } from '../lib/politeness';
+import { parseMerchantFilter } from '../lib/merchants';
+import config from '../config';
 
 const router = express.Router();
 
 /**
  * @route GET /api/articles
- * @desc Pobiera artykuły z Pepper.pl
+ * @desc Pobiera artykuły z Pepper.pl (lub innego serwisu sieci Pepper)
  * @access Public
  * @query {number} page - Numer strony do pobrania
+ * @query {string} site - Serwis: pepper, mydealz, dealabs, hotukdeals (domyślnie z konfiguracji)
  */
 router.get('/', (async (req: Request<{}, any, {}, ArticlesRequestQuery>, res: Response) => {
   try {
     // Get the page number from the query string, default to 1
     const pageNumber = parseInt(req.query.page || '1', 10);
+    const site = req.query.site;
+
+    if (site && !isKnownSite(site)) {
+      return res.status(400).json({
+        articles: null,
+        error: `Invalid request: ${unknownSiteMessage(site)}`
+      });
+    }
     
-    // Fetch articles from pepper.pl using the service
-    const articles = await articlesService.fetchArticlesFromPage(pageNumber);
+    // Fetch articles from the site using the service
+    const articles = await articlesService.fetchArticlesFromPage(pageNumber, site);
     
     // Return the articles
-    return res.status(200).json({ articles });
+    return res.status(200).json({ articles, site: getSite(site).id });
   } catch (error) {
     console.error('Error in API handler:', error);
     return res.status(500).json({ 
@@ -36,10 +53,12 @@ router.get('/', (async (req: Request<{}, any, {}, ArticlesRequestQuery>, res: Re
  * @desc Pobiera artykuły z wielu stron Pepper.pl
  * @access Public
  * @query {number} pages - Liczba stron do pobrania (domyślnie 3)
+ * @query {string} site - Serwis sieci Pepper (domyślnie z konfiguracji)
  */
 router.get('/multi', (async (req: Request<{}, any, {}, ArticlesRequestQuery>, res: Response) => {
   try {
     const pagesToFetch = parseInt(req.query.pages as string || '3', 10);
+    const site = req.query.site;
     
     if (pagesToFetch > 10) {
       return res.status(400).json({
@@ -47,9 +66,16 @@ router.get('/multi', (async (req: Request<{}, any, {}, ArticlesRequestQuery>, re
         error: 'Za duża liczba stron do pobrania (max 10)'
       });
     }
+
+    if (site && !isKnownSite(site)) {
+      return res.status(400).json({
+        articles: null,
+        error: `Invalid request: ${unknownSiteMessage(site)}`
+      });
+    }
     
     // Fetch articles from multiple pages using the service
-    const allArticles = await articlesService.fetchArticlesFromMultiplePages(pagesToFetch);
+    const allArticles = await articlesService.fetchArticlesFromMultiplePages(pagesToFetch, site);
     
     return res.status(200).json({
       articles: allArticles,
@@ -65,19 +91,148 @@ router.get('/multi', (async (req: Request<{}, any, {}, ArticlesRequestQuery>, re
   }
 }) as RequestHandler);
 
+/**
+ * Fetch the first pages of a search, group or merchant listing and send the response
+ * @param target - Listing to fetch
+ * @param req - Request with the `pages` and `site` query params
+ * @param res - Response
+ */
+async function respondWithTargetListing(
+  target: ListingTarget,
+  req: Request<any, any, {}, ArticlesRequestQuery>,
+  res: Response
+) {
+  try {
+    const pagesToFetch = parseInt(req.query.pages as string || '1', 10);
+    const site = req.query.site;
+
+    if (pagesToFetch > config.API.ARTICLES.MAX_PAGES) {
+      return res.status(400).json({
+        articles: null,
+        error: `Za duża liczba stron do pobrania (max ${config.API.ARTICLES.MAX_PAGES})`
+      });
+    }
+
+    if (site && !isKnownSite(site)) {
+      return res.status(400).json({
+        articles: null,
+        error: `Invalid request: ${unknownSiteMessage(site)}`
+      });
+    }
+
+    const articles = await articlesService.fetchArticlesFromMultiplePages(pagesToFetch, site, target);
+
+    return res.status(200).json({
+      articles,
+      site: getSite(site).id,
+      target: formatListingTarget(target),
+      pagesFetched: pagesToFetch,
+      totalArticles: articles.length
+    });
+  } catch (error) {
+    console.error(`Error fetching ${formatListingTarget(target)}:`, error);
+    return res.status(500).json({
+      articles: null,
+      error: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+}
+
+/**
+ * @route GET /api/articles/search
+ * @desc Pobiera wyniki wyszukiwania Pepper.pl dla słowa kluczowego
+ * @access Public
+ * @query {string} q - Szukana fraza (np. "gpu")
+ * @query {number} pages - Liczba stron wyników do pobrania (domyślnie 1)
+ * @query {string} site - Serwis sieci Pepper (domyślnie z konfiguracji)
+ */
+router.get('/search', (async (req: Request<{}, any, {}, ArticlesRequestQuery>, res: Response) => {
+  try {
+    // Powtórzony parametr (?q=a&q=b) przychodzi jako tablica
+    const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+
+    if (!query) {
+      return res.status(400).json({
+        articles: null,
+        error: 'Invalid request: q must be a single non-empty string'
+      });
+    }
+
+    return await respondWithTargetListing({ type: 'search', value: query }, req, res);
+  } catch (error) {
+    console.error('Error in search API handler:', error);
+    return res.status(500).json({
+      articles: null,
+      error: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+}) as RequestHandler);
+
+/**
+ * @route GET /api/articles/group/:slug
+ * @desc Pobiera okazje z grupy kategorii Pepper.pl (np. "lego")
+ * @access Public
+ * @param {string} slug - Slug grupy
+ * @query {number} pages - Liczba stron do pobrania (domyślnie 1)
+ * @query {string} site - Serwis sieci Pepper (domyślnie z konfiguracji)
+ */
+router.get('/group/:slug', (async (req: Request<{ slug: string }, any, {}, ArticlesRequestQuery>, res: Response) => {
+  return respondWithTargetListing({ type: 'group', value: req.params.slug }, req, res);
+}) as RequestHandler<{ slug: string }>);
+
+/**
+ * @route GET /api/articles/merchant/:slug
+ * @desc Pobiera okazje ze strony sklepu na Pepper.pl (np. "amazon")
+ * @access Public
+ * @param {string} slug - Slug sklepu
+ * @query {number} pages - Liczba stron do pobrania (domyślnie 1)
+ * @query {string} site - Serwis sieci Pepper (domyślnie z konfiguracji)
+ */
+router.get('/merchant/:slug', (async (req: Request<{ slug: string }, any, {}, ArticlesRequestQuery>, res: Response) => {
+  return respondWithTargetListing({ type: 'merchant', value: req.params.slug }, req, res);
+}) as RequestHandler<{ slug: string }>);
+
 /**
  * @route GET /api/articles/fetch-categorize-cache
  * @desc Pobiera artykuły z 10 stron Pepper.pl (wszystkie strony), kategoryzuje je i zapisuje do cache w Supabase
  * @access Public
  * @query {number} maxPages - Opcjonalny limit maksymalnej liczby stron (domyślnie 10)
  * @query {number} batchSize - Rozmiar paczki artykułów do kategoryzacji (domyślnie 50)
+ * @query {boolean} enrichDetails - Czy pobrać strony szczegółów dla nowych okazji (domyślnie z konfiguracji)
+ * @query {string} site - Serwis sieci Pepper (domyślnie z konfiguracji)
+ * @query {string} target - Lista do pobrania: home, search:<fraza>, group:<slug> lub merchant:<slug> (domyślnie home)
+ * @query {boolean} incremental - Pobieraj strony po kolei i zatrzymaj się na stronie znanych okazji (domyślnie z konfiguracji)
  */
 router.get('/fetch-categorize-cache', (async (req: Request<{}, any, {}, ArticlesRequestQuery>, res: Response) => {
   try {
+    const site = req.query.site;
+
+    if (site && !isKnownSite(site)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid request: ${unknownSiteMessage(site)}`
+      });
+    }
+
+    let target: ListingTarget | undefined;
+    try {
+      target = req.query.target ? parseListingTarget(req.query.target) : undefined;
+    } catch (targetError) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid request: ${targetError instanceof Error ? targetError.message : String(targetError)}`
+      });
+    }
+
+
     // Default to 10 pages (all pages) but allow override with maxPages parameter
     const maxPages = req.query.maxPages ? parseInt(req.query.maxPages as string, 10) : 10;
     // Default batch size for categorization (to avoid payload too large errors)
     const batchSize = req.query.batchSize ? parseInt(req.query.batchSize as string, 10) : 50;
+    // Enrich newly seen articles with deal page details (temperature, merchant, voucher code...)
+    const enrichDetails = req.query.enrichDetails !== undefined ? req.query.enrichDetails === 'true' : undefined;
+    // Stop at the first page consisting mostly of already cached deals
+    const incremental = req.query.incremental !== undefined ? req.query.incremental === 'true' : undefined;
     
     // Generate API base URL for internal requests
     const apiBaseUrl = `${req.protocol}://${req.get('host')}`;
@@ -86,7 +241,11 @@ router.get('/fetch-categorize-cache', (async (req: Request<{}, any, {}, Articles
     const result = await articlesService.fetchCategorizeAndCacheArticles({
       maxPages,
       batchSize,
-      apiBaseUrl
+      apiBaseUrl,
+      enrichDetails,
+      site,
+      target,
+      incremental
     });
     
     return res.status(200).json(result);
@@ -99,6 +258,43 @@ router.get('/fetch-categorize-cache', (async (req: Request<{}, any, {}, Articles
   }
 }) as RequestHandler);
 
+/**
+ * @route GET /api/articles/details
+ * @desc Pobiera szczegóły okazji ze strony okazji (temperatura, sklep, autor, daty, kod rabatowy)
+ * @access Public
+ * @query {string} link - Link do okazji w jednym z obsługiwanych serwisów (względny: serwis domyślny)
+ */
+router.get('/details', (async (req: Request<{}, any, {}, ArticlesRequestQuery>, res: Response) => {
+  try {
+    const link = typeof req.query.link === 'string' ? req.query.link.trim() : '';
+
+    if (!link) {
+      return res.status(400).json({
+        details: null,
+        error: 'Invalid request: link is required'
+      });
+    }
+
+    // Pobieramy tylko strony serwisów z rejestru, nigdy dowolnych hostów
+    if (!resolveSiteUrl(link)) {
+      return res.status(400).json({
+        details: null,
+        error: `Invalid request: ${unknownSiteUrlMessage(link)}`
+      });
+    }
+
+    const details = await articlesService.fetchArticleDetails(link);
+
+    return res.status(200).json({ link, details });
+  } catch (error) {
+    console.error('Error fetching article details:', error);
+    return res.status(500).json({
+      details: null,
+      error: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+}) as RequestHandler);
+
 /**
  * @route GET /api/articles/cached
  * @desc Pobiera skategoryzowane artykuły z cache (lokalnego SQLite lub Supabase), z opcją fallbacku do pobierania z Pepper.pl
@@ -107,6 +303,11 @@ router.get('/fetch-categorize-cache', (async (req: Request<{}, any, {}, Articles
  * @query {number} minCached - Minimalna liczba artykułów oczekiwanych w cache, jeśli mniej - użyj fallbacku (opcjonalnie)
  * @query {number} fallbackPages - Liczba stron do pobrania w przypadku fallbacku (domyślnie 7)
  * @query {boolean} skipLocalCache - Czy pominąć lokalny cache SQLite (domyślnie false)
+ * @query {string} site - Tylko artykuły z danego serwisu sieci Pepper (domyślnie wszystkie)
+ * @query {boolean} includeExpired - Czy zwrócić także wygasłe okazje (domyślnie false)
+ * @query {string} merchant - Tylko okazje z podanych sklepów, oddzielonych przecinkami (np. allegro,x-kom)
+ * @query {string} excludeMerchant - Ukryj okazje z podanych sklepów, oddzielonych przecinkami
+ * @query {number} minConfidence - Minimalna pewność kategorii głównej (0-1); dotyczy też etykiet dodatkowych
  */
 router.get('/cached', (async (req: Request<{}, any, {}, ArticlesRequestQuery>, res: Response) => {
   try {
@@ -114,12 +315,34 @@ router.get('/cached', (async (req: Request<{}, any, {}, ArticlesRequestQuery>, r
     const minCached = req.query.minCached ? parseInt(req.query.minCached as string, 10) : null;
     const fallbackPages = parseInt(req.query.fallbackPages as string || '7', 10);
     const skipLocalCache = req.query.skipCache === 'true';
+    const site = req.query.site;
+    const includeExpired = req.query.includeExpired === 'true';
+    const merchants = parseMerchantFilter(req.query.merchant);
+    const excludeMerchants = parseMerchantFilter(req.query.excludeMerchant);
+    const minConfidence = req.query.minConfidence !== undefined ? parseFloat(req.query.minConfidence) : undefined;
+
+    if (site && !isKnownSite(site)) {
+      return res.status(400).json({
+        error: `Invalid request: ${unknownSiteMessage(site)}`
+      });
+    }
+
+    if (minConfidence !== undefined && !(minConfidence >= 0 && minConfidence <= 1)) {
+      return res.status(400).json({
+        error: 'Invalid request: minConfidence must be a number between 0 and 1'
+      });
+    }
     
     // Get cached articles from the service
     const result = await articlesService.getCachedArticles({
       days,
       minCached,
-      skipLocalCache
+      skipLocalCache,
+      site,
+      includeExpired,
+      merchants,
+      excludeMerchants,
+      minConfidence
     });
     
     // Check if we need to fallback to fetching from Pepper.pl
@@ -127,7 +350,8 @@ router.get('/cached', (async (req: Request<{}, any, {}, ArticlesRequestQuery>, r
       console.log(`Not enough cached articles (${result.stats.totalArticles} < ${minCached}), falling back to fetching from Pepper.pl...`);
       
       // Redirect to the fetch-categorize-cache endpoint with the specified parameters
-      return res.redirect(`/api/articles/fetch-categorize-cache?maxPages=${fallbackPages}`);
+      const siteParam = site ? `&site=${encodeURIComponent(site)}` : '';
+      return res.redirect(`/api/articles/fetch-categorize-cache?maxPages=${fallbackPages}${siteParam}`);
     }
     
     return res.status(200).json(result);
@@ -139,4 +363,164 @@ router.get('/cached', (async (req: Request<{}, any, {}, ArticlesRequestQuery>, r
   }
 }) as RequestHandler);
 
+/**
+ * @route POST /api/articles/revalidate
+ * @desc Sprawdza ponownie strony ostatnio zapisanych aktywnych okazji i oznacza wygasłe
+ * @access Public (should be restricted in production)
+ * @query {number} days - Tylko okazje zapisane w ciągu tylu dni (domyślnie z konfiguracji)
+ * @query {number} limit - Maksymalna liczba sprawdzanych okazji (domyślnie z konfiguracji)
+ */
+router.post('/revalidate', (async (req: Request<{}, any, {}, ArticlesRequestQuery>, res: Response) => {
+  try {
+    const days = req.query.days ? parseInt(req.query.days as string, 10) : undefined;
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+
+    const result = await articlesService.revalidateCachedDeals({ days, limit });
+
+    return res.status(200).json({
+      success: true,
+      ...result
+    });
+  } catch (error) {
+    console.error('Error re-validating cached deals:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+}) as RequestHandler);
+
+/**
+ * @route GET /api/articles/sites
+ * @desc Zwraca obsługiwane serwisy sieci Pepper i serwis domyślny
+ * @access Public
+ */
+router.get('/sites', ((_req: Request, res: Response) => {
+  res.status(200).json({
+    default: getSite().id,
+    sites: listSites()
+  });
+}) as RequestHandler);
+
+/**
+ * @route GET /api/articles/politeness
+ * @desc Zwraca limity zapytań scrapera i hosty wstrzymane po odpowiedziach 429/503
+ * @access Public
+ */
+router.get('/politeness', ((_req: Request, res: Response) => {
+  const now = Date.now();
+  const hosts = listHostBackoffs();
+
+  res.status(200).json({
+    settings: config.API.SCRAPER.POLITENESS,
+    hosts,
+    coolingDown: Object.keys(hosts).filter(host => {
+      const until = hosts[host].cooldownUntil;
+      return until !== null && Date.parse(until) > now;
+    })
+  });
+}) as RequestHandler);
+
+/**
+ * @route GET /api/articles/extraction-reports
+ * @desc Zwraca ostatnie raporty ekstrakcji (puste pola, podejrzenie zmiany layoutu Pepper)
+ * @access Public
+ * @query {number} limit - Maksymalna liczba raportów (domyślnie 50)
+ */
+router.get('/extraction-reports', ((req: Request<{}, any, {}, ArticlesRequestQuery>, res: Response) => {
+  const limit = parseInt(req.query.limit as string || '50', 10);
+  const reports = getRecentExtractionReports(limit);
+
+  res.status(200).json({
+    reports,
+    layoutChangeSuspected: reports.some(report => report.layoutChangeSuspected)
+  });
+}) as RequestHandler);
+
+/**
+ * @route GET /api/articles/selector-profiles
+ * @desc Zwraca dostępne profile selektorów i aktywny profil
+ * @access Public
+ */
+router.get('/selector-profiles', ((_req: Request, res: Response) => {
+  try {
+    return res.status(200).json({
+      active: getActiveSelectorProfile(),
+      profiles: listSelectorProfiles()
+    });
+  } catch (error) {
+    console.error('Error loading selector profiles:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+}) as RequestHandler);
+
+/**
+ * @route POST /api/articles/selector-profiles/reload
+ * @desc Ponownie wczytuje plik z profilami selektorów bez restartu serwera
+ * @access Public (should be restricted in production)
+ */
+router.post('/selector-profiles/reload', ((_req: Request, res: Response) => {
+  try {
+    reloadSelectorProfiles();
+    return res.status(200).json({
+      active: getActiveSelectorProfile(),
+      profiles: listSelectorProfiles()
+    });
+  } catch (error) {
+    console.error('Error reloading selector profiles:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+}) as RequestHandler);
+
+/**
+ * @route GET /api/articles/fixtures
+ * @desc Zwraca tryb fixture'ów scrapera i listę zapisanych snapshotów HTML
+ * @access Public
+ */
+router.get('/fixtures', ((_req: Request, res: Response) => {
+  res.status(200).json({
+    mode: getFixtureMode(),
+    fixtureDir: getFixtureDir(),
+    fixtures: listFixtures()
+  });
+}) as RequestHandler);
+
+/**
+ * @route POST /api/articles/fixtures/record
+ * @desc Pobiera strony z Pepper.pl na żywo i zapisuje je jako snapshoty do trybu offline
+ * @access Public (should be restricted in production)
+ * @query {number} pages - Liczba stron do nagrania (domyślnie 1)
+ * @query {string} site - Serwis sieci Pepper (domyślnie z konfiguracji)
+ */
+router.post('/fixtures/record', (async (req: Request<{}, any, {}, ArticlesRequestQuery>, res: Response) => {
+  try {
+    const pagesToRecord = parseInt(req.query.pages as string || '1', 10);
+    const site = req.query.site;
+
+    if (Number.isNaN(pagesToRecord) || pagesToRecord < 1) {
+      return res.status(400).json({
+        error: 'Invalid request: pages must be a positive integer'
+      });
+    }
+
+    if (site && !isKnownSite(site)) {
+      return res.status(400).json({
+        error: `Invalid request: ${unknownSiteMessage(site)}`
+      });
+    }
+
+    const result = await articlesService.recordFixtures(pagesToRecord, site);
+
+    return res.status(200).json(result);
+  } catch (error) {
+    console.error('Error recording fixtures:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+}) as RequestHandler);
+
 export default router; 
\ No newline at end of file
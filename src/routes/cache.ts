@@ -1,9 +1,13 @@
 import express from 'express';
 import { Request, Response, CacheQueryParams, LookupRequestBody, RequestHandler } from '../types/express';
 import supabaseService from '../services/supabase';
+import categoriesService from '../services/categoriesService';
 import { ERROR_CODES } from '../constants';
-import { serviceClient, createUniqueId, toArticle } from '../lib/supabase';
+import { serviceClient, createUniqueId, toArticle, toCategoryLabels } from '../lib/supabase';
 import { Article } from '../types';
+import { isKnownSite, unknownSiteMessage } from '../lib/sites';
+import { parseMerchantFilter } from '../lib/merchants';
+import { createLegacyArticleId } from '../lib/links';
 
 const router = express.Router();
 
@@ -34,39 +38,55 @@ router.post('/lookup', (async (req: Request<{}, any, LookupRequestBody>, res: Re
     const articleIds = links.map(link => createUniqueId(link));
     
     // Process in batches to avoid potential Supabase limitations
-    const batchSize = 100;
+    const batchSize = 200;
     let allData: any[] = [];
     
-    for (let i = 0; i < articleIds.length; i += batchSize) {
-      const batchIds = articleIds.slice(i, i + batchSize);
-      
-      const { data, error } = await serviceClient
-        .from('categorized_articles')
-        .select('*')
-        .in('article_id', batchIds);
+    const findByColumn = async (column: string, ids: string[]) => {
+      for (let i = 0; i < ids.length; i += batchSize) {
+        const batchIds = ids.slice(i, i + batchSize);
         
-      if (error) {
-        console.error('Supabase query error:', error);
-        continue; // Continue with next batch
-      }
-      
-      if (data && data.length > 0) {
-        allData = [...allData, ...data];
+        const { data, error } = await serviceClient
+          .from('categorized_articles')
+          .select('*')
+          .in(column, batchIds);
+          
+        if (error) {
+          console.error('Supabase query error:', error);
+          continue; // Continue with next batch
+        }
+        
+        if (data && data.length > 0) {
+          allData = [...allData, ...data];
+        }
       }
-    }
+    };
+    
+    await findByColumn('article_id', articleIds);
+    
+    // Linki bez trafienia szukamy jeszcze po dawnym identyfikatorze Base64
+    const foundIds = new Set(allData.map(item => item.article_id));
+    const legacyIds = links
+      .filter((_link, index) => !foundIds.has(articleIds[index]))
+      .map(link => createLegacyArticleId(link));
+    await findByColumn('legacy_article_id', legacyIds);
+    
+    // Ten sam wiersz może pasować do kilku linków
+    allData = Array.from(new Map(allData.map(item => [item.article_id, item])).values());
     
     // Convert Supabase records to our application's format
     const cachedArticles: Record<string, Article[]> = {};
     
     allData.forEach((cachedArticle) => {
       const article = toArticle(cachedArticle);
-      const category = cachedArticle.category;
       
-      if (!cachedArticles[category]) {
-        cachedArticles[category] = [];
+      // Artykuł trafia też do kategorii z etykiet dodatkowych
+      for (const category of toCategoryLabels(cachedArticle)) {
+        if (!cachedArticles[category]) {
+          cachedArticles[category] = [];
+        }
+        
+        cachedArticles[category].push(article);
       }
-      
-      cachedArticles[category].push(article);
     });
     
     // Get cached article links for the response
@@ -91,10 +111,32 @@ router.post('/lookup', (async (req: Request<{}, any, LookupRequestBody>, res: Re
  * @access Public
  * @query {number} days - Number of days of data to retrieve (default: 7)
  * @query {number} limit - Maximum number of results to return (default: 500)
+ * @query {string} site - Only return articles of this Pepper-network site (default: all sites)
+ * @query {boolean} includeExpired - Whether to include expired deals (default: false)
+ * @query {string} merchant - Only return deals of these merchants, comma separated (e.g. allegro,x-kom)
+ * @query {string} excludeMerchant - Hide deals of these merchants, comma separated
+ * @query {number} minConfidence - Minimum confidence (0-1) of the primary category; also applies to secondary labels
  */
 router.get('/', (async (req: Request<{}, any, {}, CacheQueryParams>, res: Response) => {
   try {
     const days = parseInt(req.query.days as string || '7', 10);
+    const site = req.query.site;
+    const includeExpired = req.query.includeExpired === 'true';
+    const merchants = parseMerchantFilter(req.query.merchant);
+    const excludeMerchants = parseMerchantFilter(req.query.excludeMerchant);
+    const minConfidence = req.query.minConfidence !== undefined ? parseFloat(req.query.minConfidence) : undefined;
+
+    if (site && !isKnownSite(site)) {
+      return res.status(400).json({
+        error: `Invalid request: ${unknownSiteMessage(site)}`
+      });
+    }
+
+    if (minConfidence !== undefined && !(minConfidence >= 0 && minConfidence <= 1)) {
+      return res.status(400).json({
+        error: 'Invalid request: minConfidence must be a number between 0 and 1'
+      });
+    }
     
     // Check if Supabase is configured
     if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_KEY) {
@@ -110,11 +152,33 @@ router.get('/', (async (req: Request<{}, any, {}, CacheQueryParams>, res: Respon
     
     console.log(`Fetching articles from cache not older than ${days} days (from ${oldestDateIso})`);
     
-    const { data, error } = await serviceClient
+    let query = serviceClient
       .from('categorized_articles')
       .select('*')
-      .gte('created_at', oldestDateIso)
-      .order('created_at', { ascending: false });
+      .gte('created_at', oldestDateIso);
+
+    if (site) {
+      query = query.eq('site', site);
+    }
+
+    if (!includeExpired) {
+      query = query.neq('status', 'expired');
+    }
+
+    if (merchants.length > 0) {
+      query = query.in('merchant_id', merchants);
+    }
+
+    if (excludeMerchants.length > 0) {
+      // NOT IN alone would also hide deals without a merchant
+      query = query.or(`merchant_id.is.null,merchant_id.not.in.(${excludeMerchants.join(',')})`);
+    }
+
+    if (minConfidence !== undefined) {
+      query = query.gte('confidence', minConfidence);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
       
     if (error) {
       console.error('Supabase query error:', error);
@@ -128,13 +192,15 @@ router.get('/', (async (req: Request<{}, any, {}, CacheQueryParams>, res: Respon
     
     (data || []).forEach((cachedArticle) => {
       const article = toArticle(cachedArticle);
-      const category = cachedArticle.category;
       
-      if (!categorizedArticles[category]) {
-        categorizedArticles[category] = [];
+      // Artykuł trafia też do kategorii z etykiet dodatkowych (powyżej minConfidence)
+      for (const category of toCategoryLabels(cachedArticle, minConfidence)) {
+        if (!categorizedArticles[category]) {
+          categorizedArticles[category] = [];
+        }
+        
+        categorizedArticles[category].push(article);
       }
-      
-      categorizedArticles[category].push(article);
     });
     
     // Calculate some stats
@@ -148,7 +214,12 @@ router.get('/', (async (req: Request<{}, any, {}, CacheQueryParams>, res: Respon
         categories,
         categoriesCount: categories.length,
         daysRetrieved: days,
-        fromDate: oldestDateIso
+        fromDate: oldestDateIso,
+        includeExpired,
+        ...(merchants.length ? { merchants } : {}),
+        ...(excludeMerchants.length ? { excludeMerchants } : {}),
+        ...(minConfidence !== undefined ? { minConfidence } : {}),
+        ...(site ? { site } : {})
       }
     });
   } catch (error) {
@@ -317,15 +388,25 @@ router.get('/stats', (async (req: Request, res: Response) => {
 
 /**
  * @route GET /api/cache/category/:category
- * @desc Get categorized articles from a specific category
+ * @desc Get categorized articles from a specific category; a top-level category includes the articles of all its subcategories
  * @access Public
- * @param {string} category - Category to filter by
+ * @param {string} category - Category (or subcategory) name or slug to filter by
  * @query {number} days - Number of days of data to retrieve (default: 7)
+ * @query {boolean} includeExpired - Whether to include expired deals (default: false)
+ * @query {number} minConfidence - Minimum confidence (0-1) of the label the article is listed under
  */
 router.get('/category/:category', (async (req: Request<{category: string}, any, {}, CacheQueryParams>, res: Response) => {
   try {
     const { category } = req.params;
     const days = parseInt(req.query.days as string || '7', 10);
+    const includeExpired = req.query.includeExpired === 'true';
+    const minConfidence = req.query.minConfidence !== undefined ? parseFloat(req.query.minConfidence) : undefined;
+
+    if (minConfidence !== undefined && !(minConfidence >= 0 && minConfidence <= 1)) {
+      return res.status(400).json({
+        error: 'Invalid request: minConfidence must be a number between 0 and 1'
+      });
+    }
     
     // Check if Supabase is configured
     if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_KEY) {
@@ -339,14 +420,35 @@ router.get('/category/:category', (async (req: Request<{category: string}, any,
     oldestDate.setDate(oldestDate.getDate() - days);
     const oldestDateIso = oldestDate.toISOString();
     
-    console.log(`Fetching ${category} articles from cache not older than ${days} days (from ${oldestDateIso})`);
+    // Podkategoria jest zapisana w kolumnie subcategory, kategoria główna obejmuje też artykuły podkategorii
+    const taxonomy = await categoriesService.getTaxonomy();
+    const node = categoriesService.findCategory(taxonomy, category);
+    const parent = node?.parentSlug ? taxonomy.find(other => other.slug === node.parentSlug) || null : null;
+    const categoryName = node?.name || category;
+    const subcategories = node && !parent ? categoriesService.getSubcategories(taxonomy, node.slug) : [];
     
-    const { data, error } = await serviceClient
+    console.log(`Fetching ${categoryName} articles from cache not older than ${days} days (from ${oldestDateIso})`);
+    
+    let query = serviceClient
       .from('categorized_articles')
       .select('*')
-      .eq('category', category)
-      .gte('created_at', oldestDateIso)
-      .order('created_at', { ascending: false });
+      .gte('created_at', oldestDateIso);
+
+    if (!includeExpired) {
+      query = query.neq('status', 'expired');
+    }
+
+    if (parent) {
+      query = query.eq('subcategory', categoryName);
+      if (minConfidence !== undefined) {
+        query = query.gte('confidence', minConfidence);
+      }
+    } else {
+      // Kategoria główna lub etykieta dodatkowa (pewność etykiety sprawdzana niżej)
+      query = query.or(`category.eq."${categoryName}",secondary_categories.cs.{"${categoryName}"}`);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
       
     if (error) {
       console.error(`Supabase query error for category ${category}:`, error);
@@ -356,14 +458,26 @@ router.get('/category/:category', (async (req: Request<{category: string}, any,
     }
     
     // Convert Supabase records to our application's format
-    const articles: Article[] = (data || []).map(cachedArticle => toArticle(cachedArticle));
+    const articles: Article[] = (data || [])
+      .filter(cachedArticle => parent || minConfidence === undefined || (cachedArticle.category === categoryName
+        ? (cachedArticle.confidence ?? 0) >= minConfidence
+        : toCategoryLabels(cachedArticle, minConfidence).includes(categoryName)))
+      .map(cachedArticle => toArticle(cachedArticle));
     
     return res.status(200).json({
-      category,
+      category: categoryName,
+      parentCategory: parent?.name || null,
+      subcategories: subcategories.map(subcategory => ({
+        name: subcategory.name,
+        slug: subcategory.slug,
+        count: articles.filter(article => article.subcategory === subcategory.name).length
+      })),
       articles,
       count: articles.length,
       daysRetrieved: days,
-      fromDate: oldestDateIso
+      fromDate: oldestDateIso,
+      includeExpired,
+      ...(minConfidence !== undefined ? { minConfidence } : {})
     });
   } catch (error) {
     console.error('Error in category cache retrieval:', error);
@@ -1,7 +1,15 @@
 import express from 'express';
 import { Request, Response, CategorizeRequestBody, RequestHandler } from '../types/express';
 import categorizeService from '../services/categorizeService';
+import categoriesService, { CategoryInput } from '../services/categoriesService';
+import categoryCorrectionsService, { CategoryOverrideInput } from '../services/categoryCorrectionsService';
+import classifierService from '../services/classifierService';
+import categoryRulesService, { CategoryRuleInput } from '../services/categoryRulesService';
+import evaluationService, { EvaluationInput } from '../services/evaluationService';
+import supabaseService from '../services/supabase';
+import config from '../config';
 import { Article } from '../lib/scraper';
+import { requireAdminToken, getAdminActor } from '../lib/adminAuth';
 
 const router = express.Router();
 
@@ -40,11 +48,448 @@ router.post('/', (async (req: Request<{}, any, CategorizeRequestBody>, res: Resp
 
 /**
  * @route GET /api/categorize/categories
- * @desc Returns predefined categories
+ * @desc Zwraca taksonomię kategorii: nazwy kategorii głównych, pełne definicje i drzewo z podkategoriami
  * @access Public
  */
-router.get('/categories', ((_req: Request, res: Response) => {
-  res.json({ categories: categorizeService.getCategories() });
+router.get('/categories', (async (_req: Request, res: Response) => {
+  try {
+    const taxonomy = await categoriesService.getTaxonomy();
+    const tree = categoriesService.buildCategoryTree(taxonomy);
+
+    return res.json({
+      categories: tree.map(category => category.name),
+      definitions: taxonomy,
+      tree
+    });
+  } catch (error) {
+    console.error('Error reading categories:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+}) as RequestHandler);
+
+/**
+ * @route GET /api/categorize/categories/:slug
+ * @desc Zwraca definicję kategorii wraz z jej podkategoriami
+ * @access Public
+ * @param {string} slug - Slug lub nazwa kategorii
+ */
+router.get('/categories/:slug', (async (req: Request<{ slug: string }>, res: Response) => {
+  try {
+    const taxonomy = await categoriesService.getTaxonomy();
+    const category = categoriesService.findCategory(taxonomy, req.params.slug);
+    if (!category) {
+      return res.status(404).json({ error: `Category not found: ${req.params.slug}` });
+    }
+
+    return res.json({
+      category,
+      subcategories: categoriesService.getSubcategories(taxonomy, category.slug)
+    });
+  } catch (error) {
+    console.error('Error reading category:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+}) as RequestHandler<{ slug: string }>);
+
+/**
+ * @route POST /api/categorize/categories
+ * @desc Dodaje kategorię do taksonomii
+ * @access Admin (Authorization: Bearer ADMIN_API_TOKEN)
+ * @body {string} name - Nazwa kategorii (wymagana)
+ * @body {string} slug - Identyfikator (domyślnie tworzony z nazwy)
+ * @body {string} description - Opis dołączany do promptu AI
+ * @body {number} displayOrder - Pozycja na liście
+ * @body {Array} keywords - Słowa kluczowe kategoryzacji bez AI
+ * @body {boolean} isFallback - Czy to kategoria dla artykułów niepasujących do innych
+ * @body {string} parentSlug - Slug kategorii nadrzędnej (podkategoria) lub null
+ */
+router.post('/categories', requireAdminToken, (async (req: Request<{}, any, CategoryInput>, res: Response) => {
+  try {
+    const input = req.body || {};
+    const validationError = categoriesService.validateCategoryInput(input, await categoriesService.getTaxonomy());
+    if (validationError) {
+      return res.status(400).json({ error: `Invalid request: ${validationError}` });
+    }
+
+    const category = await categoriesService.createCategory(input);
+    return res.status(201).json({ category });
+  } catch (error) {
+    console.error('Error creating category:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+}) as RequestHandler);
+
+/**
+ * @route PUT /api/categorize/categories/:slug
+ * @desc Zmienia kategorię; zmiana nazwy lub kategorii nadrzędnej przenosi też zapisane artykuły
+ * @access Admin (Authorization: Bearer ADMIN_API_TOKEN)
+ * @param {string} slug - Slug lub nazwa kategorii
+ * @body {Object} - Zmieniane pola (jak przy POST)
+ */
+router.put('/categories/:slug', requireAdminToken, (async (req: Request<{ slug: string }, any, CategoryInput>, res: Response) => {
+  try {
+    const input = req.body || {};
+    const taxonomy = await categoriesService.getTaxonomy();
+    const existing = categoriesService.findCategory(taxonomy, req.params.slug);
+    if (!existing) {
+      return res.status(404).json({ error: `Category not found: ${req.params.slug}` });
+    }
+
+    const validationError = categoriesService.validateCategoryInput(input, taxonomy, existing);
+    if (validationError) {
+      return res.status(400).json({ error: `Invalid request: ${validationError}` });
+    }
+
+    const category = await categoriesService.updateCategory(existing, input);
+    return res.json({ category });
+  } catch (error) {
+    console.error('Error updating category:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+}) as RequestHandler<{ slug: string }>);
+
+/**
+ * @route DELETE /api/categorize/categories/:slug
+ * @desc Usuwa kategorię; artykuły podkategorii zostają w kategorii nadrzędnej, artykuły kategorii głównej trafiają do kategorii zapasowej
+ * @access Admin (Authorization: Bearer ADMIN_API_TOKEN)
+ * @param {string} slug - Slug lub nazwa kategorii
+ */
+router.delete('/categories/:slug', requireAdminToken, (async (req: Request<{ slug: string }>, res: Response) => {
+  try {
+    const taxonomy = await categoriesService.getTaxonomy();
+    const existing = categoriesService.findCategory(taxonomy, req.params.slug);
+    if (!existing) {
+      return res.status(404).json({ error: `Category not found: ${req.params.slug}` });
+    }
+    if (existing.isFallback) {
+      return res.status(400).json({ error: 'Invalid request: the fallback category cannot be deleted' });
+    }
+    if (categoriesService.getSubcategories(taxonomy, existing.slug).length > 0) {
+      return res.status(400).json({ error: `Invalid request: category "${existing.slug}" has subcategories, delete or move them first` });
+    }
+
+    const movedTo = await categoriesService.deleteCategory(existing);
+    return res.json({ deleted: existing.slug, movedArticlesTo: movedTo });
+  } catch (error) {
+    console.error('Error deleting category:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+}) as RequestHandler<{ slug: string }>);
+
+/**
+ * @route GET /api/categorize/rules
+ * @desc Zwraca reguły kategoryzacji bez AI (słowa kluczowe, frazy, wyrażenia regularne, sklepy)
+ * @access Public
+ * @query {string} category - Slug kategorii (opcjonalnie)
+ */
+router.get('/rules', (async (req: Request, res: Response) => {
+  try {
+    const category = typeof req.query.category === 'string' ? req.query.category.toLowerCase() : null;
+    const rules = await categoryRulesService.getRules();
+    return res.json({ rules: category ? rules.filter(rule => rule.categorySlug === category) : rules });
+  } catch (error) {
+    console.error('Error getting category rules:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+}) as RequestHandler);
+
+/**
+ * @route POST /api/categorize/rules
+ * @desc Dodaje regułę kategoryzacji
+ * @access Admin (Authorization: Bearer ADMIN_API_TOKEN)
+ * @body {string} categorySlug - Slug kategorii lub podkategorii (wymagany)
+ * @body {string} type - keyword (słowo lub fraza), regex lub merchant (domyślnie keyword)
+ * @body {string} pattern - Słowo kluczowe, wyrażenie regularne lub sklep (wymagany)
+ * @body {number} weight - Punkty za dopasowanie, ujemne odejmują punkty (domyślnie 1)
+ * @body {string} field - any, title lub description (domyślnie any)
+ * @body {string} locale - Język strony, np. pl (domyślnie wszystkie)
+ * @body {string} id - Identyfikator (domyślnie losowy)
+ */
+router.post('/rules', requireAdminToken, (async (req: Request<{}, any, CategoryRuleInput>, res: Response) => {
+  try {
+    const input = req.body || {};
+    const validationError = categoryRulesService.validateRuleInput(
+      input,
+      await categoriesService.getTaxonomy(),
+      await categoryRulesService.getRules()
+    );
+    if (validationError) {
+      return res.status(400).json({ error: `Invalid request: ${validationError}` });
+    }
+
+    const rule = await categoryRulesService.createRule(input);
+    return res.status(201).json({ rule });
+  } catch (error) {
+    console.error('Error creating category rule:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+}) as RequestHandler);
+
+/**
+ * @route PUT /api/categorize/rules/:id
+ * @desc Zmienia regułę kategoryzacji
+ * @access Admin (Authorization: Bearer ADMIN_API_TOKEN)
+ * @param {string} id - Identyfikator reguły
+ * @body {Object} - Zmieniane pola (jak przy POST)
+ */
+router.put('/rules/:id', requireAdminToken, (async (req: Request<{ id: string }, any, CategoryRuleInput>, res: Response) => {
+  try {
+    const input = req.body || {};
+    const rules = await categoryRulesService.getRules();
+    const existing = categoryRulesService.findRule(rules, req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: `Rule not found: ${req.params.id}` });
+    }
+
+    const validationError = categoryRulesService.validateRuleInput(input, await categoriesService.getTaxonomy(), rules, existing);
+    if (validationError) {
+      return res.status(400).json({ error: `Invalid request: ${validationError}` });
+    }
+
+    const rule = await categoryRulesService.updateRule(existing, input);
+    return res.json({ rule });
+  } catch (error) {
+    console.error('Error updating category rule:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+}) as RequestHandler<{ id: string }>);
+
+/**
+ * @route DELETE /api/categorize/rules/:id
+ * @desc Usuwa regułę kategoryzacji
+ * @access Admin (Authorization: Bearer ADMIN_API_TOKEN)
+ * @param {string} id - Identyfikator reguły
+ */
+router.delete('/rules/:id', requireAdminToken, (async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const existing = categoryRulesService.findRule(await categoryRulesService.getRules(), req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: `Rule not found: ${req.params.id}` });
+    }
+
+    await categoryRulesService.deleteRule(existing);
+    return res.json({ deleted: existing.id });
+  } catch (error) {
+    console.error('Error deleting category rule:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+}) as RequestHandler<{ id: string }>);
+
+/**
+ * @route PUT /api/categorize/articles/:articleId/category
+ * @desc Ręcznie zmienia kategorię zapisanego artykułu i zapisuje zmianę w historii korekt;
+ *       zablokowanej kategorii nie nadpisuje kolejna kategoryzacja
+ * @access Admin (Authorization: Bearer ADMIN_API_TOKEN lub token z ADMIN_API_TOKENS)
+ * @param {string} articleId - Identyfikator artykułu (article_id lub dawny identyfikator Base64)
+ * @body {string} category - Nowa kategoria lub podkategoria (nazwa, slug lub "Rodzic > Podkategoria")
+ * @body {Array} secondaryCategories - Dodatkowe kategorie główne (domyślnie bez zmian)
+ * @body {boolean} lock - Czy zablokować kategorię (domyślnie bez zmian)
+ * @body {string} reason - Powód zmiany
+ */
+router.put('/articles/:articleId/category', requireAdminToken, (async (req: Request<{ articleId: string }, any, Partial<CategoryOverrideInput>>, res: Response) => {
+  try {
+    if (!supabaseService.isConfigured()) {
+      return res.status(503).json({
+        error: 'Category corrections unavailable: Supabase not configured'
+      });
+    }
+
+    const input = req.body || {};
+    const validationError = await categoryCorrectionsService.validateOverrideInput(input);
+    if (validationError) {
+      return res.status(400).json({ error: `Invalid request: ${validationError}` });
+    }
+
+    const current = await categoryCorrectionsService.getArticleCategory(req.params.articleId);
+    if (!current) {
+      return res.status(404).json({ error: `Article not found: ${req.params.articleId}` });
+    }
+
+    // Autorem zmiany jest właściciel tokenu, nie wartość podana w treści żądania
+    const correction = await categoryCorrectionsService.overrideCategory(current, {
+      ...input,
+      changedBy: getAdminActor(res)
+    } as CategoryOverrideInput);
+    return res.json({ correction });
+  } catch (error) {
+    console.error('Error overriding article category:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+}) as RequestHandler<{ articleId: string }>);
+
+/**
+ * @route GET /api/categorize/articles/:articleId/history
+ * @desc Zwraca historię ręcznych zmian kategorii artykułu (od najnowszej)
+ * @access Public
+ * @param {string} articleId - Identyfikator artykułu (article_id lub dawny identyfikator Base64)
+ */
+router.get('/articles/:articleId/history', (async (req: Request<{ articleId: string }>, res: Response) => {
+  try {
+    if (!supabaseService.isConfigured()) {
+      return res.status(503).json({
+        error: 'Category corrections unavailable: Supabase not configured'
+      });
+    }
+
+    const current = await categoryCorrectionsService.getArticleCategory(req.params.articleId);
+    if (!current) {
+      return res.status(404).json({ error: `Article not found: ${req.params.articleId}` });
+    }
+
+    const corrections = await categoryCorrectionsService.getCorrections(current.article_id);
+    return res.json({
+      articleId: current.article_id,
+      category: current.category,
+      subcategory: current.subcategory ?? null,
+      locked: !!current.category_locked,
+      corrections
+    });
+  } catch (error) {
+    console.error('Error getting category corrections:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+}) as RequestHandler<{ articleId: string }>);
+
+/**
+ * @route GET /api/categorize/classifier
+ * @desc Zwraca stan lokalnego klasyfikatora (czy jest wytrenowany, liczba artykułów na etykietę)
+ * @access Public
+ */
+router.get('/classifier', (async (_req: Request, res: Response) => {
+  try {
+    return res.json(classifierService.getClassifierStatus());
+  } catch (error) {
+    console.error('Error getting classifier status:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+}) as RequestHandler);
+
+/**
+ * @route POST /api/categorize/classifier/train
+ * @desc Trenuje (ponownie) lokalny klasyfikator na artykułach zapisanych w categorized_articles
+ *       i zapisuje model na dysku
+ * @access Admin (Authorization: Bearer ADMIN_API_TOKEN)
+ */
+router.post('/classifier/train', requireAdminToken, (async (_req: Request, res: Response) => {
+  try {
+    if (!supabaseService.isConfigured()) {
+      return res.status(503).json({
+        error: 'Classifier training unavailable: Supabase not configured'
+      });
+    }
+
+    const result = await classifierService.trainClassifier();
+    if (!result) {
+      return res.status(400).json({
+        error: `Invalid request: at least ${config.API.CATEGORIZATION.CLASSIFIER.MIN_TRAINING_ARTICLES} categorized articles are needed to train the classifier`
+      });
+    }
+
+    return res.json(result);
+  } catch (error) {
+    console.error('Error training classifier:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+}) as RequestHandler);
+
+/**
+ * @route GET /api/categorize/evaluation/dataset
+ * @desc Zwraca plik i rozmiar zbioru testowego oraz liczbę artykułów w każdej kategorii
+ *       (smoke: true dla syntetycznego zbioru używanego przed importem)
+ * @access Public
+ */
+router.get('/evaluation/dataset', (async (_req: Request, res: Response) => {
+  try {
+    return res.json(evaluationService.getDatasetSummary());
+  } catch (error) {
+    console.error('Error reading evaluation dataset:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+}) as RequestHandler);
+
+/**
+ * @route POST /api/categorize/evaluation/dataset/import
+ * @desc Dodaje do importowanego zbioru testowego (CATEGORIZATION_EVALUATION_DATASET, poza repozytorium)
+ *       ręcznie zweryfikowane artykuły z categorized_articles (zablokowane kategorie i artykuły z historią poprawek)
+ * @access Admin (Authorization: Bearer ADMIN_API_TOKEN)
+ */
+router.post('/evaluation/dataset/import', requireAdminToken, (async (_req: Request, res: Response) => {
+  try {
+    if (!supabaseService.isConfigured()) {
+      return res.status(503).json({
+        error: 'Dataset import unavailable: Supabase not configured'
+      });
+    }
+
+    return res.json(await evaluationService.importDataset());
+  } catch (error) {
+    console.error('Error importing evaluation dataset:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+}) as RequestHandler);
+
+/**
+ * @route POST /api/categorize/evaluation
+ * @desc Uruchamia strategię kategoryzacji na zbiorze testowym i zwraca raport
+ *       (dokładność, precyzja i czułość kategorii, macierz pomyłek)
+ * @body {string} strategy - keywords, classifier, offline lub ai
+ * @body {number} [limit] - Maksymalna liczba artykułów ze zbioru
+ * @access Admin (Authorization: Bearer ADMIN_API_TOKEN)
+ */
+router.post('/evaluation', requireAdminToken, (async (req: Request<{}, any, Partial<EvaluationInput>>, res: Response) => {
+  try {
+    const { strategy, limit } = req.body || {};
+
+    const strategyError = evaluationService.validateStrategy(strategy);
+    if (strategyError) {
+      return res.status(400).json({ error: `Invalid request: ${strategyError}` });
+    }
+    if (limit !== undefined && (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1)) {
+      return res.status(400).json({ error: 'Invalid request: limit must be a positive integer' });
+    }
+    if (evaluationService.loadDataset().length === 0) {
+      return res.status(400).json({
+        error: 'Invalid request: the evaluation dataset is empty (POST /api/categorize/evaluation/dataset/import)'
+      });
+    }
+
+    return res.json(await evaluationService.evaluateStrategy(strategy!, limit));
+  } catch (error) {
+    console.error('Error evaluating categorizer:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
 }) as RequestHandler);
 
 export default router; 
\ No newline at end of file
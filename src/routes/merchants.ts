@@ -0,0 +1,48 @@
+import express from 'express';
+import { Request, Response, CacheQueryParams, RequestHandler } from '../types/express';
+import articlesService from '../services/articlesService';
+import { isKnownSite, unknownSiteMessage } from '../lib/sites';
+
+const router = express.Router();
+
+/**
+ * @route GET /api/merchants
+ * @desc Zwraca sklepy z liczbą okazji zapisanych w cache (nazwy ujednolicone według config/merchants.json)
+ * @access Public
+ * @query {number} days - Liczba dni danych do zliczenia (domyślnie 7)
+ * @query {string} site - Tylko okazje z danego serwisu sieci Pepper (domyślnie wszystkie)
+ * @query {boolean} includeExpired - Czy liczyć także wygasłe okazje (domyślnie false)
+ */
+router.get('/', (async (req: Request<{}, any, {}, CacheQueryParams>, res: Response) => {
+  try {
+    const days = parseInt(req.query.days as string || '7', 10);
+    const site = req.query.site;
+    const includeExpired = req.query.includeExpired === 'true';
+
+    if (site && !isKnownSite(site)) {
+      return res.status(400).json({
+        error: `Invalid request: ${unknownSiteMessage(site)}`
+      });
+    }
+
+    const merchants = await articlesService.listMerchants({ days, site, includeExpired });
+
+    return res.status(200).json({
+      merchants,
+      stats: {
+        totalMerchants: merchants.length,
+        totalDeals: merchants.reduce((sum, merchant) => sum + merchant.deals, 0),
+        daysRetrieved: days,
+        includeExpired,
+        ...(site ? { site } : {})
+      }
+    });
+  } catch (error) {
+    console.error('Error listing merchants:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+}) as RequestHandler);
+
+export default router;
@@ -0,0 +1,77 @@
+import supabaseService, { CategorizedArticle } from '../services/supabase';
+import { normalizeMerchant } from '../lib/merchants';
+
+const PAGE_SIZE = 1000;
+const USAGE = 'Usage: npm run backfill:merchants -- [--dry-run]';
+
+/**
+ * Collect the stored merchant names with the merchant ids stored next to them
+ * @returns Merchant ids by stored merchant name
+ */
+async function loadStoredMerchants(): Promise<Map<string, Set<string | null>>> {
+  const merchants = new Map<string, Set<string | null>>();
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const rows = await supabaseService.getData<Pick<CategorizedArticle, 'merchant' | 'merchant_id'>>('categorized_articles', {
+      select: 'merchant, merchant_id',
+      filter: { column: 'merchant', operator: 'not.is', value: null },
+      order: { column: 'article_id' },
+      limit: PAGE_SIZE,
+      offset
+    });
+
+    rows.forEach(row => {
+      const ids = merchants.get(row.merchant!) || new Set<string | null>();
+      ids.add(row.merchant_id ?? null);
+      merchants.set(row.merchant!, ids);
+    });
+
+    if (rows.length < PAGE_SIZE) {
+      return merchants;
+    }
+  }
+}
+
+/**
+ * Store the canonical merchant of every cached deal, the same way new deals are saved
+ * (run once after sql/migrations/007_add_merchant_id.sql; running it again only fixes what changed)
+ */
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const unknownArg = args.find(arg => arg !== '--dry-run');
+  if (unknownArg) {
+    throw new Error(`Unknown argument: ${unknownArg}\n${USAGE}`);
+  }
+  const dryRun = args.includes('--dry-run');
+
+  if (!supabaseService.isConfigured()) {
+    throw new Error('Merchant backfill unavailable: Supabase not configured');
+  }
+
+  const merchants = await loadStoredMerchants();
+  console.log(`Found ${merchants.size} distinct merchant names`);
+
+  let updated = 0;
+  for (const [stored, ids] of merchants) {
+    const merchant = normalizeMerchant(stored);
+    if (!merchant || (merchant.name === stored && ids.size === 1 && ids.has(merchant.id))) {
+      continue;
+    }
+
+    console.log(`${stored} -> ${merchant.name} (${merchant.id})${merchant.known ? '' : ' [not in the merchant table]'}`);
+    if (!dryRun) {
+      // Jedno zapytanie na nazwę sklepu zamiast na każdy wiersz
+      await supabaseService.updateData('categorized_articles', { merchant: merchant.name, merchant_id: merchant.id }, { merchant: stored });
+    }
+    updated++;
+  }
+
+  console.log(`${dryRun ? 'Would update' : 'Updated'} the deals of ${updated} merchant names`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -0,0 +1,131 @@
+import fs from 'fs';
+import path from 'path';
+import evaluationService, { EvaluationReport, EvaluationStrategy } from '../services/evaluationService';
+import supabaseService from '../services/supabase';
+
+/**
+ * Command line options
+ */
+interface CliOptions {
+  strategies: string[];
+  importDataset: boolean;
+  limit?: number;
+  output?: string;
+}
+
+const USAGE = 'Usage: npm run evaluate -- [--strategy keywords,offline] [--import] [--limit N] [--output report.json]';
+
+/**
+ * Parse the command line arguments
+ * @param args - Arguments after the script name
+ * @returns Options
+ */
+function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = { strategies: ['keywords'], importDataset: false };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--strategy':
+        options.strategies = (args[++i] || '').split(',').map(value => value.trim()).filter(Boolean);
+        break;
+      case '--import':
+        options.importDataset = true;
+        break;
+      case '--limit':
+        options.limit = parseInt(args[++i] || '', 10);
+        break;
+      case '--output':
+        options.output = args[++i];
+        break;
+      default:
+        throw new Error(`Unknown argument: ${args[i]}\n${USAGE}`);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Format a ratio as a percentage
+ * @param value - Ratio or null
+ * @returns Percentage text
+ */
+function percent(value: number | null): string {
+  return value === null ? '-' : `${(value * 100).toFixed(1)}%`;
+}
+
+/**
+ * Print a report as tables
+ * @param report - Evaluation report
+ */
+function printReport(report: EvaluationReport): void {
+  console.log(`\n=== ${report.strategy} ===`);
+  console.log(`Accuracy: ${percent(report.accuracy)} (${report.correct}/${report.total}), subcategory accuracy: ${percent(report.subcategoryAccuracy)}, macro F1: ${percent(report.macroF1)}, without prediction: ${report.unpredicted}${report.strategy === 'ai' ? ` (AI fallbacks: ${report.aiFallbacks})` : ''}, ${report.durationMs} ms`);
+
+  console.table(Object.fromEntries(Object.entries(report.categories).map(([category, metrics]) => [category, {
+    support: metrics.support,
+    predicted: metrics.predicted,
+    precision: percent(metrics.precision),
+    recall: percent(metrics.recall),
+    f1: percent(metrics.f1)
+  }])));
+
+  // Wiersze: oczekiwana kategoria, kolumny: przewidziana kategoria
+  const columns = Array.from(new Set(Object.values(report.confusionMatrix).flatMap(row => Object.keys(row)))).sort();
+  console.table(Object.fromEntries(Object.entries(report.confusionMatrix).sort().map(([expected, row]) => [
+    expected,
+    Object.fromEntries(columns.map(column => [column, row[column] || 0]))
+  ])));
+}
+
+/**
+ * Run the evaluation from the command line
+ */
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  if (options.limit !== undefined && (!Number.isInteger(options.limit) || options.limit < 1)) {
+    throw new Error('--limit must be a positive integer');
+  }
+
+  if (options.importDataset) {
+    if (!supabaseService.isConfigured()) {
+      throw new Error('Dataset import unavailable: Supabase not configured');
+    }
+    await evaluationService.importDataset();
+  }
+
+  const dataset = evaluationService.getDatasetSummary();
+  if (dataset.total === 0) {
+    throw new Error(`The evaluation dataset ${dataset.file} is empty, run with --import first`);
+  }
+  console.log(`Evaluating ${options.limit ? Math.min(options.limit, dataset.total) : dataset.total} articles from ${dataset.file}`);
+  if (dataset.smoke) {
+    console.warn('This is the synthetic smoke dataset: it only checks that the strategies run, import the verified articles with --import to measure them');
+  }
+
+  const reports: EvaluationReport[] = [];
+  for (const strategy of options.strategies) {
+    const strategyError = evaluationService.validateStrategy(strategy);
+    if (strategyError) {
+      console.error(`Skipping ${strategy}: ${strategyError}`);
+      continue;
+    }
+
+    const report = await evaluationService.evaluateStrategy(strategy as EvaluationStrategy, options.limit);
+    printReport(report);
+    reports.push(report);
+  }
+
+  if (options.output) {
+    const outputPath = path.resolve(process.cwd(), options.output);
+    fs.writeFileSync(outputPath, `${JSON.stringify(reports, null, 2)}\n`);
+    console.log(`\nReport written to ${outputPath}`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -1,5 +1,22 @@
-import { scrapeArticlesFromPepper, Article } from '../lib/scraper';
-import supabaseService from './supabase';
+import {
+  scrapeArticlesFromPepper,
+  scrapeArticleDetails,
+  fetchDealPage,
+  buildListingUrl,
+  parseListingPage,
+  Article,
+  ArticleDetails
+} from '../lib/scraper';
+import { fetchLivePage, MISSING_PAGE_STATUSES } from '../lib/pageFetchers';
+import { getFixtureDir, writeFixture } from '../lib/fixtures';
+import { parseArticlePrices } from '../lib/priceParser';
+import { getActiveSelectorProfile } from '../lib/selectorProfiles';
+import { getSite, resolveArticleSite } from '../lib/sites';
+import { HOME_TARGET, formatListingTarget, ListingTarget } from '../lib/listingTargets';
+import { getRecentExtractionReports } from '../lib/extractionReport';
+import { normalizeMerchant } from '../lib/merchants';
+import supabaseService, { CategorizedArticle } from './supabase';
+import categorizeService from './categorizeService';
 import * as cacheService from './cacheService';
 import config from '../config';
 
@@ -12,6 +29,39 @@ export interface CachedArticlesOptions {
   skipLocalCache?: boolean;
   /** Minimum number of cached articles required */
   minCached?: number | null;
+  /** Only return articles of this site (all sites if omitted) */
+  site?: string;
+  /** Whether to include expired deals */
+  includeExpired?: boolean;
+  /** Only return deals of these merchants (merchant identifiers) */
+  merchants?: string[];
+  /** Hide deals of these merchants (merchant identifiers) */
+  excludeMerchants?: string[];
+  /** Only return articles whose primary category has at least this confidence (0-1) */
+  minConfidence?: number;
+}
+
+export interface MerchantsListOptions {
+  /** Number of days of data to count */
+  days?: number;
+  /** Only count deals of this site (all sites if omitted) */
+  site?: string;
+  /** Whether to count expired deals */
+  includeExpired?: boolean;
+}
+
+/**
+ * Merchant with the number of its cached deals
+ */
+export interface MerchantDealCount {
+  /** Merchant identifier */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Whether the merchant is in the canonical merchant table */
+  known: boolean;
+  /** Number of cached deals */
+  deals: number;
 }
 
 export interface FetchCategorizeOptions {
@@ -21,6 +71,67 @@ export interface FetchCategorizeOptions {
   batchSize?: number;
   /** Base URL for the API */
   apiBaseUrl?: string;
+  /** Whether to scrape deal pages of newly seen articles before categorization */
+  enrichDetails?: boolean;
+  /** Site to scrape (default site if omitted) */
+  site?: string;
+  /** Listing to scrape: homepage, search results, group or merchant page (homepage if omitted) */
+  target?: ListingTarget;
+  /** Whether to fetch pages one by one and stop at a page of already cached deals */
+  incremental?: boolean;
+}
+
+/**
+ * Why an incremental run stopped fetching pages
+ */
+export type IncrementalStopReason = 'mostly_seen' | 'empty_page' | 'max_pages' | 'error';
+
+/**
+ * Result of fetching listing pages one by one
+ */
+interface IncrementalFetchResult {
+  /** Articles from all fetched pages */
+  articles: Article[];
+  /** Number of pages fetched */
+  pagesFetched: number;
+  /** Why fetching stopped */
+  stopReason: IncrementalStopReason;
+  /** Error of the failed page fetch (stopReason `error`) */
+  stopError?: string;
+}
+
+export interface RevalidateDealsOptions {
+  /** Only re-check deals cached within this many days */
+  days?: number;
+  /** Maximum number of deal pages to check */
+  limit?: number;
+}
+
+export interface RevalidateDealsResult {
+  /** Number of deal pages checked */
+  checked: number;
+  /** Number of deals found expired in this run */
+  expired: number;
+  /** Number of deals still active */
+  active: number;
+  /** Number of deal pages that could not be downloaded (deleted pages, 404/410, count as expired) */
+  failed: number;
+}
+
+export interface RecordFixturesResult {
+  /** Directory the snapshots were written to */
+  fixtureDir: string;
+  /** Per-page recording results */
+  pages: Array<{
+    /** Page number */
+    page: number;
+    /** Path of the written snapshot (null if the page failed) */
+    file: string | null;
+    /** Number of articles parsed from the snapshot */
+    articles: number;
+    /** Error message if the page could not be recorded */
+    error?: string;
+  }>;
 }
 
 export interface CategorizedArticlesResult {
@@ -56,20 +167,40 @@ export interface CategorizedArticlesResult {
     newlySavedToSupabase?: number;
     /** Percentage of articles from cache */
     percentFromCache?: number;
+    /** Number of newly seen articles enriched with deal page details */
+    detailsEnriched?: number;
+    /** Selector problems detected while scraping (possible Pepper layout change) */
+    extractionWarnings?: string[];
+    /** Site the articles were fetched from or filtered by */
+    site?: string;
+    /** Listing the articles were fetched from, e.g. `search:gpu` */
+    target?: string;
+    /** Whether pages were fetched incrementally */
+    incremental?: boolean;
+    /** Why the incremental run stopped fetching pages */
+    stopReason?: IncrementalStopReason;
+    /** Error that stopped the incremental run */
+    stopError?: string;
   };
   /** Whether the operation was successful */
   success?: boolean;
 }
 
 /**
- * Fetch articles from Pepper.pl for a specific page
+ * Fetch articles from a Pepper-network site for a specific page
  * @param pageNumber - The page number to fetch
+ * @param site - Site identifier (default site if omitted)
+ * @param target - Listing to fetch (homepage if omitted)
  * @returns Array of articles
  */
-async function fetchArticlesFromPage(pageNumber = 1): Promise<Article[]> {
+async function fetchArticlesFromPage(
+  pageNumber = 1,
+  site?: string,
+  target: ListingTarget = HOME_TARGET
+): Promise<Article[]> {
   try {
-    console.log(`Fetching articles from page ${pageNumber}...`);
-    const articles = await scrapeArticlesFromPepper(pageNumber);
+    console.log(`Fetching articles from page ${pageNumber} of ${getSite(site).name} (${formatListingTarget(target)})...`);
+    const articles = await scrapeArticlesFromPepper(pageNumber, site, target);
     if (!articles) {
       throw new Error(`No articles returned from page ${pageNumber}`);
     }
@@ -81,11 +212,17 @@ async function fetchArticlesFromPage(pageNumber = 1): Promise<Article[]> {
 }
 
 /**
- * Fetch articles from multiple pages of Pepper.pl
+ * Fetch articles from multiple pages of a Pepper-network site
  * @param pagesToFetch - Number of pages to fetch
+ * @param site - Site identifier (default site if omitted)
+ * @param target - Listing to fetch (homepage if omitted)
  * @returns Array of articles from all pages
  */
-async function fetchArticlesFromMultiplePages(pagesToFetch = 3): Promise<Article[]> {
+async function fetchArticlesFromMultiplePages(
+  pagesToFetch = 3,
+  site?: string,
+  target: ListingTarget = HOME_TARGET
+): Promise<Article[]> {
   try {
     if (pagesToFetch > config.API.ARTICLES.MAX_PAGES) {
       throw new Error(`Maximum number of pages exceeded (max ${config.API.ARTICLES.MAX_PAGES})`);
@@ -95,7 +232,7 @@ async function fetchArticlesFromMultiplePages(pagesToFetch = 3): Promise<Article
     
     const fetchPromises: Promise<Article[]>[] = [];
     for (let i = 1; i <= pagesToFetch; i++) {
-      fetchPromises.push(fetchArticlesFromPage(i));
+      fetchPromises.push(fetchArticlesFromPage(i, site, target));
     }
     
     const results = await Promise.all(fetchPromises);
@@ -126,6 +263,16 @@ async function fetchArticlesFromMultiplePages(pagesToFetch = 3): Promise<Article
 async function getCachedArticles(options: CachedArticlesOptions = {}): Promise<CategorizedArticlesResult> {
   const days = options.days || config.CACHE.DEFAULTS.DAYS_TO_CACHE;
   const skipLocalCache = options.skipLocalCache || false;
+  const site = options.site ? getSite(options.site).id : undefined;
+  const includeExpired = options.includeExpired || false;
+  const merchants = options.merchants || [];
+  const excludeMerchants = options.excludeMerchants || [];
+  const minConfidence = options.minConfidence;
+  // Results filtered by site, merchant, confidence or including expired deals are cached under their own key
+  const cacheKey = `articles_cached_days_${days}${site ? `_site_${site}` : ''}${includeExpired ? '_with_expired' : ''}${
+    merchants.length ? `_merchants_${merchants.join('+')}` : ''}${
+    excludeMerchants.length ? `_without_${excludeMerchants.join('+')}` : ''}${
+    minConfidence !== undefined ? `_min_confidence_${minConfidence}` : ''}`;
   
   // Check if Supabase is configured
   if (!supabaseService.isConfigured()) {
@@ -140,7 +287,6 @@ async function getCachedArticles(options: CachedArticlesOptions = {}): Promise<C
   if (!skipLocalCache) {
     console.log('Checking local SQLite cache...');
     try {
-      const cacheKey = `articles_cached_days_${days}`;
       cachedResult = await cacheService.getCachedValue(cacheKey);
       
       if (cachedResult) {
@@ -164,7 +310,7 @@ async function getCachedArticles(options: CachedArticlesOptions = {}): Promise<C
   }
   
   // 2. If not in local cache, proceed with Supabase cache query
-  console.log(`Fetching cached articles from Supabase not older than ${days} days`);
+  console.log(`Fetching cached articles from Supabase not older than ${days} days${site ? ` for ${site}` : ''}`);
   
   // Calculate the date for filtering
   const oldestDate = new Date();
@@ -173,11 +319,19 @@ async function getCachedArticles(options: CachedArticlesOptions = {}): Promise<C
   
   try {
     const data = await supabaseService.getData('categorized_articles', {
-      filter: {
-        column: 'created_at',
-        operator: 'gte',
-        value: oldestDateIso
-      },
+      filter: [
+        {
+          column: 'created_at',
+          operator: 'gte',
+          value: oldestDateIso
+        },
+        ...(site ? [{ column: 'site', operator: 'eq', value: site }] : []),
+        ...(includeExpired ? [] : [{ column: 'status', operator: 'neq', value: 'expired' }]),
+        ...(merchants.length ? [{ column: 'merchant_id', operator: 'in', value: merchants }] : []),
+        ...(minConfidence !== undefined ? [{ column: 'confidence', operator: 'gte', value: minConfidence }] : [])
+      ],
+      // NOT IN alone would also hide deals without a merchant
+      ...(excludeMerchants.length ? { or: excludeMerchantsExpression(excludeMerchants) } : {}),
       order: {
         column: 'created_at',
         ascending: false
@@ -189,13 +343,15 @@ async function getCachedArticles(options: CachedArticlesOptions = {}): Promise<C
     
     (data || []).forEach((cachedArticle: any) => {
       const article = supabaseService.toArticle(cachedArticle);
-      const category = cachedArticle.category;
       
-      if (!categorizedArticles[category]) {
-        categorizedArticles[category] = [];
+      // Artykuł trafia też do kategorii z etykiet dodatkowych (powyżej minConfidence)
+      for (const category of supabaseService.toCategoryLabels(cachedArticle, minConfidence)) {
+        if (!categorizedArticles[category]) {
+          categorizedArticles[category] = [];
+        }
+        
+        categorizedArticles[category].push(article);
       }
-      
-      categorizedArticles[category].push(article);
     });
     
     // Calculate some stats
@@ -213,7 +369,8 @@ async function getCachedArticles(options: CachedArticlesOptions = {}): Promise<C
         fromDate: oldestDateIso,
         fromCache: true,
         fromLocalCache: false,
-        minCachedRequirement: options.minCached !== null ? `${totalArticles}/${options.minCached}` : 'not specified'
+        minCachedRequirement: options.minCached !== null ? `${totalArticles}/${options.minCached}` : 'not specified',
+        ...(site ? { site } : {})
       }
     };
     
@@ -221,7 +378,6 @@ async function getCachedArticles(options: CachedArticlesOptions = {}): Promise<C
     if (!skipLocalCache && totalArticles > 0) {
       console.log('Storing results in local SQLite cache');
       try {
-        const cacheKey = `articles_cached_days_${days}`;
         await cacheService.setCachedValue(cacheKey, result, CACHE_EXPIRATION);
       } catch (cacheError) {
         console.error('Failed to store in local cache, but continuing:', cacheError);
@@ -237,7 +393,66 @@ async function getCachedArticles(options: CachedArticlesOptions = {}): Promise<C
 }
 
 /**
- * Fetch, categorize, and cache articles from Pepper.pl
+ * Build the PostgREST expression hiding deals of the given merchants (deals without a merchant stay)
+ * @param merchantIds - Merchant identifiers to hide
+ * @returns `or` expression
+ */
+function excludeMerchantsExpression(merchantIds: string[]): string {
+  return `merchant_id.is.null,merchant_id.not.in.(${merchantIds.join(',')})`;
+}
+
+// Rows read per request when counting merchants (PostgREST returns at most 1000 rows)
+const MERCHANTS_PAGE_SIZE = 1000;
+
+/**
+ * Count the cached deals of every merchant
+ * @param options - Date range, site and expired deal options
+ * @returns Merchants sorted by the number of deals
+ */
+async function listMerchants(options: MerchantsListOptions = {}): Promise<MerchantDealCount[]> {
+  if (!supabaseService.isConfigured()) {
+    throw new Error('Cache service unavailable: Supabase not configured');
+  }
+
+  const days = options.days || config.CACHE.DEFAULTS.DAYS_TO_CACHE;
+  const site = options.site ? getSite(options.site).id : undefined;
+  const oldestDate = new Date();
+  oldestDate.setDate(oldestDate.getDate() - days);
+
+  const counts = new Map<string, MerchantDealCount>();
+
+  for (let offset = 0; ; offset += MERCHANTS_PAGE_SIZE) {
+    const rows = await supabaseService.getData<CategorizedArticle>('categorized_articles', {
+      select: 'merchant, merchant_id',
+      filter: [
+        { column: 'created_at', operator: 'gte', value: oldestDate.toISOString() },
+        { column: 'merchant_id', operator: 'not.is', value: null },
+        ...(site ? [{ column: 'site', operator: 'eq', value: site }] : []),
+        ...(options.includeExpired ? [] : [{ column: 'status', operator: 'neq', value: 'expired' }])
+      ],
+      order: { column: 'article_id' },
+      limit: MERCHANTS_PAGE_SIZE,
+      offset
+    });
+
+    for (const row of rows) {
+      const merchant = normalizeMerchant(row.merchant || row.merchant_id);
+      const id = row.merchant_id || merchant?.id;
+      if (!id || !merchant) continue;
+
+      const entry = counts.get(id) || { id, name: merchant.name, known: merchant.known, deals: 0 };
+      entry.deals++;
+      counts.set(id, entry);
+    }
+
+    if (rows.length < MERCHANTS_PAGE_SIZE) break;
+  }
+
+  return Array.from(counts.values()).sort((a, b) => b.deals - a.deals || a.name.localeCompare(b.name));
+}
+
+/**
+ * Fetch, categorize, and cache articles from a Pepper-network site
  * @param options - Options for the fetch and cache operation
  * @returns Categorized articles and stats
  */
@@ -245,52 +460,97 @@ async function fetchCategorizeAndCacheArticles(options: FetchCategorizeOptions =
   const maxPages = options.maxPages || config.API.ARTICLES.MAX_PAGES;
   const batchSize = options.batchSize || config.API.CATEGORIZATION.MAX_BATCH_SIZE;
   const apiBaseUrl = options.apiBaseUrl || '';
+  const site = getSite(options.site);
+  const target = options.target || HOME_TARGET;
   
   // Check if Supabase is configured
   if (!supabaseService.isConfigured()) {
     throw new Error('Cache service unavailable: Supabase not configured');
   }
   
-  console.log(`Fetching ${maxPages} pages from Pepper.pl...`);
+  const incremental = options.incremental ?? config.API.SCRAPER.INCREMENTAL.ENABLED_BY_DEFAULT;
+  
+  console.log(`Fetching ${incremental ? 'up to ' : ''}${maxPages} pages of ${formatListingTarget(target)} from ${site.name}...`);
+  const runStartedAt = new Date().toISOString();
   
   // 1. Fetch articles from specified number of Pepper pages
   let allArticles: Article[] = [];
-  const fetchPromises: Promise<Article[]>[] = [];
+  let pagesFetched = maxPages;
+  let stopReason: IncrementalStopReason | undefined;
+  let stopError: string | undefined;
   
-  // Create an array of promises to fetch all pages in parallel
-  for (let pageNumber = 1; pageNumber <= maxPages; pageNumber++) {
-    fetchPromises.push(
-      fetchArticlesFromPage(pageNumber)
-        .then(articlesFromPage => {
-          if (articlesFromPage && Array.isArray(articlesFromPage) && articlesFromPage.length > 0) {
-            console.log(`Received ${articlesFromPage.length} articles from page ${pageNumber}`);
-            return articlesFromPage;
-          }
-          console.log(`No articles found on page ${pageNumber}`);
-          return [];
-        })
-        .catch(error => {
-          console.error(`Error fetching page ${pageNumber}:`, error);
-          return []; // Return empty array on error to keep the Promise.all working
-        })
-    );
-  }
-  
-  // Wait for all pages to be fetched
-  const results = await Promise.all(fetchPromises);
-  
-  // Combine all results
-  results.forEach(articlesFromPage => {
-    if (articlesFromPage.length > 0) {
-      allArticles = [...allArticles, ...articlesFromPage];
+  if (incremental) {
+    // Pages are fetched one by one so the run can stop at the first page of known deals
+    ({ articles: allArticles, pagesFetched, stopReason, stopError } = await fetchPagesUntilSeen(maxPages, site.id, target));
+  } else {
+    const fetchPromises: Promise<Article[]>[] = [];
+    
+    // Create an array of promises to fetch all pages in parallel
+    for (let pageNumber = 1; pageNumber <= maxPages; pageNumber++) {
+      fetchPromises.push(
+        fetchArticlesFromPage(pageNumber, site.id, target)
+          .then(articlesFromPage => {
+            if (articlesFromPage && Array.isArray(articlesFromPage) && articlesFromPage.length > 0) {
+              console.log(`Received ${articlesFromPage.length} articles from page ${pageNumber}`);
+              return articlesFromPage;
+            }
+            console.log(`No articles found on page ${pageNumber}`);
+            return [];
+          })
+          .catch(error => {
+            console.error(`Error fetching page ${pageNumber}:`, error);
+            return []; // Return empty array on error to keep the Promise.all working
+          })
+      );
     }
-  });
+    
+    // Wait for all pages to be fetched
+    const results = await Promise.all(fetchPromises);
+    
+    // Combine all results
+    results.forEach(articlesFromPage => {
+      if (articlesFromPage.length > 0) {
+        allArticles = [...allArticles, ...articlesFromPage];
+      }
+    });
+  }
   
   if (allArticles.length === 0) {
+    if (stopReason === 'error') {
+      // Pierwsza strona się nie pobrała - zwracamy powód zatrzymania zamiast ogólnego błędu
+      return {
+        success: false,
+        categorizedArticles: {},
+        stats: {
+          pagesFetched,
+          totalArticles: 0,
+          totalCategorized: 0,
+          categoriesCount: 0,
+          categories: [],
+          site: site.id,
+          target: formatListingTarget(target),
+          incremental,
+          stopReason,
+          ...(stopError ? { stopError } : {})
+        }
+      };
+    }
     throw new Error('No articles found');
   }
   
-  console.log(`Successfully fetched a total of ${allArticles.length} articles from ${maxPages} pages`);
+  console.log(`Successfully fetched a total of ${allArticles.length} articles from ${pagesFetched} pages`);
+  
+  // Collect selector problems reported for the pages scraped in this run
+  const extractionWarnings = getRecentExtractionReports()
+    .filter(report => report.createdAt >= runStartedAt && report.layoutChangeSuspected)
+    .flatMap(report => report.warnings.map(warning => `${report.source}: ${warning}`));
+  
+  // Optionally scrape deal pages of articles that are not in the cache yet
+  let detailsEnriched = 0;
+  if (options.enrichDetails ?? config.API.SCRAPER.DETAILS.ENRICH_BY_DEFAULT) {
+    const { uncachedArticles } = await categorizeService.checkCache(allArticles);
+    detailsEnriched = await enrichArticlesWithDetails(uncachedArticles);
+  }
   
   // 2. Send articles for categorization in batches to avoid "request entity too large" errors
   console.log(`Categorizing articles and saving to Supabase in batches of ${batchSize}...`);
@@ -375,10 +635,10 @@ async function fetchCategorizeAndCacheArticles(options: FetchCategorizeOptions =
     }
   }
   
-  // Count total categorized articles
-  const totalCategorizedArticles = Object.keys(allCategorizedArticles).reduce(
-    (total, category) => total + allCategorizedArticles[category].length, 0
-  );
+  // Count total categorized articles (an article with secondary labels is listed under several categories)
+  const totalCategorizedArticles = new Set(
+    Object.values(allCategorizedArticles).flat().map(article => article.link)
+  ).size;
   
   if (totalCategorizedArticles === 0) {
     throw new Error('Failed to categorize any articles');
@@ -389,7 +649,7 @@ async function fetchCategorizeAndCacheArticles(options: FetchCategorizeOptions =
     success: true,
     categorizedArticles: allCategorizedArticles,
     stats: {
-      pagesFetched: maxPages,
+      pagesFetched,
       totalArticles: allArticles.length,
       totalCategorized: totalCategorizedArticles,
       categoriesCount: Object.keys(allCategorizedArticles).length,
@@ -399,15 +659,222 @@ async function fetchCategorizeAndCacheArticles(options: FetchCategorizeOptions =
       newlySavedToSupabase: newlySavedToSupabase,
       percentFromCache: allArticles.length > 0 
         ? Math.round((totalFromCache / allArticles.length) * 100) 
-        : 0
+        : 0,
+      detailsEnriched,
+      extractionWarnings,
+      site: site.id,
+      target: formatListingTarget(target),
+      incremental,
+      ...(stopReason ? { stopReason } : {}),
+      ...(stopError ? { stopError } : {})
     }
   };
 }
 
+/**
+ * Fetch listing pages one by one until a page consists mostly of articles already in categorized_articles
+ * @param maxPages - Maximum number of pages to fetch
+ * @param site - Site identifier
+ * @param target - Listing to fetch
+ * @returns Articles from the fetched pages and the reason fetching stopped
+ */
+async function fetchPagesUntilSeen(
+  maxPages: number,
+  site: string,
+  target: ListingTarget
+): Promise<IncrementalFetchResult> {
+  const threshold = config.API.SCRAPER.INCREMENTAL.SEEN_THRESHOLD;
+  let articles: Article[] = [];
+
+  for (let pageNumber = 1; pageNumber <= maxPages; pageNumber++) {
+    let articlesFromPage: Article[];
+    try {
+      articlesFromPage = await fetchArticlesFromPage(pageNumber, site, target);
+    } catch (error) {
+      // Nieudane pobranie to nie koniec wyników - zgłaszamy je osobno
+      console.error(`Error fetching page ${pageNumber}, stopping incremental fetch:`, error);
+      return {
+        articles,
+        pagesFetched: pageNumber - 1,
+        stopReason: 'error',
+        stopError: error instanceof Error ? error.message : String(error)
+      };
+    }
+
+    if (articlesFromPage.length === 0) {
+      console.log(`No articles found on page ${pageNumber}, stopping incremental fetch`);
+      return { articles, pagesFetched: pageNumber, stopReason: 'empty_page' };
+    }
+
+    articles = [...articles, ...articlesFromPage];
+
+    // Articles of this page that are already in the cache were seen in an earlier run
+    const { uncachedArticles } = await categorizeService.checkCache(articlesFromPage);
+    const seenShare = (articlesFromPage.length - uncachedArticles.length) / articlesFromPage.length;
+    console.log(`Page ${pageNumber}: ${Math.round(seenShare * 100)}% of ${articlesFromPage.length} articles already cached`);
+
+    if (seenShare >= threshold) {
+      return { articles, pagesFetched: pageNumber, stopReason: 'mostly_seen' };
+    }
+  }
+
+  return { articles, pagesFetched: maxPages, stopReason: 'max_pages' };
+}
+
+/**
+ * Scrape the deal page of a single article
+ * @param link - Link to the deal
+ * @returns Deal details
+ */
+async function fetchArticleDetails(link: string): Promise<ArticleDetails> {
+  const details = await scrapeArticleDetails(link);
+  if (!details) {
+    throw new Error(`No details returned for ${link}`);
+  }
+  return details;
+}
+
+/**
+ * Scrape deal pages and merge the details into the articles (in place, one page at a time)
+ * @param articles - Articles to enrich
+ * @param maxArticles - Maximum number of deal pages to scrape
+ * @returns Number of enriched articles
+ */
+async function enrichArticlesWithDetails(
+  articles: Article[],
+  maxArticles = config.API.SCRAPER.DETAILS.MAX_PER_RUN
+): Promise<number> {
+  const toEnrich = articles.slice(0, maxArticles);
+  let enriched = 0;
+
+  console.log(`Enriching ${toEnrich.length} of ${articles.length} new articles with deal page details...`);
+
+  for (const article of toEnrich) {
+    const details = await scrapeArticleDetails(article.link);
+    if (details) {
+      // The listing card may name the merchant when the deal page does not
+      const { merchant, merchantId } = article;
+      Object.assign(article, details, { detailsScrapedAt: new Date().toISOString() });
+      if (!details.merchant) {
+        Object.assign(article, { merchant, merchantId });
+      }
+      // The deal page may add the original price, so the discount is computed again
+      Object.assign(article, parseArticlePrices(article, resolveArticleSite(article).locale));
+      enriched++;
+    }
+  }
+
+  return enriched;
+}
+
+/**
+ * Re-check recently cached active deals on their deal pages and store the current status
+ * (the deals checked longest ago go first)
+ * @param options - How far back and how many deals to check
+ * @returns Re-validation summary
+ */
+async function revalidateCachedDeals(options: RevalidateDealsOptions = {}): Promise<RevalidateDealsResult> {
+  if (!supabaseService.isConfigured()) {
+    throw new Error('Cache service unavailable: Supabase not configured');
+  }
+
+  const days = options.days || config.SCHEDULER.REVALIDATE.DAYS;
+  const limit = options.limit || config.SCHEDULER.REVALIDATE.LIMIT;
+  const oldestDate = new Date();
+  oldestDate.setDate(oldestDate.getDate() - days);
+
+  const rows = await supabaseService.getData<CategorizedArticle>('categorized_articles', {
+    select: 'article_id, link, status_checked_at',
+    filter: [
+      { column: 'created_at', operator: 'gte', value: oldestDate.toISOString() },
+      { column: 'status', operator: 'eq', value: 'active' }
+    ],
+    // Okazje jeszcze nigdy niesprawdzane (NULL) idą pierwsze
+    order: { column: 'status_checked_at', ascending: true, nullsFirst: true },
+    limit
+  });
+
+  const result: RevalidateDealsResult = { checked: 0, expired: 0, active: 0, failed: 0 };
+  console.log(`Re-validating ${rows.length} active deals cached within ${days} days...`);
+
+  // Strony okazji sprawdzamy po kolei, limity zapytań pilnuje politeness
+  for (const row of rows) {
+    const { details, failedStatus } = await fetchDealPage(row.link);
+    // Strona usuniętej okazji (404/410) oznacza okazję wygasłą
+    const removed = failedStatus !== null && MISSING_PAGE_STATUSES.includes(failedStatus);
+    // Nieudane sprawdzenie też dostaje datę, inaczej te same okazje wracałyby na początek kolejki przy każdym uruchomieniu
+    const changes: Partial<CategorizedArticle> = { status_checked_at: new Date().toISOString() };
+
+    if (details || removed) {
+      const status = details ? details.status : 'expired';
+      result.checked++;
+      result[status === 'expired' ? 'expired' : 'active']++;
+      changes.status = status;
+    } else {
+      result.failed++;
+    }
+
+    try {
+      await supabaseService.updateData('categorized_articles', changes, { article_id: row.article_id });
+    } catch (error) {
+      console.error(`Failed to update status of ${row.link}:`, error);
+    }
+  }
+
+  if (result.expired > 0) {
+    // Wygasłe okazje nie mogą wracać z lokalnego cache
+    await cacheService.clearCache();
+  }
+
+  console.log(`Re-validation finished: ${result.checked} checked, ${result.expired} expired, ${result.failed} failed`);
+  return result;
+}
+
+/**
+ * Download listing pages from the live site and save them as offline fixtures
+ * @param pagesToRecord - Number of pages to record
+ * @param siteId - Site identifier (default site if omitted)
+ * @returns Recording summary
+ */
+async function recordFixtures(pagesToRecord = 1, siteId?: string): Promise<RecordFixturesResult> {
+  if (pagesToRecord > config.API.ARTICLES.MAX_PAGES) {
+    throw new Error(`Maximum number of pages exceeded (max ${config.API.ARTICLES.MAX_PAGES})`);
+  }
+
+  const site = getSite(siteId);
+  const pages: RecordFixturesResult['pages'] = [];
+
+  // Pages are recorded one by one, always from the live site (even in replay mode)
+  for (let pageNumber = 1; pageNumber <= pagesToRecord; pageNumber++) {
+    const url = buildListingUrl(pageNumber, site);
+    try {
+      const { html } = await fetchLivePage(url, getActiveSelectorProfile().container.join(', '));
+      const file = writeFixture(url, html);
+      // Raport nagrania nie trafia do listy raportów scrapowania
+      pages.push({ page: pageNumber, file, articles: parseListingPage(html, url, false, site).articles?.length || 0 });
+    } catch (error) {
+      console.error(`Error recording fixture for page ${pageNumber}:`, error);
+      pages.push({
+        page: pageNumber,
+        file: null,
+        articles: 0,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  return { fixtureDir: getFixtureDir(), pages };
+}
+
 // Export the service as default
 export default {
   fetchArticlesFromPage,
   fetchArticlesFromMultiplePages,
+  fetchArticleDetails,
+  enrichArticlesWithDetails,
+  recordFixtures,
   getCachedArticles,
   fetchCategorizeAndCacheArticles,
+  revalidateCachedDeals,
+  listMerchants,
 }; 
\ No newline at end of file
@@ -0,0 +1,513 @@
+import path from 'path';
+import fs from 'fs';
+import supabaseService from './supabase';
+import categoryRulesService from './categoryRulesService';
+import config from '../config';
+import { normalizeText } from '../lib/keywordMatching';
+
+/**
+ * Category of the taxonomy used by prompts, keyword matching and the API
+ */
+export interface CategoryDefinition {
+  /** Category name stored with the articles */
+  name: string;
+  /** URL-friendly identifier */
+  slug: string;
+  /** What belongs to the category (added to the AI prompt) */
+  description: string | null;
+  /** Position in lists, ascending */
+  displayOrder: number;
+  /** Lowercase keywords used by the keyword categorization */
+  keywords: string[];
+  /** Whether articles matching no other category land here */
+  isFallback: boolean;
+  /** Slug of the parent category (null for top-level categories) */
+  parentSlug: string | null;
+}
+
+/**
+ * Fields accepted by the create and update endpoints
+ */
+export type CategoryInput = Partial<CategoryDefinition>;
+
+/**
+ * Top-level category with its subcategories (drill-down navigation)
+ */
+export interface CategoryTreeNode extends CategoryDefinition {
+  subcategories: CategoryDefinition[];
+}
+
+/**
+ * Where an article assigned to a category is stored: the top-level category and the subcategory
+ */
+export interface CategoryPlacement {
+  /** Top-level category name (categorized_articles.category) */
+  category: string;
+  /** Subcategory name or null for a top-level category (categorized_articles.subcategory) */
+  subcategory: string | null;
+}
+
+/**
+ * Row of the categories table
+ */
+interface CategoryRow {
+  name: string;
+  slug: string;
+  description: string | null;
+  display_order: number;
+  keywords: string[] | null;
+  is_fallback: boolean;
+  parent_slug: string | null;
+  updated_at?: string;
+}
+
+const TABLE = 'categories';
+
+let cachedTaxonomy: CategoryDefinition[] | null = null;
+let cachedAt = 0;
+
+/**
+ * Build the slug of a category name ("Home & Household" -> "home-household", "Książki" -> "ksiazki")
+ * @param name - Category name
+ * @returns Slug
+ */
+function toCategorySlug(name: string): string {
+  return normalizeText(name).replace(/ /g, '-');
+}
+
+/**
+ * Convert a categories table row to a category definition
+ * @param row - Table row
+ * @returns Category definition
+ */
+function toCategoryDefinition(row: CategoryRow): CategoryDefinition {
+  return {
+    name: row.name,
+    slug: row.slug,
+    description: row.description ?? null,
+    displayOrder: row.display_order ?? 0,
+    keywords: row.keywords || [],
+    isFallback: !!row.is_fallback,
+    parentSlug: row.parent_slug ?? null
+  };
+}
+
+/**
+ * Convert a category definition to a categories table row
+ * @param category - Category definition
+ * @returns Table row
+ */
+function toCategoryRow(category: CategoryDefinition): CategoryRow {
+  return {
+    name: category.name,
+    slug: category.slug,
+    description: category.description,
+    display_order: category.displayOrder,
+    keywords: category.keywords,
+    is_fallback: category.isFallback,
+    parent_slug: category.parentSlug,
+    updated_at: new Date().toISOString()
+  };
+}
+
+/**
+ * Sort categories by display order, then by name
+ * @param categories - Categories to sort
+ * @returns Sorted copy
+ */
+function sortCategories(categories: CategoryDefinition[]): CategoryDefinition[] {
+  return [...categories].sort((a, b) => a.displayOrder - b.displayOrder || a.name.localeCompare(b.name));
+}
+
+/**
+ * Read the default taxonomy from the defaults file
+ * @returns Default categories
+ */
+function loadDefaultTaxonomy(): CategoryDefinition[] {
+  const filePath = path.resolve(__dirname, '../..', config.API.CATEGORIZATION.TAXONOMY.DEFAULTS_FILE);
+  const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8')) as { categories: CategoryInput[] };
+
+  return sortCategories((parsed.categories || []).map(category => normalizeCategory(category)));
+}
+
+/**
+ * Fill in the optional fields of a category and clean up its keywords
+ * @param input - Category fields (name required)
+ * @param base - Existing category the input updates
+ * @returns Complete category definition
+ */
+function normalizeCategory(input: CategoryInput, base?: CategoryDefinition): CategoryDefinition {
+  const name = (input.name ?? base?.name ?? '').trim();
+  const keywords = input.keywords ?? base?.keywords ?? [];
+
+  return {
+    name,
+    slug: toCategorySlug(input.slug || base?.slug || name),
+    description: input.description !== undefined ? (input.description || null) : base?.description ?? null,
+    displayOrder: input.displayOrder ?? base?.displayOrder ?? 0,
+    keywords: Array.from(new Set(keywords.map(keyword => keyword.trim().toLowerCase()).filter(Boolean))),
+    isFallback: input.isFallback ?? base?.isFallback ?? false,
+    parentSlug: input.parentSlug !== undefined ? (input.parentSlug ? toCategorySlug(input.parentSlug) : null) : base?.parentSlug ?? null
+  };
+}
+
+/**
+ * Get the category taxonomy: the categories table (seeded with the defaults when empty), or the defaults
+ * file when Supabase is not configured or the table cannot be read
+ * @returns Categories sorted by display order
+ */
+async function getTaxonomy(): Promise<CategoryDefinition[]> {
+  if (cachedTaxonomy && Date.now() - cachedAt < config.API.CATEGORIZATION.TAXONOMY.CACHE_TTL_MS) {
+    return cachedTaxonomy;
+  }
+
+  let taxonomy: CategoryDefinition[];
+  if (!supabaseService.isConfigured()) {
+    taxonomy = loadDefaultTaxonomy();
+  } else {
+    try {
+      const rows = await supabaseService.getData<CategoryRow>(TABLE);
+      if (rows.length > 0) {
+        taxonomy = sortCategories(rows.map(toCategoryDefinition));
+      } else {
+        // Pusta tabela - zapisujemy domyślną taksonomię, żeby dalej edytować ją przez API
+        // (najpierw kategorie główne, bo podkategorie wskazują na nie kluczem obcym)
+        taxonomy = loadDefaultTaxonomy();
+        await supabaseService.insertData(TABLE, taxonomy.filter(category => !category.parentSlug).map(toCategoryRow));
+        await supabaseService.insertData(TABLE, taxonomy.filter(category => category.parentSlug).map(toCategoryRow));
+        console.log(`Seeded ${taxonomy.length} categories from ${config.API.CATEGORIZATION.TAXONOMY.DEFAULTS_FILE}`);
+      }
+    } catch (error) {
+      console.error('Error reading the category taxonomy, using the defaults file:', error);
+      taxonomy = loadDefaultTaxonomy();
+    }
+  }
+
+  cachedTaxonomy = taxonomy;
+  cachedAt = Date.now();
+  return taxonomy;
+}
+
+/**
+ * Drop the cached taxonomy so the next read goes to the database
+ */
+function invalidateTaxonomyCache(): void {
+  cachedTaxonomy = null;
+  cachedAt = 0;
+}
+
+/**
+ * Get the category of articles matching no other category
+ * @param taxonomy - Categories
+ * @returns Fallback category name
+ */
+function getFallbackCategory(taxonomy: CategoryDefinition[]): string {
+  const topLevel = taxonomy.filter(category => !category.parentSlug);
+  const fallback = topLevel.find(category => category.isFallback) || topLevel[topLevel.length - 1];
+  return fallback?.name || 'Other Deals';
+}
+
+/**
+ * Get the subcategories of a category
+ * @param taxonomy - Categories
+ * @param slug - Slug of the parent category
+ * @returns Subcategories in display order
+ */
+function getSubcategories(taxonomy: CategoryDefinition[], slug: string): CategoryDefinition[] {
+  return taxonomy.filter(category => category.parentSlug === slug);
+}
+
+/**
+ * Arrange the taxonomy as top-level categories with their subcategories
+ * @param taxonomy - Categories
+ * @returns Category tree
+ */
+function buildCategoryTree(taxonomy: CategoryDefinition[]): CategoryTreeNode[] {
+  return taxonomy
+    .filter(category => !category.parentSlug)
+    .map(category => ({ ...category, subcategories: getSubcategories(taxonomy, category.slug) }));
+}
+
+/**
+ * Resolve the columns an article assigned to a category is stored under
+ * @param taxonomy - Categories
+ * @param name - Name of the assigned category (top-level or subcategory)
+ * @returns Top-level category and subcategory
+ */
+function getCategoryPlacement(taxonomy: CategoryDefinition[], name: string): CategoryPlacement {
+  const category = findCategory(taxonomy, name);
+  const parent = category?.parentSlug ? taxonomy.find(other => other.slug === category.parentSlug) : null;
+
+  if (category && parent) {
+    return { category: parent.name, subcategory: category.name };
+  }
+  return { category: category?.name || name, subcategory: null };
+}
+
+/**
+ * Find a category by its name, slug or "Parent > Subcategory" path (case-insensitive)
+ * @param taxonomy - Categories
+ * @param value - Category name or slug
+ * @returns Matching category or null
+ */
+function findCategory(taxonomy: CategoryDefinition[], value: unknown): CategoryDefinition | null {
+  if (typeof value !== 'string' || !value.trim()) {
+    return null;
+  }
+  // Prompty podają podkategorie jako "Rodzic > Podkategoria", nazwy są unikalne w całej taksonomii
+  const normalized = value.split('>').pop()!.trim().toLowerCase();
+  return taxonomy.find(category => category.name.toLowerCase() === normalized || category.slug === normalized) || null;
+}
+
+/**
+ * Validate the fields of a category before it is saved
+ * @param input - Fields from the request body
+ * @param taxonomy - Current categories
+ * @param existing - Category being updated (omitted when creating)
+ * @returns Error message or null if the input is valid
+ */
+function validateCategoryInput(
+  input: CategoryInput,
+  taxonomy: CategoryDefinition[],
+  existing?: CategoryDefinition
+): string | null {
+  if (!existing && (typeof input.name !== 'string' || !input.name.trim())) {
+    return 'name is required';
+  }
+  if (input.name !== undefined && (typeof input.name !== 'string' || !input.name.trim())) {
+    return 'name must be a non-empty string';
+  }
+  if (input.description !== undefined && input.description !== null && typeof input.description !== 'string') {
+    return 'description must be a string';
+  }
+  if (input.displayOrder !== undefined && !Number.isInteger(input.displayOrder)) {
+    return 'displayOrder must be an integer';
+  }
+  if (input.keywords !== undefined && (!Array.isArray(input.keywords) || input.keywords.some(k => typeof k !== 'string'))) {
+    return 'keywords must be an array of strings';
+  }
+  if (input.isFallback !== undefined && typeof input.isFallback !== 'boolean') {
+    return 'isFallback must be a boolean';
+  }
+  if (input.parentSlug !== undefined && input.parentSlug !== null && typeof input.parentSlug !== 'string') {
+    return 'parentSlug must be a string or null';
+  }
+  if (existing?.isFallback && input.isFallback === false) {
+    return 'The fallback category cannot be unset, mark another category as fallback instead';
+  }
+
+  const category = normalizeCategory(input, existing);
+  if (!category.slug) {
+    return 'slug must contain letters or digits';
+  }
+
+  const others = taxonomy.filter(other => other.slug !== existing?.slug);
+  if (others.some(other => other.name.toLowerCase() === category.name.toLowerCase())) {
+    return `Category "${category.name}" already exists`;
+  }
+  if (others.some(other => other.slug === category.slug)) {
+    return `Category slug "${category.slug}" already exists`;
+  }
+
+  // Dwa poziomy: kategoria główna i jej podkategorie
+  if (category.parentSlug) {
+    const parent = others.find(other => other.slug === category.parentSlug);
+    if (!parent) {
+      return `Parent category "${category.parentSlug}" not found`;
+    }
+    if (parent.parentSlug) {
+      return `Parent category "${parent.slug}" is a subcategory itself, only two levels are supported`;
+    }
+    if (category.isFallback) {
+      return 'The fallback category must be a top-level category';
+    }
+    if (existing && getSubcategories(taxonomy, existing.slug).length > 0) {
+      return `Category "${existing.slug}" has subcategories and cannot become a subcategory`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Throw when the taxonomy cannot be edited (it lives in the database)
+ */
+function assertEditable(): void {
+  if (!supabaseService.isConfigured()) {
+    throw new Error('Category taxonomy unavailable for editing: Supabase not configured');
+  }
+}
+
+/**
+ * Make sure only the given category is marked as fallback
+ * @param slug - Slug of the new fallback category
+ */
+async function clearOtherFallbacks(slug: string, taxonomy: CategoryDefinition[]): Promise<void> {
+  for (const category of taxonomy) {
+    if (category.isFallback && category.slug !== slug) {
+      await supabaseService.updateData(TABLE, { is_fallback: false }, { slug: category.slug });
+    }
+  }
+}
+
+/**
+ * Create a category (input must pass validateCategoryInput)
+ * @param input - Category fields
+ * @returns Created category
+ */
+async function createCategory(input: CategoryInput): Promise<CategoryDefinition> {
+  assertEditable();
+  const taxonomy = await getTaxonomy();
+  const category = normalizeCategory(input);
+
+  if (category.isFallback) {
+    await clearOtherFallbacks(category.slug, taxonomy);
+  }
+  await supabaseService.insertData(TABLE, toCategoryRow(category));
+  invalidateTaxonomyCache();
+
+  return category;
+}
+
+/**
+ * Rename or remove a top-level category in the secondary labels of the cached articles
+ * @param oldName - Category name in the labels
+ * @param newName - New name (null removes the label)
+ */
+async function replaceSecondaryLabel(oldName: string, newName: string | null): Promise<void> {
+  const rows = await supabaseService.getData<{
+    article_id: string;
+    category: string;
+    secondary_categories: string[] | null;
+    category_scores: Array<{ category: string; subcategory: string | null; confidence: number }> | null;
+  }>('categorized_articles', {
+    select: 'article_id,category,secondary_categories,category_scores',
+    filter: { column: 'secondary_categories', operator: 'cs', value: `{"${oldName}"}` }
+  });
+
+  // Tablic nie da się zmienić jednym UPDATE przez PostgREST, więc poprawiamy wiersz po wierszu
+  for (const row of rows) {
+    const secondary = (row.secondary_categories || [])
+      .map(name => name === oldName ? newName : name)
+      .filter((name): name is string => !!name && name !== row.category);
+    const scores = (row.category_scores || [])
+      .map(score => score.category === oldName ? (newName ? { ...score, category: newName } : null) : score)
+      .filter(score => score !== null);
+
+    await supabaseService.updateData('categorized_articles', {
+      secondary_categories: Array.from(new Set(secondary)),
+      category_scores: scores
+    }, { article_id: row.article_id });
+  }
+}
+
+/**
+ * Move the cached articles of a category after it was renamed or moved in the tree
+ * @param existing - Category before the update
+ * @param category - Category after the update
+ * @param taxonomy - Categories before the update
+ */
+async function relocateArticles(
+  existing: CategoryDefinition,
+  category: CategoryDefinition,
+  taxonomy: CategoryDefinition[]
+): Promise<void> {
+  if (category.name === existing.name && category.parentSlug === existing.parentSlug) {
+    return;
+  }
+
+  // Artykuły kategorii głównej rozpoznajemy po kolumnie category, podkategorii - po subcategory
+  const match = existing.parentSlug ? { subcategory: existing.name } : { category: existing.name };
+  const parent = taxonomy.find(other => other.slug === category.parentSlug);
+
+  let changes: Record<string, string | null>;
+  if (parent) {
+    changes = { category: parent.name, subcategory: category.name };
+  } else if (existing.parentSlug) {
+    changes = { category: category.name, subcategory: null };
+  } else {
+    // Kategoria główna zachowuje podkategorie swoich artykułów
+    changes = { category: category.name };
+  }
+
+  await supabaseService.updateData('categorized_articles', changes, match);
+
+  // Etykiety dodatkowe zawierają tylko nazwy kategorii głównych
+  if (!existing.parentSlug) {
+    await replaceSecondaryLabel(existing.name, parent ? parent.name : category.name);
+  }
+}
+
+/**
+ * Update a category (input must pass validateCategoryInput); renaming or moving it also moves
+ * the cached articles
+ * @param existing - Category to update
+ * @param input - Changed fields
+ * @returns Updated category
+ */
+async function updateCategory(existing: CategoryDefinition, input: CategoryInput): Promise<CategoryDefinition> {
+  assertEditable();
+  const taxonomy = await getTaxonomy();
+  const category = normalizeCategory(input, existing);
+
+  if (category.isFallback && !existing.isFallback) {
+    await clearOtherFallbacks(category.slug, taxonomy);
+  }
+  await supabaseService.updateData(TABLE, toCategoryRow(category), { slug: existing.slug });
+  await relocateArticles(existing, category, taxonomy);
+  invalidateTaxonomyCache();
+  // Reguły wskazują kategorię po slugu (ON UPDATE CASCADE w bazie)
+  categoryRulesService.invalidateRulesCache();
+
+  return category;
+}
+
+/**
+ * Delete a category; cached articles of a subcategory stay in its parent category, articles of
+ * a top-level category move to the fallback category
+ * @param existing - Category to delete (must not be the fallback category or have subcategories)
+ * @returns Name of the category the articles were moved to
+ */
+async function deleteCategory(existing: CategoryDefinition): Promise<string> {
+  assertEditable();
+  if (existing.isFallback) {
+    throw new Error('The fallback category cannot be deleted');
+  }
+
+  const taxonomy = await getTaxonomy();
+  if (getSubcategories(taxonomy, existing.slug).length > 0) {
+    throw new Error(`Category "${existing.slug}" has subcategories, delete or move them first`);
+  }
+
+  const parent = taxonomy.find(category => category.slug === existing.parentSlug);
+  let movedTo: string;
+  if (parent) {
+    movedTo = parent.name;
+    await supabaseService.updateData('categorized_articles', { subcategory: null }, { subcategory: existing.name });
+  } else {
+    movedTo = getFallbackCategory(taxonomy.filter(category => category.slug !== existing.slug));
+    await supabaseService.updateData('categorized_articles', { category: movedTo }, { category: existing.name });
+    await replaceSecondaryLabel(existing.name, null);
+  }
+  await supabaseService.deleteData(TABLE, { slug: existing.slug });
+  invalidateTaxonomyCache();
+  // Reguły usuniętej kategorii znikają razem z nią (ON DELETE CASCADE w bazie)
+  categoryRulesService.invalidateRulesCache();
+
+  return movedTo;
+}
+
+export default {
+  toCategorySlug,
+  getTaxonomy,
+  invalidateTaxonomyCache,
+  getFallbackCategory,
+  getSubcategories,
+  buildCategoryTree,
+  getCategoryPlacement,
+  findCategory,
+  validateCategoryInput,
+  createCategory,
+  updateCategory,
+  deleteCategory
+};
@@ -1,31 +1,58 @@
 import * as openaiService from './openai';
-import supabaseService from './supabase';
+import { isLlmConfigured } from '../lib/llmProviders';
+import supabaseService, { CategorizedArticle } from './supabase';
+import categoriesService, { CategoryDefinition } from './categoriesService';
+import categoryCorrectionsService from './categoryCorrectionsService';
+import classifierService from './classifierService';
+import categoryRulesService from './categoryRulesService';
 import config from '../config';
-import { Article } from '../lib/scraper';
-
-// Predefined categories that we want the AI to use
-const predefinedCategories = [
-  'Electronics',
-  'Home & Household',
-  'Fashion',
-  'Food & Grocery',
-  'Sports & Outdoor',
-  'Beauty & Health',
-  'Travel',
-  'Entertainment',
-  'Kids & Toys',
-  'Automotive',
-  'Services',
-  'Other Deals'
-] as const;
-
-export type Category = typeof predefinedCategories[number];
+import { Article, CategoryLabel } from '../lib/scraper';
+import { resolveArticleSite } from '../lib/sites';
+import { getKeywordDictionary } from '../lib/keywordMatching';
+import { CategoryRule, prepareRuleSubject, evaluateRules, sumRuleHits } from '../lib/categoryRules';
+import { createArticleIdFromLink, createLegacyArticleId, canonicalizeLink } from '../lib/links';
+
+// Category names come from the taxonomy (categories table), see categoriesService
+export type Category = string;
+
+/**
+ * Category proposed for an article with its confidence
+ */
+export interface CategoryScore {
+  /** Category name (top-level or subcategory) */
+  category: Category;
+  /** Confidence between 0 and 1 (model estimate or share of keyword matches) */
+  confidence: number;
+}
+
+/**
+ * How the category of an article was assigned (category_source column)
+ */
+export type CategorySource = 'ai' | 'classifier' | 'keywords' | 'manual';
+
+/**
+ * Ranked categories of an article with the strategy that produced them
+ */
+interface SourcedScores {
+  scores: CategoryScore[];
+  source: CategorySource;
+}
+
+/**
+ * Options of AI categorization of a single article
+ */
+export interface AICategorizeOptions {
+  /** Categorize offline when the answer names no category of the taxonomy (default true); otherwise return no scores */
+  fallbackToOffline?: boolean;
+}
 
 export interface CategorizeOptions {
   /** Whether to use AI for categorization */
   useAI?: boolean;
   /** Whether to save to Supabase */
   saveToSupabase?: boolean;
+  /** Whether AI categorization sends several articles per request (default from config) */
+  batchAI?: boolean;
 }
 
 export interface CacheCheckResult {
@@ -56,6 +83,8 @@ function isSupabaseConfigured(): boolean {
 
 function toArticleFromSupabase(cachedArticle: any): Article {
   return {
+    // Detail page fields (if the article was enriched) come from the shared mapper
+    ...supabaseService.toArticle(cachedArticle),
     title: cachedArticle.title || '',
     description: cachedArticle.description || '',
     price: cachedArticle.price || '',
@@ -101,144 +130,456 @@ async function upsertDataToSupabase(table: string, data: any, options: any): Pro
  */
 function createArticleId(link: string): string {
   // Use the same method as in supabaseService to ensure consistency
-  return Buffer.from(link).toString('base64');
+  return createArticleIdFromLink(link);
+}
+
+/**
+ * Describe the categories for the AI prompts: the list of names (one line, subcategories as
+ * "Parent > Subcategory") and the descriptions
+ * @param taxonomy - Categories
+ * @returns Prompt fragment
+ */
+function describeTaxonomy(taxonomy: CategoryDefinition[]): string {
+  const labels: Array<{ label: string; description: string | null }> = [];
+  for (const category of categoriesService.buildCategoryTree(taxonomy)) {
+    labels.push({ label: category.name, description: category.description });
+    for (const subcategory of category.subcategories) {
+      labels.push({ label: `${category.name} > ${subcategory.name}`, description: subcategory.description });
+    }
+  }
+
+  const descriptions = labels
+    .filter(entry => entry.description)
+    .map(entry => `- ${entry.label}: ${entry.description}`);
+
+  return [labels.map(entry => entry.label).join(', '), ...(descriptions.length > 0 ? ['', 'Category descriptions:', ...descriptions] : [])].join('\n');
 }
 
 /**
- * Categorizes an article using OpenAI
+ * Instructions for the format of the ranked categories in the AI answers
+ * @returns Prompt fragment
+ */
+function describeScoreFormat(): string {
+  return `List up to ${config.API.CATEGORIZATION.MULTI_LABEL.MAX_LABELS} categories per product, best match first, with a confidence between 0 and 1.
+Use the most specific category that fits (a subcategory if one matches).`;
+}
+
+// Znaki na token w odpowiedziach JSON (dużo interpunkcji, więc mniej niż ~4 znaki w zwykłym tekście)
+const ANSWER_CHARS_PER_TOKEN = 3;
+
+/**
+ * Estimate the max_tokens an AI answer needs: every product gets MAX_LABELS entries with the longest
+ * category label of the taxonomy, so a complete answer is never cut off before its closing `]`
+ * @param taxonomy - Categories
+ * @param products - Number of products in the answer
+ * @returns Token budget
+ */
+function estimateAnswerTokens(taxonomy: CategoryDefinition[], products: number): number {
+  const longestLabel = Math.max(0, ...categoriesService.buildCategoryTree(taxonomy).flatMap(category => [
+    category.name.length,
+    ...category.subcategories.map(subcategory => `${category.name} > ${subcategory.name}`.length)
+  ]));
+  const scoreChars = '{"category": "", "confidence": 0.95}, '.length + longestLabel;
+  const productChars = `{"id": "${products}", "categories": []}, `.length
+    + config.API.CATEGORIZATION.MULTI_LABEL.MAX_LABELS * scoreChars;
+
+  return 20 + Math.ceil(products * productChars / ANSWER_CHARS_PER_TOKEN);
+}
+
+/**
+ * Categorizes an article using the configured LLM provider
  * @param article - Article to categorize
- * @returns Category name
+ * @param taxonomy - Categories (read from the taxonomy if omitted)
+ * @param rules - Categorization rules for the offline fallback (read if omitted)
+ * @param options - Fallback options
+ * @returns Ranked categories; offline scores (see scoreArticleOffline) or, with fallbackToOffline false, no scores
+ * if the answer names no category of the taxonomy
  */
-async function categorizeArticleWithAI(article: Article): Promise<Category> {
-  try {
-    const { title, description, price } = article;
-    
-    const prompt = `
-Categorize the following product into ONE of these categories:
-${predefinedCategories.join(', ')}
+async function categorizeArticleWithAI(
+  article: Article,
+  taxonomy?: CategoryDefinition[],
+  rules?: CategoryRule[],
+  options: AICategorizeOptions = {}
+): Promise<CategoryScore[]> {
+  const categories = taxonomy || await categoriesService.getTaxonomy();
+  const { title, description, price } = article;
+  
+  const prompt = `
+Categorize the following product into these categories:
+${describeTaxonomy(categories)}
 
 Product:
 Title: ${title}
 Description: ${description}
 Price: ${price}
 
-Respond with ONLY the category name, nothing else.
+${describeScoreFormat()}
+Respond with ONLY a JSON array, e.g. [{"category": "Electronics", "confidence": 0.9}].
 `;
 
-    const predictedCategory = await openaiService.generateCompletion(prompt, {
-      model: "gpt-3.5-turbo",
-      temperature: 0.3,
-      max_tokens: 20,
-      systemMessage: "You are a helpful assistant that categorizes products into predefined categories. Only respond with a single category name from the provided list, nothing else."
-    });
+  const answer = await openaiService.generateCompletion(prompt, {
+    temperature: 0.3,
+    max_tokens: estimateAnswerTokens(categories, 1),
+    systemMessage: "You are a helpful assistant that categorizes products into predefined categories. Only respond with a JSON array of objects with a category name from the provided list and a confidence, nothing else."
+  });
+  
+  // Odpowiedź bez JSON-a może być samą nazwą kategorii
+  const entries = parseJsonArray(answer);
+  const scores = toCategoryScores(entries.length > 0 ? entries : [{ category: answer, confidence: 1 }], categories);
+  if (scores.length > 0 || options.fallbackToOffline === false) {
+    if (scores.length === 0) {
+      console.warn(`LLM answer names no category of the taxonomy "${title}": ${answer}`);
+    }
+    return scores;
+  }
+  
+  console.warn(`LLM answer names no category of the taxonomy, categorizing offline "${title}": ${answer}`);
+  return scoreArticleOffline(article, categories, rules || await categoryRulesService.getRules());
+}
+
+/**
+ * Match a category returned by the model to the taxonomy (case-insensitive name or slug)
+ * @param value - Category name from the model
+ * @param taxonomy - Categories
+ * @returns Category name or null if the name is not in the taxonomy
+ */
+function toPredefinedCategory(value: unknown, taxonomy: CategoryDefinition[]): Category | null {
+  return categoriesService.findCategory(taxonomy, value)?.name || null;
+}
+
+/**
+ * Turn the `{ category, confidence }` entries of a model answer into ranked scores: categories outside
+ * the taxonomy are dropped, a missing confidence counts as 1 and repeated categories keep the highest one
+ * @param entries - Entries from the answer
+ * @param taxonomy - Categories
+ * @returns Scores sorted by confidence, highest first
+ */
+function toCategoryScores(entries: unknown[], taxonomy: CategoryDefinition[]): CategoryScore[] {
+  const best = new Map<string, number>();
+
+  for (const entry of entries) {
+    if (!entry || typeof entry !== 'object') continue;
+    const { category: value, confidence: rawConfidence } = entry as { category?: unknown; confidence?: unknown };
+    const category = toPredefinedCategory(value, taxonomy);
+    if (!category) continue;
+
+    const parsed = typeof rawConfidence === 'number' ? rawConfidence : parseFloat(String(rawConfidence));
+    const confidence = Number.isFinite(parsed) ? Math.min(1, Math.max(0, parsed)) : 1;
+    best.set(category, Math.max(confidence, best.get(category) ?? 0));
+  }
+
+  return Array.from(best, ([category, confidence]) => ({ category, confidence }))
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Read the JSON array from a model answer (code fences and text around it are ignored)
+ * @param answer - Raw model answer
+ * @returns Parsed objects or an empty array if the answer holds no valid JSON array
+ */
+function parseJsonArray(answer: string): Array<Record<string, unknown>> {
+  const start = answer.indexOf('[');
+  const end = answer.lastIndexOf(']');
+  if (start === -1 || end <= start) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(answer.slice(start, end + 1));
+    return Array.isArray(parsed) ? parsed.filter(entry => entry && typeof entry === 'object') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Categorizes several articles with a single LLM request answering with a JSON array
+ * @param articles - Articles to categorize (at most CATEGORIZATION_AI_BATCH_SIZE)
+ * @param taxonomy - Categories (read from the taxonomy if omitted)
+ * @returns Ranked categories by article link; articles missing from the answer or with no category
+ * of the taxonomy are left out
+ */
+async function categorizeArticlesWithAIBatch(articles: Article[], taxonomy?: CategoryDefinition[]): Promise<Record<string, CategoryScore[]>> {
+  const categoryList = taxonomy || await categoriesService.getTaxonomy();
+  const descriptionLength = config.API.CATEGORIZATION.AI_BATCH.DESCRIPTION_LENGTH;
+
+  // Artykuły dostają krótkie numery zamiast długich identyfikatorów, żeby oszczędzać tokeny
+  const items = articles.map((article, index) => ({
+    id: String(index + 1),
+    title: article.title,
+    description: (article.description || '').slice(0, descriptionLength),
+    price: article.price
+  }));
+
+  const prompt = `
+Categorize each of the following products into these categories:
+${describeTaxonomy(categoryList)}
+
+Products (JSON):
+${JSON.stringify(items)}
+
+${describeScoreFormat()}
+Respond with ONLY a JSON array with one object per product, e.g. [{"id": "1", "categories": [{"category": "Electronics", "confidence": 0.9}]}].
+`;
+
+  const answer = await openaiService.generateCompletion(prompt, {
+    temperature: 0.3,
+    max_tokens: estimateAnswerTokens(categoryList, articles.length),
+    systemMessage: "You are a helpful assistant that categorizes products into predefined categories. Only respond with a JSON array of objects with the product id and its categories from the provided list with confidences, nothing else."
+  });
+
+  const categories: Record<string, CategoryScore[]> = {};
+  for (const entry of parseJsonArray(answer)) {
+    const index = parseInt(String(entry.id), 10) - 1;
+    // Pojedyncza kategoria ("category") też jest akceptowana
+    const scores = toCategoryScores(Array.isArray(entry.categories) ? entry.categories : [entry], categoryList);
+    if (articles[index] && scores.length > 0) {
+      categories[articles[index].link] = scores;
+    }
+  }
+
+  return categories;
+}
+
+/**
+ * Categorizes articles with AI in batches, falling back to per-article requests for articles the batch
+ * answer did not cover and to offline categorization when a request fails
+ * @param articles - Articles to categorize
+ * @param taxonomy - Categories
+ * @param rules - Categorization rules
+ * @returns Ranked categories with their source by article link
+ */
+async function categorizeArticlesInBatches(articles: Article[], taxonomy: CategoryDefinition[], rules: CategoryRule[]): Promise<Record<string, SourcedScores>> {
+  const batchSize = Math.max(1, config.API.CATEGORIZATION.AI_BATCH.SIZE);
+  const categories: Record<string, SourcedScores> = {};
+
+  for (let i = 0; i < articles.length; i += batchSize) {
+    const batch = articles.slice(i, i + batchSize);
+
+    try {
+      const answer = await categorizeArticlesWithAIBatch(batch, taxonomy);
+      for (const [link, scores] of Object.entries(answer)) {
+        categories[link] = { scores, source: 'ai' };
+      }
+    } catch (error) {
+      // Nieudane zapytanie zbiorcze najpewniej powtórzy się dla każdego artykułu - od razu kategoryzujemy offline
+      console.error('Error in batched AI categorization, categorizing the batch offline:', error);
+      for (const article of batch) {
+        categories[article.link] = scoreOffline(article, taxonomy, rules);
+      }
+      continue;
+    }
+
+    const missing = batch.filter(article => !categories[article.link]);
+    if (missing.length > 0) {
+      console.log(`Batch answer covered ${batch.length - missing.length}/${batch.length} articles, categorizing the rest one by one`);
+    }
+
+    for (const article of missing) {
+      categories[article.link] = await scoreArticleWithAIOrOffline(article, taxonomy, rules);
+    }
+  }
+
+  return categories;
+}
+
+/**
+ * Score the categories of an article with the weighted rules: the keywords of the taxonomy and of the
+ * dictionary of the site language (config/keywords/<locale>.json) count as whole-word rules of weight 1,
+ * the rules from the category_rules table add phrases, regular expressions, merchants and negative weights.
+ * A match in the title counts fully, a match only in the description CATEGORIZATION_RULES_DESCRIPTION_WEIGHT.
+ * Every top-level category sums the points of its own and its subcategories' rules and is represented by its
+ * best scoring subcategory (if any). The confidence of a category is points / (points + 2): one keyword in
+ * the title gives 0.33, two 0.5, five 0.71
+ * @param article - Article to categorize
+ * @param taxonomy - Categories
+ * @param rules - Rules from the category_rules table
+ * @returns Ranked categories; only the fallback category (confidence 0) when no category scores above zero
+ */
+function scoreArticleWithKeywords(article: Article, taxonomy: CategoryDefinition[], rules: CategoryRule[] = []): CategoryScore[] {
+  const { locale } = resolveArticleSite(article);
+  const dictionary = getKeywordDictionary(locale);
+  // Słowa kluczowe taksonomii i słownika języka działają jak reguły o wadze 1
+  const keywordRules: CategoryRule[] = taxonomy.flatMap(category =>
+    [...category.keywords, ...(dictionary[category.slug] || [])].map(pattern => ({
+      id: `${category.slug}:${pattern}`,
+      categorySlug: category.slug,
+      type: 'keyword' as const,
+      pattern,
+      weight: 1,
+      field: 'any' as const,
+      locale: null
+    }))
+  );
+  const hits = evaluateRules([...keywordRules, ...rules], prepareRuleSubject(article, locale));
+  const candidates: Array<{ category: Category; points: number }> = [];
+  
+  // Check each top-level category's rules against the article
+  for (const category of categoriesService.buildCategoryTree(taxonomy)) {
+    if (category.isFallback) continue; // Skip the fallback category in matching
     
-    // Validate that the returned category is in our predefined list
-    if (predictedCategory && predefinedCategories.includes(predictedCategory as Category)) {
-      return predictedCategory as Category;
+    // Sum the points of this category and its subcategories
+    const points = sumRuleHits(hits, [category.slug, ...category.subcategories.map(subcategory => subcategory.slug)]);
+    if (points <= 0) continue;
+    
+    // Zejście poziom niżej: podkategoria z największą liczbą punktów
+    let deepest: Category = category.name;
+    let maxSubcategoryPoints = 0;
+    for (const subcategory of category.subcategories) {
+      const subcategoryPoints = sumRuleHits(hits, [subcategory.slug]);
+      if (subcategoryPoints > maxSubcategoryPoints) {
+        maxSubcategoryPoints = subcategoryPoints;
+        deepest = subcategory.name;
+      }
     }
     
-    // If the model returns something not in our list, default to Other Deals
-    return 'Other Deals';
+    candidates.push({ category: deepest, points });
+  }
+  
+  if (candidates.length === 0) {
+    return [{ category: categoriesService.getFallbackCategory(taxonomy), confidence: 0 }];
+  }
+  
+  return candidates
+    .sort((a, b) => b.points - a.points)
+    .map(candidate => ({ category: candidate.category, confidence: Math.round(candidate.points / (candidate.points + 2) * 100) / 100 }));
+}
+
+/**
+ * Categorize an article without AI: with the offline classifier (see classifierService) when it is trained
+ * and its best category reaches CATEGORIZATION_CLASSIFIER_MIN_CONFIDENCE, with the rules otherwise
+ * @param article - Article to categorize
+ * @param taxonomy - Categories
+ * @param rules - Rules from the category_rules table
+ * @returns Ranked categories
+ */
+function scoreArticleOffline(article: Article, taxonomy: CategoryDefinition[], rules: CategoryRule[] = []): CategoryScore[] {
+  return scoreOffline(article, taxonomy, rules).scores;
+}
+
+/**
+ * Categorize an article without AI, see scoreArticleOffline
+ * @param article - Article to categorize
+ * @param taxonomy - Categories
+ * @param rules - Rules from the category_rules table
+ * @returns Ranked categories with the strategy that produced them
+ */
+function scoreOffline(article: Article, taxonomy: CategoryDefinition[], rules: CategoryRule[]): SourcedScores {
+  // Etykiety modelu spoza aktualnej taksonomii są pomijane
+  const scores = toCategoryScores(
+    classifierService.classifyArticle(article).map(prediction => ({
+      category: prediction.label,
+      confidence: Math.round(prediction.probability * 1000) / 1000
+    })),
+    taxonomy
+  );
+
+  if (scores.length > 0 && scores[0].confidence >= config.API.CATEGORIZATION.CLASSIFIER.MIN_CONFIDENCE) {
+    return { scores, source: 'classifier' };
+  }
+  return { scores: scoreArticleWithKeywords(article, taxonomy, rules), source: 'keywords' };
+}
+
+/**
+ * Categorize an article with a single AI request, offline when AI fails or names no category of the taxonomy
+ * @param article - Article to categorize
+ * @param taxonomy - Categories
+ * @param rules - Rules from the category_rules table
+ * @returns Ranked categories with the strategy that produced them
+ */
+async function scoreArticleWithAIOrOffline(article: Article, taxonomy: CategoryDefinition[], rules: CategoryRule[]): Promise<SourcedScores> {
+  try {
+    const scores = await categorizeArticleWithAI(article, taxonomy, rules, { fallbackToOffline: false });
+    if (scores.length > 0) {
+      return { scores, source: 'ai' };
+    }
+    console.log(`Categorizing offline "${article.title}"`);
   } catch (error) {
-    console.error('Error calling OpenAI API:', error);
-    // In case of any error, return the default category
-    return 'Other Deals';
+    console.error('Error in AI categorization, categorizing offline:', error);
   }
+  return scoreOffline(article, taxonomy, rules);
 }
 
 /**
- * Fallback categorization method using keywords 
+ * Fallback categorization method using the keywords of the taxonomy and the weighted rules
  * @param article - Article to categorize
- * @returns Category name
+ * @param taxonomy - Categories
+ * @param rules - Rules from the category_rules table
+ * @returns Name of the best (deepest) matching category
+ */
+function categorizeArticleWithKeywords(article: Article, taxonomy: CategoryDefinition[], rules: CategoryRule[] = []): Category {
+  return scoreArticleWithKeywords(article, taxonomy, rules)[0].category;
+}
+
+/**
+ * Pick the labels stored for an article from its ranked categories: the best one is the primary category,
+ * other top-level categories above CATEGORIZATION_SECONDARY_MIN_CONFIDENCE become secondary labels
+ * (at most CATEGORIZATION_MAX_LABELS labels in total)
+ * @param taxonomy - Categories
+ * @param scores - Ranked categories
+ * @returns Labels, primary first
+ */
+function selectLabels(taxonomy: CategoryDefinition[], scores: CategoryScore[]): CategoryLabel[] {
+  const { MAX_LABELS, SECONDARY_MIN_CONFIDENCE } = config.API.CATEGORIZATION.MULTI_LABEL;
+  const labels: CategoryLabel[] = [];
+
+  for (const [index, score] of scores.entries()) {
+    if (labels.length >= Math.max(1, MAX_LABELS)) break;
+    if (index > 0 && score.confidence < SECONDARY_MIN_CONFIDENCE) break;
+
+    const placement = categoriesService.getCategoryPlacement(taxonomy, score.category);
+    // Kolejna podkategoria tej samej kategorii głównej nie jest osobną etykietą
+    if (labels.some(label => label.category === placement.category)) continue;
+
+    labels.push({ ...placement, confidence: score.confidence });
+  }
+
+  return labels;
+}
+
+/**
+ * Copy an article with its assigned labels
+ * @param article - Article
+ * @param labels - Labels, primary first
+ * @returns Labeled article
  */
-function categorizeArticleWithKeywords(article: Article): Category {
-  // Define main keywords for each category
-  const categoryKeywords: Record<Category, string[]> = {
-    'Electronics': [
-      'phone', 'smartphone', 'iphone', 'samsung', 'laptop', 'computer', 'pc', 'monitor', 'tv', 'television', 
-      'smart', 'electronic', 'device', 'gadget', 'tech', 'speaker', 'headphone', 'earbuds', 'audio', 'video', 
-      'camera', 'gaming', 'console', 'playstation', 'xbox', 'nintendo', 'wireless', 'bluetooth', 'charging', 
-      'tablet', 'ipad', 'keyboard', 'mouse', 'router', 'wifi', 'printer'
-    ],
-    'Home & Household': [
-      'furniture', 'home', 'kitchen', 'bathroom', 'bedroom', 'living', 'house', 'garden', 'patio', 'décor', 
-      'decoration', 'appliance', 'cleaning', 'vacuum', 'chair', 'table', 'sofa', 'bed', 'mattress', 'pillow', 
-      'curtains', 'lamp', 'lighting', 'cookware', 'utensils', 'dishes', 'storage', 'organizer', 'tools', 
-      'lawn', 'plants', 'bbq', 'grill'
-    ],
-    'Fashion': [
-      'clothing', 'clothes', 'fashion', 'wear', 'dress', 'shirt', 'pants', 'jeans', 'jacket', 'coat', 
-      'shoes', 'sneakers', 'boots', 'sandals', 'accessory', 'accessories', 'watch', 'jewelry', 'bag', 
-      'handbag', 'backpack', 'wallet', 'belt', 'hat', 'cap', 'scarf', 'gloves', 'socks', 'underwear', 
-      't-shirt', 'shorts', 'hoodie', 'sweater'
-    ],
-    'Food & Grocery': [
-      'food', 'grocery', 'meal', 'snack', 'drink', 'beverage', 'coffee', 'tea', 'water', 'juice', 
-      'soda', 'beer', 'wine', 'alcohol', 'fruit', 'vegetable', 'meat', 'fish', 'dairy', 'milk', 'cheese', 
-      'yogurt', 'bread', 'pasta', 'rice', 'cereal', 'chocolate', 'candy', 'sweet', 'organic', 'restaurant', 
-      'takeaway', 'delivery'
-    ],
-    'Sports & Outdoor': [
-      'sport', 'fitness', 'exercise', 'workout', 'gym', 'training', 'running', 'cycling', 'bike', 'bicycle', 
-      'hiking', 'camping', 'outdoor', 'adventure', 'fishing', 'hunting', 'golf', 'tennis', 'swimming', 
-      'basketball', 'football', 'soccer', 'baseball', 'volleyball', 'ski', 'snowboard', 'skateboard', 
-      'surf', 'yoga', 'mat'
-    ],
-    'Beauty & Health': [
-      'beauty', 'health', 'skincare', 'skin', 'face', 'body', 'hair', 'makeup', 'cosmetic', 'nail', 
-      'perfume', 'fragrance', 'cream', 'lotion', 'shampoo', 'conditioner', 'soap', 'shower', 'bath', 
-      'toothbrush', 'toothpaste', 'dental', 'vitamin', 'supplement', 'medicine', 'pharmacy', 'first aid', 
-      'healthcare', 'wellness'
-    ],
-    'Travel': [
-      'travel', 'trip', 'vacation', 'holiday', 'hotel', 'resort', 'booking', 'flight', 'airline', 'airplane', 
-      'airport', 'ticket', 'luggage', 'suitcase', 'passport', 'tour', 'tourism', 'tourist', 'destination', 
-      'beach', 'mountain', 'city', 'country', 'international', 'domestic', 'train', 'bus', 'car rental', 'cruise'
-    ],
-    'Entertainment': [
-      'entertainment', 'fun', 'game', 'toy', 'play', 'movie', 'film', 'cinema', 'theater', 'theatre', 
-      'music', 'concert', 'festival', 'show', 'event', 'ticket', 'stream', 'streaming', 'subscription', 
-      'netflix', 'spotify', 'disney', 'amazon', 'hbo', 'book', 'ebook', 'audiobook', 'podcast', 'board game'
-    ],
-    'Kids & Toys': [
-      'kid', 'child', 'children', 'baby', 'infant', 'toddler', 'toy', 'game', 'play', 'lego', 'doll', 
-      'action figure', 'puzzle', 'educational', 'learning', 'school', 'daycare', 'stroller', 'car seat', 
-      'diaper', 'bottle', 'pacifier', 'clothing', 'shoes', 'book', 'backpack', 'lunch box'
-    ],
-    'Automotive': [
-      'car', 'auto', 'automotive', 'vehicle', 'truck', 'suv', 'van', 'motorcycle', 'scooter', 'bike', 
-      'part', 'accessory', 'oil', 'tire', 'wheel', 'battery', 'engine', 'transmission', 'brake', 'light', 
-      'seat', 'cover', 'mat', 'charger', 'cleaner', 'wash', 'polish', 'repair', 'maintenance', 'service'
-    ],
-    'Services': [
-      'service', 'subscription', 'membership', 'plan', 'insurance', 'warranty', 'protection', 'repair', 
-      'installation', 'setup', 'delivery', 'shipping', 'maintenance', 'cleaning', 'consulting', 'advice', 
-      'support', 'assistance', 'care', 'education', 'course', 'class', 'tutorial', 'training', 'coaching', 
-      'financial', 'legal', 'medical', 'dental'
-    ],
-    'Other Deals': [] // Default category
+function withLabels(article: Article, labels: CategoryLabel[]): Article {
+  return {
+    ...article,
+    subcategory: labels[0].subcategory,
+    confidence: labels[0].confidence,
+    secondaryCategories: labels.slice(1).map(label => label.category),
+    categoryScores: labels
   };
+}
 
-  const textToAnalyze = `${article.title.toLowerCase()} ${article.description.toLowerCase()}`;
-  
-  let bestCategory: Category = 'Other Deals';
-  let maxMatches = 0;
-  
-  // Check each category's keywords against the text
-  for (const [category, keywords] of Object.entries(categoryKeywords) as [Category, string[]][]) {
-    if (category === 'Other Deals') continue; // Skip the default category in matching
-    
-    // Count how many keywords of this category appear in the text
-    const matches = keywords.filter(keyword => textToAnalyze.includes(keyword)).length;
-    
-    // If this category has more matches, it becomes the best candidate
-    if (matches > maxMatches) {
-      maxMatches = matches;
-      bestCategory = category;
+/**
+ * Replace the computed labels of articles whose category was locked by hand with the stored ones,
+ * so the response matches what stays in the database
+ * @param articles - Categorized articles
+ * @param articleLabels - Map of article links to their labels, updated in place
+ * @returns Links of the locked articles
+ */
+async function applyLockedLabels(articles: Article[], articleLabels: Record<string, CategoryLabel[]>): Promise<Set<string>> {
+  const lockedLinks = new Set<string>();
+  if (!isSupabaseConfigured()) {
+    return lockedLinks;
+  }
+
+  const lockedCategories = await categoryCorrectionsService.getLockedCategories(articles.map(article => createArticleId(article.link)));
+  for (const article of articles) {
+    const locked = lockedCategories.get(createArticleId(article.link));
+    if (!locked) {
+      continue;
     }
+
+    articleLabels[article.link] = locked.category_scores && locked.category_scores.length > 0
+      ? locked.category_scores
+      : [{ category: locked.category, subcategory: locked.subcategory ?? null, confidence: locked.confidence ?? 1 }];
+    lockedLinks.add(article.link);
   }
-  
-  return bestCategory;
+
+  return lockedLinks;
 }
 
 /**
@@ -268,10 +609,30 @@ async function checkCache(articles: Article[]): Promise<CacheCheckResult> {
     });
     
     // Process in batches to avoid query string length limitations
-    const batchSize = 20; // Reduced from 100 to avoid query string length issues
+    const batchSize = 200; // Fixed-length hash ids keep the query string short
     const cachedArticles: Record<string, Article[]> = {};
     const cachedArticleIds: string[] = [];
     
+    // Adds cached rows to the result; `requestedId` maps a row to the id the article was looked up with
+    const addCachedRows = (data: CategorizedArticle[], requestedId: (row: CategorizedArticle) => string) => {
+      data.forEach(cachedArticle => {
+        const article = toArticleFromSupabase(cachedArticle);
+        
+        // Artykuł trafia też do kategorii z etykiet dodatkowych
+        for (const category of supabaseService.toCategoryLabels(cachedArticle)) {
+          if (!cachedArticles[category]) {
+            cachedArticles[category] = [];
+          }
+          
+          cachedArticles[category].push(article);
+        }
+        
+        // Remove from the map to get uncached articles later
+        articleMap.delete(requestedId(cachedArticle));
+        cachedArticleIds.push(cachedArticle.article_id);
+      });
+    };
+    
     for (let i = 0; i < articleIds.length; i += batchSize) {
       const batchIds = articleIds.slice(i, i + batchSize);
       
@@ -287,24 +648,29 @@ async function checkCache(articles: Article[]): Promise<CacheCheckResult> {
         }
       });
       
-      // Process the results
       if (data && Array.isArray(data) && data.length > 0) {
-        data.forEach((cachedArticle: any) => {
-          const article = toArticleFromSupabase(cachedArticle);
-          const category = cachedArticle.category;
-          
-          if (!cachedArticles[category]) {
-            cachedArticles[category] = [];
-          }
-          
-          cachedArticles[category].push(article);
-          
-          // Remove from the map to get uncached articles later
-          articleMap.delete(cachedArticle.article_id);
-        });
-        
-        // Add to cached article IDs
-        cachedArticleIds.push(...data.map((item: any) => item.article_id));
+        addCachedRows(data, row => row.article_id);
+      }
+    }
+    
+    // Artykuły zapisane pod dawnym identyfikatorem Base64 szukamy jeszcze po legacy_article_id
+    const idsByLegacyId = new Map<string, string>();
+    articleMap.forEach((article, articleId) => {
+      idsByLegacyId.set(createLegacyArticleId(article.originalLink || article.link), articleId);
+    });
+    const legacyIds = Array.from(idsByLegacyId.keys());
+    
+    for (let i = 0; i < legacyIds.length; i += batchSize) {
+      const data = await getDataFromSupabase('categorized_articles', {
+        filter: {
+          column: 'legacy_article_id',
+          operator: 'in',
+          value: legacyIds.slice(i, i + batchSize)
+        }
+      });
+      
+      if (data && Array.isArray(data) && data.length > 0) {
+        addCachedRows(data, row => idsByLegacyId.get(row.legacy_article_id || '')!);
       }
     }
     
@@ -329,10 +695,15 @@ async function checkCache(articles: Article[]): Promise<CacheCheckResult> {
 /**
  * Save categorized articles to Supabase
  * @param articles - Articles to save
- * @param articleCategories - Map of article links to categories
+ * @param articleLabels - Map of article links to their labels (primary category first, see selectLabels)
+ * @param articleSources - Map of article links to the strategy that assigned their labels
  * @returns Number of articles saved
  */
-async function saveToSupabase(articles: Article[], articleCategories: Record<string, string>): Promise<number> {
+async function saveToSupabase(
+  articles: Article[],
+  articleLabels: Record<string, CategoryLabel[]>,
+  articleSources: Record<string, CategorySource> = {}
+): Promise<number> {
   if (!isSupabaseConfigured()) {
     console.warn('Supabase is not configured, skipping save to Supabase');
     return 0;
@@ -341,24 +712,37 @@ async function saveToSupabase(articles: Article[], articleCategories: Record<str
   try {
     // Convert articles to Supabase records
     const records = articles.map(article => {
-      const category = articleCategories[article.link];
-      if (!category) {
+      const labels = articleLabels[article.link];
+      if (!labels || labels.length === 0) {
         throw new Error(`No category found for article: ${article.title}`);
       }
       
       return {
         article_id: createArticleId(article.link),
+        legacy_article_id: createLegacyArticleId(article.originalLink || article.link),
         title: article.title,
         description: article.description || '',
         price: article.price || '',
         shipping_price: article.shippingPrice || '',
         image: article.image || '',
-        link: article.link,
-        category: category,
-        created_at: new Date().toISOString()
+        link: canonicalizeLink(article.link),
+        category: labels[0].category,
+        subcategory: labels[0].subcategory,
+        confidence: labels[0].confidence,
+        secondary_categories: labels.slice(1).map(label => label.category),
+        category_scores: labels,
+        category_source: articleSources[article.link] ?? null,
+        // Dla zablokowanych artykułów wyzwalacz z migracji 013 zostawia zapisaną kategorię
+        categorized_at: new Date().toISOString(),
+        created_at: new Date().toISOString(),
+        site: resolveArticleSite(article).id,
+        ...supabaseService.toPriceColumns(article),
+        ...supabaseService.toStatusColumns(article),
+        ...supabaseService.toDetailColumns(article),
+        ...supabaseService.toMerchantColumns(article)
       };
     });
-    
+
     // Process in batches to avoid payload too large errors
     const batchSize = 50;
     let savedCount = 0;
@@ -414,38 +798,54 @@ async function categorizeArticles(articles: Article[], options: CategorizeOption
     }
     
     // Categorize uncached articles
-    const articleCategories: Record<string, string> = {};
-    const useAI = options.useAI !== false && !!config.OPENAI_API_KEY;
+    const articleLabels: Record<string, CategoryLabel[]> = {};
+    const articleSources: Record<string, CategorySource> = {};
+    const useAI = options.useAI !== false && isLlmConfigured();
+    const batchAI = useAI && (options.batchAI ?? config.API.CATEGORIZATION.AI_BATCH.ENABLED);
+    const taxonomy = await categoriesService.getTaxonomy();
+    const rules = await categoryRulesService.getRules();
+    // W trybie wsadowym kategorie są znane z góry, jedno zapytanie obsługuje całą paczkę
+    const batchCategories = batchAI ? await categorizeArticlesInBatches(uncachedArticles, taxonomy, rules) : {};
     
     for (const article of uncachedArticles) {
-      let category: Category;
+      let scored: SourcedScores;
       
-      if (useAI) {
+      if (batchCategories[article.link]) {
+        scored = batchCategories[article.link];
+      } else if (useAI) {
         // Try AI categorization first
-        try {
-          category = await categorizeArticleWithAI(article);
-        } catch (error) {
-          console.error('Error in AI categorization, falling back to keywords:', error);
-          category = categorizeArticleWithKeywords(article);
-        }
+        scored = await scoreArticleWithAIOrOffline(article, taxonomy, rules);
       } else {
-        // Use keyword-based categorization
-        category = categorizeArticleWithKeywords(article);
+        // Use the trained classifier or the keywords
+        scored = scoreOffline(article, taxonomy, rules);
       }
       
-      // Store the category for this article
-      articleCategories[article.link] = category;
+      // Store the labels for this article
+      articleLabels[article.link] = selectLabels(taxonomy, scored.scores);
+      articleSources[article.link] = scored.source;
+    }
+    
+    // Ręcznie zablokowane kategorie zwracamy w takiej postaci, w jakiej zostają w bazie
+    const lockedLinks = await applyLockedLabels(uncachedArticles, articleLabels);
+    
+    for (const article of uncachedArticles) {
+      const labels = articleLabels[article.link];
       
-      // Add to categorized articles
-      if (!cachedArticles[category]) {
-        cachedArticles[category] = [];
+      // Add to categorized articles, grouped by the top-level categories of all labels
+      const labeledArticle = lockedLinks.has(article.link)
+        ? { ...withLabels(article, labels), categoryLocked: true }
+        : withLabels(article, labels);
+      for (const label of labels) {
+        if (!cachedArticles[label.category]) {
+          cachedArticles[label.category] = [];
+        }
+        cachedArticles[label.category].push(labeledArticle);
       }
-      cachedArticles[category].push(article);
     }
     
     // Save newly categorized articles to Supabase
     if (options.saveToSupabase !== false) {
-      await saveToSupabase(uncachedArticles, articleCategories);
+      await saveToSupabase(uncachedArticles, articleLabels, articleSources);
     }
     
     // Filter out empty categories
@@ -467,18 +867,21 @@ async function categorizeArticles(articles: Article[], options: CategorizeOption
 }
 
 /**
- * Get all predefined categories
- * @returns List of predefined categories
+ * Get the top-level category names of the taxonomy
+ * @returns Category names in display order
  */
-function getCategories(): readonly string[] {
-  return predefinedCategories;
+async function getCategories(): Promise<string[]> {
+  return categoriesService.buildCategoryTree(await categoriesService.getTaxonomy()).map(category => category.name);
 }
 
 // Export as default for easier importing
 export default {
   createArticleId,
   categorizeArticleWithAI,
+  categorizeArticlesWithAIBatch,
   categorizeArticleWithKeywords,
+  scoreArticleWithKeywords,
+  scoreArticleOffline,
   checkCache,
   saveToSupabase,
   categorizeArticles,
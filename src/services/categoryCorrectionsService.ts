@@ -0,0 +1,212 @@
+import supabaseService, { CategorizedArticle, CategoryScoreColumn } from './supabase';
+import categoriesService from './categoriesService';
+import * as cacheService from './cacheService';
+import { createArticleIdFromLink, decodeLegacyArticleId } from '../lib/links';
+
+/**
+ * Manual category change requested through the API
+ */
+export interface CategoryOverrideInput {
+  /** New category (top-level or subcategory name or slug); omitted to only lock or unlock */
+  category?: string;
+  /** Other top-level categories the article is also listed under (kept if omitted) */
+  secondaryCategories?: string[];
+  /** Lock the category against categorization runs (unchanged if omitted) */
+  lock?: boolean;
+  /** Who made the change (holder of the admin token, never taken from the request body) */
+  changedBy: string;
+  /** Why the change was made */
+  reason?: string;
+}
+
+/**
+ * Entry of the category correction history
+ */
+export interface CategoryCorrection {
+  id?: number;
+  article_id: string;
+  previous_category: string | null;
+  previous_subcategory: string | null;
+  new_category: string;
+  new_subcategory: string | null;
+  previous_secondary_categories: string[];
+  new_secondary_categories: string[];
+  previous_locked: boolean;
+  locked: boolean;
+  changed_by: string;
+  reason: string | null;
+  created_at?: string;
+}
+
+/**
+ * Category columns of categorized_articles
+ */
+type CategoryColumns = Pick<CategorizedArticle,
+  'article_id' | 'category' | 'subcategory' | 'confidence' | 'secondary_categories' | 'category_scores' | 'category_locked'>;
+
+const CORRECTIONS_TABLE = 'category_corrections';
+const CATEGORY_COLUMNS = 'article_id,category,subcategory,confidence,secondary_categories,category_scores,category_locked';
+
+/**
+ * Read the category columns of a cached article. Old Base64 ids are resolved through legacy_article_id
+ * and, for ids of a link, through the id of that link
+ * @param articleId - Article identifier (current or legacy)
+ * @returns Category columns or null if the article is not cached
+ */
+async function getArticleCategory(articleId: string): Promise<CategoryColumns | null> {
+  const findBy = async (column: string, value: string): Promise<CategoryColumns | null> => {
+    const rows = await supabaseService.getData<CategoryColumns>('categorized_articles', {
+      select: CATEGORY_COLUMNS,
+      filter: { column, operator: 'eq', value },
+      limit: 1
+    });
+    return rows[0] || null;
+  };
+
+  const current = await findBy('article_id', articleId) || await findBy('legacy_article_id', articleId);
+  if (current) {
+    return current;
+  }
+
+  // Dawne id duplikatów scalonych przez 004 (i wierszy przeliczonych jej pierwszą wersją, która zapisywała
+  // w legacy_article_id klucz okazji) prowadzą do artykułu przez zakodowany w nich link
+  const legacyLink = decodeLegacyArticleId(articleId);
+  return legacyLink ? findBy('article_id', createArticleIdFromLink(legacyLink)) : null;
+}
+
+/**
+ * Read the category columns of the locked articles among the given ones
+ * @param articleIds - Article identifiers
+ * @returns Locked articles by identifier
+ */
+async function getLockedCategories(articleIds: string[]): Promise<Map<string, CategoryColumns>> {
+  const locked = new Map<string, CategoryColumns>();
+
+  // Partie jak w checkCache, żeby nie przekroczyć długości zapytania
+  for (let i = 0; i < articleIds.length; i += 200) {
+    const rows = await supabaseService.getData<CategoryColumns>('categorized_articles', {
+      select: CATEGORY_COLUMNS,
+      filter: [
+        { column: 'article_id', operator: 'in', value: articleIds.slice(i, i + 200) },
+        { column: 'category_locked', operator: 'eq', value: true }
+      ]
+    });
+    rows.forEach(row => locked.set(row.article_id, row));
+  }
+
+  return locked;
+}
+
+/**
+ * Validate a manual category change
+ * @param input - Fields from the request body
+ * @returns Error message or null if the input is valid
+ */
+async function validateOverrideInput(input: Partial<CategoryOverrideInput>): Promise<string | null> {
+  if (input.category === undefined && input.lock === undefined) {
+    return 'category or lock is required';
+  }
+  if (input.lock !== undefined && typeof input.lock !== 'boolean') {
+    return 'lock must be a boolean';
+  }
+  if (input.reason !== undefined && input.reason !== null && typeof input.reason !== 'string') {
+    return 'reason must be a string';
+  }
+
+  const taxonomy = await categoriesService.getTaxonomy();
+  if (input.category !== undefined && !categoriesService.findCategory(taxonomy, input.category)) {
+    return `Unknown category: ${input.category}`;
+  }
+  if (input.secondaryCategories !== undefined) {
+    if (!Array.isArray(input.secondaryCategories)) {
+      return 'secondaryCategories must be an array of category names';
+    }
+    for (const value of input.secondaryCategories) {
+      const category = categoriesService.findCategory(taxonomy, value);
+      if (!category || category.parentSlug) {
+        return `secondaryCategories must name top-level categories: ${value}`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Change the category of a cached article by hand and record the change in the correction history
+ * (input must pass validateOverrideInput)
+ * @param current - Current category columns of the article
+ * @param input - Requested change
+ * @returns Recorded correction
+ */
+async function overrideCategory(current: CategoryColumns, input: CategoryOverrideInput): Promise<CategoryCorrection> {
+  const taxonomy = await categoriesService.getTaxonomy();
+  const placement = input.category !== undefined
+    ? categoriesService.getCategoryPlacement(taxonomy, categoriesService.findCategory(taxonomy, input.category)!.name)
+    : { category: current.category, subcategory: current.subcategory ?? null };
+  const secondary = (input.secondaryCategories !== undefined
+    ? input.secondaryCategories.map(value => categoriesService.findCategory(taxonomy, value)!.name)
+    : current.secondary_categories || []
+  ).filter(category => category !== placement.category);
+  const locked = input.lock ?? !!current.category_locked;
+
+  // Każda korekta oznacza kategorię sprawdzoną ręcznie (zbiór treningowy klasyfikatora)
+  const changes: Partial<CategorizedArticle> = { category_locked: locked, category_source: 'manual' };
+  if (input.category !== undefined || input.secondaryCategories !== undefined) {
+    // Kategoria ustawiona ręcznie ma pełną pewność
+    const scores: CategoryScoreColumn[] = [
+      { ...placement, confidence: 1 },
+      ...Array.from(new Set(secondary)).map(category => ({ category, subcategory: null, confidence: 1 }))
+    ];
+    Object.assign(changes, {
+      category: placement.category,
+      subcategory: placement.subcategory,
+      confidence: 1,
+      secondary_categories: scores.slice(1).map(score => score.category),
+      category_scores: scores
+    });
+  }
+
+  await supabaseService.updateData('categorized_articles', changes, { article_id: current.article_id });
+
+  const correction: CategoryCorrection = {
+    article_id: current.article_id,
+    previous_category: current.category ?? null,
+    previous_subcategory: current.subcategory ?? null,
+    new_category: placement.category,
+    new_subcategory: placement.subcategory,
+    previous_secondary_categories: current.secondary_categories || [],
+    new_secondary_categories: changes.secondary_categories ?? current.secondary_categories ?? [],
+    previous_locked: !!current.category_locked,
+    locked,
+    changed_by: input.changedBy.trim(),
+    reason: input.reason || null,
+    created_at: new Date().toISOString()
+  };
+  await supabaseService.insertData(CORRECTIONS_TABLE, correction);
+
+  // Lokalny cache nie może zwracać starej kategorii
+  await cacheService.clearCache();
+
+  return correction;
+}
+
+/**
+ * Get the category correction history of an article
+ * @param articleId - Article identifier
+ * @returns Corrections, newest first
+ */
+async function getCorrections(articleId: string): Promise<CategoryCorrection[]> {
+  return supabaseService.getData<CategoryCorrection>(CORRECTIONS_TABLE, {
+    filter: { column: 'article_id', operator: 'eq', value: articleId },
+    order: { column: 'created_at', ascending: false }
+  });
+}
+
+export default {
+  getArticleCategory,
+  getLockedCategories,
+  validateOverrideInput,
+  overrideCategory,
+  getCorrections
+};
@@ -0,0 +1,287 @@
+import path from 'path';
+import fs from 'fs';
+import { randomUUID } from 'crypto';
+import supabaseService from './supabase';
+import { CategoryDefinition } from './categoriesService';
+import config from '../config';
+import {
+  CategoryRule,
+  CATEGORY_RULE_TYPES,
+  CATEGORY_RULE_FIELDS,
+  checkRulePatternSafety,
+  compileRulePattern
+} from '../lib/categoryRules';
+
+/**
+ * Fields accepted by the create and update endpoints
+ */
+export type CategoryRuleInput = Partial<CategoryRule>;
+
+/**
+ * Row of the category_rules table
+ */
+interface CategoryRuleRow {
+  id: string;
+  category_slug: string;
+  type: string;
+  pattern: string;
+  weight: number | string;
+  field: string | null;
+  locale: string | null;
+  updated_at?: string;
+}
+
+const TABLE = 'category_rules';
+
+let cachedRules: CategoryRule[] | null = null;
+let cachedAt = 0;
+
+/**
+ * Convert a category_rules row to a rule
+ * @param row - Table row
+ * @returns Rule
+ */
+function toCategoryRule(row: CategoryRuleRow): CategoryRule {
+  return {
+    id: row.id,
+    categorySlug: row.category_slug,
+    type: row.type as CategoryRule['type'],
+    pattern: row.pattern,
+    // NUMERIC przychodzi z PostgREST jako liczba lub tekst
+    weight: Number(row.weight),
+    field: (row.field || 'any') as CategoryRule['field'],
+    locale: row.locale ?? null
+  };
+}
+
+/**
+ * Convert a rule to a category_rules row
+ * @param rule - Rule
+ * @returns Table row
+ */
+function toCategoryRuleRow(rule: CategoryRule): CategoryRuleRow {
+  return {
+    id: rule.id,
+    category_slug: rule.categorySlug,
+    type: rule.type,
+    pattern: rule.pattern,
+    weight: rule.weight,
+    field: rule.field,
+    locale: rule.locale,
+    updated_at: new Date().toISOString()
+  };
+}
+
+/**
+ * Fill in the optional fields of a rule
+ * @param input - Rule fields (category, type and pattern required)
+ * @param base - Existing rule the input updates
+ * @returns Complete rule
+ */
+function normalizeRule(input: CategoryRuleInput, base?: CategoryRule): CategoryRule {
+  const type = input.type ?? base?.type ?? 'keyword';
+  const pattern = (input.pattern ?? base?.pattern ?? '').trim();
+
+  return {
+    id: base?.id || (input.id || '').trim() || randomUUID(),
+    categorySlug: (input.categorySlug ?? base?.categorySlug ?? '').trim().toLowerCase(),
+    type,
+    // Wyrażenia regularne zostają bez zmian, słowa kluczowe są porównywane bez wielkości liter
+    pattern: type === 'regex' ? pattern : pattern.toLowerCase(),
+    weight: input.weight ?? base?.weight ?? 1,
+    field: input.field ?? base?.field ?? 'any',
+    locale: input.locale !== undefined ? (input.locale ? input.locale.trim().toLowerCase() : null) : base?.locale ?? null
+  };
+}
+
+/**
+ * Read the default rules from the defaults file
+ * @returns Default rules
+ */
+function loadDefaultRules(): CategoryRule[] {
+  const filePath = path.resolve(__dirname, '../..', config.API.CATEGORIZATION.RULES.DEFAULTS_FILE);
+  const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8')) as { rules: CategoryRuleInput[] };
+
+  return (parsed.rules || []).map(rule => normalizeRule(rule));
+}
+
+/**
+ * Get the categorization rules: the category_rules table (seeded with the defaults when empty), or the
+ * defaults file when Supabase is not configured or the table cannot be read
+ * @returns Rules
+ */
+async function getRules(): Promise<CategoryRule[]> {
+  if (cachedRules && Date.now() - cachedAt < config.API.CATEGORIZATION.TAXONOMY.CACHE_TTL_MS) {
+    return cachedRules;
+  }
+
+  let rules: CategoryRule[];
+  if (!supabaseService.isConfigured()) {
+    rules = loadDefaultRules();
+  } else {
+    try {
+      const rows = await supabaseService.getData<CategoryRuleRow>(TABLE, { order: { column: 'category_slug' } });
+      if (rows.length > 0) {
+        rules = rows.map(toCategoryRule);
+      } else {
+        // Pusta tabela - zapisujemy domyślne reguły, żeby dalej edytować je przez API
+        rules = loadDefaultRules();
+        if (rules.length > 0) {
+          await supabaseService.insertData(TABLE, rules.map(toCategoryRuleRow));
+          console.log(`Seeded ${rules.length} category rules from ${config.API.CATEGORIZATION.RULES.DEFAULTS_FILE}`);
+        }
+      }
+    } catch (error) {
+      console.error('Error reading the category rules, using the defaults file:', error);
+      rules = loadDefaultRules();
+    }
+  }
+
+  cachedRules = rules;
+  cachedAt = Date.now();
+  return rules;
+}
+
+/**
+ * Drop the cached rules so the next read goes to the database
+ */
+function invalidateRulesCache(): void {
+  cachedRules = null;
+  cachedAt = 0;
+}
+
+/**
+ * Find a rule by its identifier
+ * @param rules - Rules
+ * @param id - Rule identifier
+ * @returns Rule or null
+ */
+function findRule(rules: CategoryRule[], id: string): CategoryRule | null {
+  return rules.find(rule => rule.id === id) || null;
+}
+
+/**
+ * Validate the fields of a rule before it is saved
+ * @param input - Fields from the request body
+ * @param taxonomy - Current categories
+ * @param rules - Current rules
+ * @param existing - Rule being updated (omitted when creating)
+ * @returns Error message or null if the input is valid
+ */
+function validateRuleInput(
+  input: CategoryRuleInput,
+  taxonomy: CategoryDefinition[],
+  rules: CategoryRule[],
+  existing?: CategoryRule
+): string | null {
+  if (!existing && (typeof input.categorySlug !== 'string' || !input.categorySlug.trim())) {
+    return 'categorySlug is required';
+  }
+  if (!existing && (typeof input.pattern !== 'string' || !input.pattern.trim())) {
+    return 'pattern is required';
+  }
+  if (input.id !== undefined && existing && input.id !== existing.id) {
+    return 'id cannot be changed';
+  }
+  if (input.id !== undefined && !existing && (typeof input.id !== 'string' || !input.id.trim())) {
+    return 'id must be a non-empty string';
+  }
+  if (input.categorySlug !== undefined && typeof input.categorySlug !== 'string') {
+    return 'categorySlug must be a string';
+  }
+  if (input.pattern !== undefined && (typeof input.pattern !== 'string' || !input.pattern.trim())) {
+    return 'pattern must be a non-empty string';
+  }
+  if (input.type !== undefined && !CATEGORY_RULE_TYPES.includes(input.type)) {
+    return `type must be one of: ${CATEGORY_RULE_TYPES.join(', ')}`;
+  }
+  if (input.field !== undefined && !CATEGORY_RULE_FIELDS.includes(input.field)) {
+    return `field must be one of: ${CATEGORY_RULE_FIELDS.join(', ')}`;
+  }
+  if (input.weight !== undefined && (typeof input.weight !== 'number' || !Number.isFinite(input.weight) || input.weight === 0)) {
+    return 'weight must be a non-zero number';
+  }
+  if (input.locale !== undefined && input.locale !== null && (typeof input.locale !== 'string' || !/^[a-z]{2}$/i.test(input.locale.trim()))) {
+    return 'locale must be a two-letter language code or null';
+  }
+
+  const rule = normalizeRule(input, existing);
+  if (!taxonomy.some(category => category.slug === rule.categorySlug)) {
+    return `Category "${rule.categorySlug}" not found`;
+  }
+  if (rule.type === 'regex') {
+    const unsafe = checkRulePatternSafety(rule.pattern);
+    if (unsafe) {
+      return `pattern is not allowed: ${unsafe}`;
+    }
+    if (!compileRulePattern(rule.pattern)) {
+      return `pattern is not a valid regular expression: ${rule.pattern}`;
+    }
+  }
+  if (!existing && findRule(rules, rule.id)) {
+    return `Rule "${rule.id}" already exists`;
+  }
+
+  return null;
+}
+
+/**
+ * Throw when the rules cannot be edited (they live in the database)
+ */
+function assertEditable(): void {
+  if (!supabaseService.isConfigured()) {
+    throw new Error('Category rules unavailable for editing: Supabase not configured');
+  }
+}
+
+/**
+ * Create a rule (input must pass validateRuleInput)
+ * @param input - Rule fields
+ * @returns Created rule
+ */
+async function createRule(input: CategoryRuleInput): Promise<CategoryRule> {
+  assertEditable();
+  const rule = normalizeRule(input);
+
+  await supabaseService.insertData(TABLE, toCategoryRuleRow(rule));
+  invalidateRulesCache();
+
+  return rule;
+}
+
+/**
+ * Update a rule (input must pass validateRuleInput)
+ * @param existing - Rule to update
+ * @param input - Changed fields
+ * @returns Updated rule
+ */
+async function updateRule(existing: CategoryRule, input: CategoryRuleInput): Promise<CategoryRule> {
+  assertEditable();
+  const rule = normalizeRule(input, existing);
+
+  await supabaseService.updateData(TABLE, toCategoryRuleRow(rule), { id: existing.id });
+  invalidateRulesCache();
+
+  return rule;
+}
+
+/**
+ * Delete a rule
+ * @param existing - Rule to delete
+ */
+async function deleteRule(existing: CategoryRule): Promise<void> {
+  assertEditable();
+
+  await supabaseService.deleteData(TABLE, { id: existing.id });
+  invalidateRulesCache();
+}
+
+export default {
+  getRules,
+  invalidateRulesCache,
+  findRule,
+  validateRuleInput,
+  createRule,
+  updateRule,
+  deleteRule
+};
@@ -0,0 +1,206 @@
+import path from 'path';
+import fs from 'fs';
+import supabaseService from './supabase';
+import config from '../config';
+import { Article } from '../lib/scraper';
+import { loadDataset } from '../lib/evaluationDataset';
+import {
+  TrainingExample,
+  NaiveBayesModel,
+  Prediction,
+  trainNaiveBayes,
+  isNaiveBayesModel,
+  classifyText
+} from '../lib/textClassifier';
+
+/**
+ * State of the offline classifier
+ */
+export interface ClassifierStatus {
+  /** Whether categorization uses the classifier (CATEGORIZATION_CLASSIFIER_ENABLED) */
+  enabled: boolean;
+  /** Whether a trained model is available */
+  trained: boolean;
+  modelFile: string;
+  trainedAt: string | null;
+  /** Number of training articles */
+  documents: number;
+  vocabularySize: number;
+  /** Training articles per label (category or subcategory name) */
+  labels: Record<string, number>;
+}
+
+/**
+ * Result of a training run
+ */
+export interface ClassifierTrainingResult extends ClassifierStatus {
+  /** Share of held-out articles (every fifth) predicted correctly by a model trained on the others */
+  holdoutAccuracy: number | null;
+}
+
+const PAGE_SIZE = 1000;
+// Co piąty artykuł służy do oceny modelu przed treningiem na całości
+const HOLDOUT_EVERY = 5;
+
+// undefined - model jeszcze nie wczytany, null - brak modelu na dysku
+let model: NaiveBayesModel | null | undefined;
+
+/**
+ * Get the absolute path of the model file
+ * @returns File path
+ */
+function getModelPath(): string {
+  return path.resolve(__dirname, '../..', config.API.CATEGORIZATION.CLASSIFIER.MODEL_FILE);
+}
+
+/**
+ * Get the trained model (read from disk once)
+ * @returns Model or null if none was trained
+ */
+function getModel(): NaiveBayesModel | null {
+  if (model !== undefined) {
+    return model;
+  }
+
+  model = null;
+  try {
+    const modelPath = getModelPath();
+    if (fs.existsSync(modelPath)) {
+      const parsed = JSON.parse(fs.readFileSync(modelPath, 'utf8'));
+      if (isNaiveBayesModel(parsed)) {
+        model = parsed;
+        console.log(`Loaded category classifier trained on ${parsed.documents} articles`);
+      } else {
+        console.warn(`Ignoring category classifier model in unknown format: ${modelPath}`);
+      }
+    }
+  } catch (error) {
+    console.error('Error loading category classifier model:', error);
+  }
+
+  return model;
+}
+
+/**
+ * Text of an article seen by the classifier (the same for training and prediction)
+ * @param article - Article title and description
+ * @returns Text
+ */
+function toClassifierText(article: { title: string; description?: string | null }): string {
+  return `${article.title || ''} ${article.description || ''}`;
+}
+
+/**
+ * Read the training set from categorized_articles: the most recent articles categorized confidently by the
+ * LLM, corrected or locked by hand, labeled with their subcategory or category. Articles categorized by the
+ * classifier itself or by the keywords and the articles of the evaluation dataset are left out
+ * @returns Labeled texts
+ */
+async function getTrainingExamples(): Promise<TrainingExample[]> {
+  const { MAX_TRAINING_ARTICLES, MIN_TRAINING_CONFIDENCE } = config.API.CATEGORIZATION.CLASSIFIER;
+  const examples: TrainingExample[] = [];
+  // Artykuły zbioru ewaluacyjnego nie mogą trafić do treningu, inaczej ocena klasyfikatora jest zawyżona
+  const evaluationIds = new Set(loadDataset().map(entry => entry.id));
+
+  for (let offset = 0; offset < MAX_TRAINING_ARTICLES; offset += PAGE_SIZE) {
+    const rows = await supabaseService.getData<{ article_id: string; title: string; description: string | null; category: string; subcategory: string | null }>('categorized_articles', {
+      select: 'article_id,title,description,category,subcategory',
+      or: `and(category_source.eq.ai,confidence.gte.${MIN_TRAINING_CONFIDENCE}),category_source.eq.manual,category_locked.is.true`,
+      order: { column: 'created_at', ascending: false },
+      limit: Math.min(PAGE_SIZE, MAX_TRAINING_ARTICLES - offset),
+      offset
+    });
+
+    rows
+      .filter(row => row.title && row.category && !evaluationIds.has(row.article_id))
+      .forEach(row => examples.push({ text: toClassifierText(row), label: row.subcategory || row.category }));
+
+    if (rows.length < PAGE_SIZE) break;
+  }
+
+  return examples;
+}
+
+/**
+ * Describe a model
+ * @param current - Model or null
+ * @returns Status
+ */
+function toStatus(current: NaiveBayesModel | null): ClassifierStatus {
+  return {
+    enabled: config.API.CATEGORIZATION.CLASSIFIER.ENABLED,
+    trained: !!current,
+    modelFile: config.API.CATEGORIZATION.CLASSIFIER.MODEL_FILE,
+    trainedAt: current?.trainedAt || null,
+    documents: current?.documents || 0,
+    vocabularySize: current?.vocabularySize || 0,
+    labels: Object.fromEntries(Object.entries(current?.labels || {}).map(([label, stats]) => [label, stats.documents]))
+  };
+}
+
+/**
+ * Get the state of the classifier
+ * @returns Status
+ */
+function getClassifierStatus(): ClassifierStatus {
+  return toStatus(getModel());
+}
+
+/**
+ * Measure the accuracy of a model trained without every fifth example on these examples
+ * @param examples - Labeled texts
+ * @returns Share of correct predictions or null if there are too few examples
+ */
+function evaluateHoldout(examples: TrainingExample[]): number | null {
+  const holdout = examples.filter((_example, index) => index % HOLDOUT_EVERY === 0);
+  const training = examples.filter((_example, index) => index % HOLDOUT_EVERY !== 0);
+  if (holdout.length === 0 || training.length === 0) {
+    return null;
+  }
+
+  const holdoutModel = trainNaiveBayes(training);
+  const correct = holdout.filter(example => classifyText(holdoutModel, example.text)[0]?.label === example.label).length;
+  return Math.round(correct / holdout.length * 1000) / 1000;
+}
+
+/**
+ * Train the classifier on the stored categorized articles and save the model to disk
+ * @returns Training result or null if there are fewer than CATEGORIZATION_CLASSIFIER_MIN_TRAINING_ARTICLES articles
+ */
+async function trainClassifier(): Promise<ClassifierTrainingResult | null> {
+  const examples = await getTrainingExamples();
+  if (examples.length < config.API.CATEGORIZATION.CLASSIFIER.MIN_TRAINING_ARTICLES) {
+    console.warn(`Not enough categorized articles to train the classifier: ${examples.length}`);
+    return null;
+  }
+
+  const holdoutAccuracy = evaluateHoldout(examples);
+  const trained = trainNaiveBayes(examples);
+
+  const modelPath = getModelPath();
+  fs.mkdirSync(path.dirname(modelPath), { recursive: true });
+  fs.writeFileSync(modelPath, JSON.stringify(trained));
+  model = trained;
+
+  console.log(`Trained category classifier on ${examples.length} articles (holdout accuracy: ${holdoutAccuracy ?? 'n/a'})`);
+  return { ...toStatus(trained), holdoutAccuracy };
+}
+
+/**
+ * Predict the categories of an article with the trained model
+ * @param article - Article to categorize
+ * @returns Labels (category or subcategory names) by probability; empty if the classifier is disabled,
+ * not trained or knows no word of the article
+ */
+function classifyArticle(article: Article): Prediction[] {
+  const current = config.API.CATEGORIZATION.CLASSIFIER.ENABLED ? getModel() : null;
+  return current ? classifyText(current, toClassifierText(article)) : [];
+}
+
+export default {
+  getModelPath,
+  getClassifierStatus,
+  getTrainingExamples,
+  trainClassifier,
+  classifyArticle
+};
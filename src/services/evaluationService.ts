@@ -0,0 +1,338 @@
+import supabaseService from './supabase';
+import categoriesService, { CategoryDefinition, CategoryPlacement } from './categoriesService';
+import categoryRulesService from './categoryRulesService';
+import classifierService from './classifierService';
+import categorizeService, { CategoryScore } from './categorizeService';
+import config from '../config';
+import { Article } from '../lib/scraper';
+import { CategoryRule } from '../lib/categoryRules';
+import { isLlmConfigured } from '../lib/llmProviders';
+import path from 'path';
+import { getImportedDatasetPath, getDatasetPath, isSmokeDataset, loadDataset, saveDataset } from '../lib/evaluationDataset';
+import {
+  CategoryMetrics,
+  ConfusionMatrix,
+  ratio,
+  addToConfusionMatrix,
+  computeCategoryMetrics,
+  computeMacroF1
+} from '../lib/evaluationMetrics';
+
+/**
+ * Categorizer strategy that can be evaluated
+ * - `keywords` - taxonomy keywords, language dictionaries and rules
+ * - `classifier` - the trained offline classifier alone
+ * - `offline` - the classifier with the keyword fallback (what runs without AI)
+ * - `ai` - the configured LLM provider, one request per article
+ */
+export type EvaluationStrategy = 'keywords' | 'classifier' | 'offline' | 'ai';
+
+/**
+ * Body of the evaluation endpoint
+ */
+export interface EvaluationInput {
+  strategy: EvaluationStrategy;
+  /** Maximum number of dataset entries to evaluate */
+  limit?: number;
+}
+
+/**
+ * Article the strategy put in the wrong category
+ */
+export interface Misclassification {
+  id: string;
+  title: string;
+  /** Expected category and subcategory slugs */
+  expected: CategoryPlacement;
+  /** Predicted category and subcategory slugs */
+  predicted: CategoryPlacement | null;
+  confidence: number | null;
+}
+
+/**
+ * Result of running a strategy over the dataset
+ */
+export interface EvaluationReport {
+  strategy: EvaluationStrategy;
+  evaluatedAt: string;
+  durationMs: number;
+  /** Number of evaluated articles */
+  total: number;
+  /** Articles with the correct top-level category */
+  correct: number;
+  accuracy: number;
+  /** Share of the articles with an expected subcategory that got exactly that subcategory */
+  subcategoryAccuracy: number | null;
+  /** Articles the strategy gave no category (e.g. classifier not trained, AI errors) */
+  unpredicted: number;
+  /** Articles the ai strategy would have categorized offline (failed request or no category of the taxonomy
+   * in the answer); counted as unpredicted, always 0 for the other strategies */
+  aiFallbacks: number;
+  /** Average F1 of the expected categories */
+  macroF1: number | null;
+  /** Metrics by top-level category slug */
+  categories: Record<string, CategoryMetrics>;
+  /** Number of articles by expected category slug, then by predicted category slug */
+  confusionMatrix: ConfusionMatrix;
+  misclassified: Misclassification[];
+}
+
+const EVALUATION_STRATEGIES: EvaluationStrategy[] = ['keywords', 'classifier', 'offline', 'ai'];
+const PAGE_SIZE = 1000;
+
+/**
+ * Describe the dataset
+ * @returns Dataset file, whether it is the smoke fixture, number of entries and entries per expected category slug
+ */
+function getDatasetSummary(): { file: string; smoke: boolean; total: number; categories: Record<string, number> } {
+  const categories: Record<string, number> = {};
+  const entries = loadDataset();
+  entries.forEach(entry => { categories[entry.category] = (categories[entry.category] || 0) + 1; });
+
+  return {
+    file: path.relative(path.resolve(__dirname, '../..'), getDatasetPath()),
+    smoke: isSmokeDataset(),
+    total: entries.length,
+    categories
+  };
+}
+
+/**
+ * Turn category names (or slugs) into the slugs stored in the dataset
+ * @param taxonomy - Categories
+ * @param placement - Top-level category and subcategory
+ * @returns Slugs; names missing from the taxonomy are slugified
+ */
+function toSlugPlacement(taxonomy: CategoryDefinition[], placement: CategoryPlacement): CategoryPlacement {
+  const toSlug = (name: string) => categoriesService.findCategory(taxonomy, name)?.slug || categoriesService.toCategorySlug(name);
+  return {
+    category: toSlug(placement.category),
+    subcategory: placement.subcategory ? toSlug(placement.subcategory) : null
+  };
+}
+
+/**
+ * Read all pages of a query
+ * @param fetchPage - Reads the rows at an offset (PAGE_SIZE rows in a stable order)
+ * @returns Rows of all pages
+ */
+async function readAllPages<T>(fetchPage: (offset: number) => Promise<T[]>): Promise<T[]> {
+  const rows: T[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await fetchPage(offset);
+    rows.push(...page);
+    if (page.length < PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
+
+/**
+ * Add the manually verified articles of categorized_articles to the imported dataset (CATEGORIZATION_EVALUATION_DATASET,
+ * kept out of git): rows with a locked category and rows changed through the category override endpoint.
+ * Entries already in the dataset are updated
+ * @returns Number of imported rows and size of the dataset
+ */
+async function importDataset(): Promise<{ imported: number; total: number }> {
+  type VerifiedRow = {
+    article_id: string;
+    title: string;
+    description: string | null;
+    link: string;
+    site: string | null;
+    merchant: string | null;
+    category: string;
+    subcategory: string | null;
+  };
+  const select = 'article_id,title,description,link,site,merchant,category,subcategory';
+
+  const rows = await readAllPages(offset => supabaseService.getData<VerifiedRow>('categorized_articles', {
+    select,
+    filter: { column: 'category_locked', operator: 'eq', value: true },
+    order: { column: 'article_id' },
+    limit: PAGE_SIZE,
+    offset
+  }));
+
+  // Artykuły poprawione ręcznie bez blokady też mają sprawdzoną kategorię
+  const corrected = await readAllPages(offset => supabaseService.getData<{ article_id: string }>('category_corrections', {
+    select: 'article_id',
+    order: { column: 'id' },
+    limit: PAGE_SIZE,
+    offset
+  }));
+  const lockedIds = new Set(rows.map(row => row.article_id));
+  const missingIds = Array.from(new Set(corrected.map(row => row.article_id))).filter(id => !lockedIds.has(id));
+  for (let i = 0; i < missingIds.length; i += 200) {
+    rows.push(...await supabaseService.getData<VerifiedRow>('categorized_articles', {
+      select,
+      filter: { column: 'article_id', operator: 'in', value: missingIds.slice(i, i + 200) }
+    }));
+  }
+
+  const taxonomy = await categoriesService.getTaxonomy();
+  const entries = new Map(loadDataset(getImportedDatasetPath()).map(entry => [entry.id, entry]));
+  for (const row of rows) {
+    entries.set(row.article_id, {
+      id: row.article_id,
+      title: row.title,
+      description: row.description || '',
+      link: row.link,
+      site: row.site ?? null,
+      merchant: row.merchant ?? null,
+      ...toSlugPlacement(taxonomy, { category: row.category, subcategory: row.subcategory ?? null })
+    });
+  }
+
+  saveDataset(Array.from(entries.values()));
+  console.log(`Imported ${rows.length} verified articles into the evaluation dataset (${entries.size} entries)`);
+  return { imported: rows.length, total: entries.size };
+}
+
+/**
+ * Check whether a strategy can run
+ * @param strategy - Strategy name
+ * @returns Error message or null if the strategy is available
+ */
+function validateStrategy(strategy: unknown): string | null {
+  if (!EVALUATION_STRATEGIES.includes(strategy as EvaluationStrategy)) {
+    return `strategy must be one of: ${EVALUATION_STRATEGIES.join(', ')}`;
+  }
+  if (strategy === 'ai' && !isLlmConfigured()) {
+    return 'the ai strategy needs a configured LLM provider';
+  }
+  if (strategy === 'classifier' && !classifierService.getClassifierStatus().trained) {
+    return 'the classifier strategy needs a trained classifier (POST /api/categorize/classifier/train)';
+  }
+  return null;
+}
+
+/**
+ * Rank the categories of a dataset entry with a strategy
+ * @param strategy - Strategy
+ * @param article - Article built from the entry
+ * @param taxonomy - Categories
+ * @param rules - Categorization rules
+ * @returns Ranked categories (empty if the strategy gives none; the ai strategy never falls back to offline scores)
+ */
+async function predict(
+  strategy: EvaluationStrategy,
+  article: Article,
+  taxonomy: CategoryDefinition[],
+  rules: CategoryRule[]
+): Promise<CategoryScore[]> {
+  switch (strategy) {
+    case 'keywords':
+      return categorizeService.scoreArticleWithKeywords(article, taxonomy, rules);
+    case 'classifier':
+      return classifierService.classifyArticle(article)
+        .map(prediction => ({ category: prediction.label, confidence: prediction.probability }));
+    case 'offline':
+      return categorizeService.scoreArticleOffline(article, taxonomy, rules);
+    case 'ai':
+      return categorizeService.categorizeArticleWithAI(article, taxonomy, rules, { fallbackToOffline: false });
+  }
+}
+
+/**
+ * Run a strategy over the labeled dataset and compare its primary categories with the expected ones
+ * @param strategy - Strategy (must pass validateStrategy)
+ * @param limit - Maximum number of entries to evaluate (all if omitted)
+ * @returns Report with accuracy, per-category precision and recall and the confusion matrix
+ */
+async function evaluateStrategy(strategy: EvaluationStrategy, limit?: number): Promise<EvaluationReport> {
+  const startedAt = Date.now();
+  const entries = loadDataset().slice(0, limit && limit > 0 ? limit : undefined);
+  const taxonomy = await categoriesService.getTaxonomy();
+  const rules = await categoryRulesService.getRules();
+
+  const confusionMatrix: ConfusionMatrix = {};
+  const misclassified: Misclassification[] = [];
+  let correct = 0;
+  let subcategoryTotal = 0;
+  let subcategoryCorrect = 0;
+  let unpredicted = 0;
+  let aiFallbacks = 0;
+
+  for (const entry of entries) {
+    const article: Article = {
+      title: entry.title,
+      description: entry.description,
+      price: '',
+      shippingPrice: '',
+      image: '',
+      link: entry.link,
+      site: entry.site || undefined,
+      merchant: entry.merchant
+    };
+
+    let scores: CategoryScore[] = [];
+    try {
+      scores = await predict(strategy, article, taxonomy, rules);
+    } catch (error) {
+      console.error(`Error evaluating "${entry.title}" with ${strategy}:`, error);
+    }
+
+    // Zbiór przechowuje slugi; starsze pliki z nazwami kategorii też są akceptowane
+    const expected = toSlugPlacement(taxonomy, entry);
+    const predicted = scores.length > 0
+      ? toSlugPlacement(taxonomy, categoriesService.getCategoryPlacement(taxonomy, scores[0].category))
+      : null;
+    if (!predicted) {
+      unpredicted++;
+      if (strategy === 'ai') {
+        aiFallbacks++;
+      }
+    }
+
+    addToConfusionMatrix(confusionMatrix, expected.category, predicted?.category ?? null);
+
+    if (predicted?.category === expected.category) {
+      correct++;
+    } else if (misclassified.length < config.API.CATEGORIZATION.EVALUATION.MAX_MISCLASSIFIED) {
+      misclassified.push({
+        id: entry.id,
+        title: entry.title,
+        expected,
+        predicted,
+        confidence: scores[0]?.confidence ?? null
+      });
+    }
+
+    if (expected.subcategory) {
+      subcategoryTotal++;
+      if (predicted?.subcategory === expected.subcategory) {
+        subcategoryCorrect++;
+      }
+    }
+  }
+
+  // Precyzja i czułość dla każdej kategorii głównej z macierzy pomyłek
+  const categories = computeCategoryMetrics(confusionMatrix);
+
+  return {
+    strategy,
+    evaluatedAt: new Date().toISOString(),
+    durationMs: Date.now() - startedAt,
+    total: entries.length,
+    correct,
+    accuracy: ratio(correct, entries.length) ?? 0,
+    subcategoryAccuracy: ratio(subcategoryCorrect, subcategoryTotal),
+    unpredicted,
+    aiFallbacks,
+    macroF1: computeMacroF1(categories),
+    categories,
+    confusionMatrix,
+    misclassified
+  };
+}
+
+export default {
+  EVALUATION_STRATEGIES,
+  getDatasetPath,
+  loadDataset,
+  getDatasetSummary,
+  importDataset,
+  validateStrategy,
+  evaluateStrategy
+};
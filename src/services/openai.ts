@@ -1,8 +1,7 @@
-import { OpenAI } from 'openai';
-import config from '../config';
 import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
+import { getLlmProvider } from '../lib/llmProviders';
 
 // Define types
 interface CompletionOptions {
@@ -15,19 +14,11 @@ interface CompletionOptions {
   [key: string]: any;
 }
 
-interface OpenAIConfig {
-  API_KEY: string;
-  ORGANIZATION?: string;
-  MODEL?: string;
-}
-
 interface CacheEntry {
   result: string;
   timestamp: number;
 }
 
-let openai: OpenAI | null = null;
-
 // Cache dla zapytań, aby uniknąć niepotrzebnych wywołań API
 const memoryCache = new Map<string, CacheEntry>();
 
@@ -109,9 +100,10 @@ export function cleanupExpiredCache(maxAgeSeconds: number = 86400): number {
   return deletedCount;
 }
 
-// Generuj hash dla zapytań
+// Generuj hash dla zapytań (odpowiedzi różnych dostawców nie mieszają się w cache)
 function generateCacheKey(prompt: string, options: CompletionOptions): string {
   const optionsForHash = {
+    provider: getLlmProvider().name,
     model: options.model,
     temperature: options.temperature,
     max_tokens: options.max_tokens,
@@ -123,49 +115,17 @@ function generateCacheKey(prompt: string, options: CompletionOptions): string {
 }
 
 /**
- * Initialize the OpenAI API client
- * @returns boolean indicating if initialization was successful
- */
-function initializeOpenAI(): boolean {
-  try {
-    // Using the structured config format
-    if (config.SERVICES.OPENAI?.API_KEY) {
-      const openaiConfig = config.SERVICES.OPENAI as OpenAIConfig;
-      openai = new OpenAI({
-        apiKey: openaiConfig.API_KEY,
-        organization: openaiConfig.ORGANIZATION,
-        maxRetries: 3, // Automatyczne ponowne próby w przypadku błędów API
-        timeout: 30000 // 30s timeout
-      });
-      
-      // Załaduj cache przy inicjalizacji
-      loadCacheFromDisk();
-      
-      return true;
-    }
-    console.warn('OpenAI API key not provided. OpenAI services will not be available.');
-    return false;
-  } catch (error) {
-    console.error('Failed to initialize OpenAI client:', error);
-    return false;
-  }
-}
-
-/**
- * Generate a text completion using OpenAI
+ * Generate a text completion with the configured LLM provider (OpenAI, local endpoint or mock)
  * @param prompt - The prompt to generate text from
  * @param options - Additional options for the completion
  * @returns The generated text
  */
 export async function generateCompletion(prompt: string, options: CompletionOptions = {}): Promise<string> {
-  if (!openai) {
-    if (!initializeOpenAI()) {
-      throw new Error('OpenAI client is not initialized');
-    }
+  const provider = getLlmProvider();
+  if (!provider.isConfigured()) {
+    throw new Error(`LLM provider "${provider.name}" is not configured`);
   }
 
-  const openaiConfig = config.SERVICES.OPENAI as OpenAIConfig | undefined;
-  
   // Sprawdź cache, jeśli użytkownik nie wyłączył go jawnie
   const useCache = options.useCache !== false;
   if (useCache) {
@@ -178,7 +138,7 @@ export async function generateCompletion(prompt: string, options: CompletionOpti
       
       // Sprawdź, czy wpis nie jest przeterminowany
       if (now - cachedEntry.timestamp < cacheTTL * 1000) {
-        console.log('Using cached OpenAI response');
+        console.log(`Using cached ${provider.name} response`);
         return cachedEntry.result;
       } else {
         // Usuń przeterminowany wpis
@@ -187,34 +147,15 @@ export async function generateCompletion(prompt: string, options: CompletionOpti
     }
   }
   
-  const defaultOptions = {
-    model: options.model || openaiConfig?.MODEL || 'gpt-3.5-turbo',
-    temperature: options.temperature || 0.3, // Niższa temperatura dla bardziej przewidywalnych wyników
-    max_tokens: options.max_tokens || 200, // Mniejszy limit tokenów dla oszczędności
-    frequency_penalty: 0.2, // Redukcja powtórzeń
-  };
-
   try {
-    const messages = [
-      ...(options.systemMessage ? [{ role: 'system' as const, content: options.systemMessage }] : []),
-      { role: 'user' as const, content: prompt }
-    ];
-
-    if (!openai) {
-      throw new Error('OpenAI client is not initialized');
-    }
-
-    const response = await openai.chat.completions.create({
-      messages,
-      ...defaultOptions,
+    // Model domyślny wybiera dostawca (OPENAI_MODEL lub LLM_LOCAL_MODEL)
+    const result = await provider.complete({
+      prompt,
+      systemMessage: options.systemMessage,
+      model: options.model,
+      temperature: options.temperature ?? 0.3, // Niższa temperatura dla bardziej przewidywalnych wyników
+      max_tokens: options.max_tokens ?? 200 // Mniejszy limit tokenów dla oszczędności
     });
-
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No completion content returned from OpenAI');
-    }
-
-    const result = content.trim();
     
     // Zapisz do cache jeśli jest włączone
     if (useCache) {
@@ -232,7 +173,7 @@ export async function generateCompletion(prompt: string, options: CompletionOpti
 
     return result;
   } catch (error) {
-    console.error('Error generating completion with OpenAI:', error);
+    console.error(`Error generating completion with ${provider.name}:`, error);
     if (error instanceof Error) {
       throw new Error(`Failed to generate completion: ${error.message}`);
     }
@@ -245,8 +186,8 @@ setInterval(() => {
   cleanupExpiredCache();
 }, 3600 * 1000);
 
-// Initialize on module load
-initializeOpenAI();
+// Załaduj cache z dysku przy uruchomieniu
+loadCacheFromDisk();
 
 // Zapisz cache przed zakończeniem procesu
 process.once('SIGINT', () => {
@@ -44,6 +44,16 @@ export interface ArticlesRequestQuery extends ParsedQs {
   fallbackPages?: string;
   skipCache?: string;
   skipLocalCache?: string;
+  enrichDetails?: string;
+  incremental?: string;
+  link?: string;
+  site?: string;
+  q?: string;
+  target?: string;
+  includeExpired?: string;
+  merchant?: string;
+  excludeMerchant?: string;
+  minConfidence?: string;
 }
 
 export interface CacheQueryParams extends ParsedQs {
@@ -52,6 +62,11 @@ export interface CacheQueryParams extends ParsedQs {
   offset?: string;
   days?: string;
   mode?: string;
+  site?: string;
+  includeExpired?: string;
+  merchant?: string;
+  excludeMerchant?: string;
+  minConfidence?: string;
 }
 
 export interface LookupRequestBody {
@@ -66,9 +81,28 @@ export interface CategorizeRequestBody {
     shippingPrice?: string;
     description?: string;
     image?: string;
+    temperature?: number | null;
+    votes?: number | null;
+    merchant?: string | null;
+    author?: string | null;
+    postedAt?: string | null;
+    expiresAt?: string | null;
+    voucherCode?: string | null;
+    originalPrice?: string | null;
+    commentCount?: number | null;
+    detailsScrapedAt?: string | null;
+    priceAmount?: number | null;
+    priceCurrency?: string | null;
+    shippingAmount?: number | null;
+    freeShipping?: boolean;
+    originalPriceAmount?: number | null;
+    discountPercent?: number | null;
+    site?: string;
+    status?: 'active' | 'expired';
   }>;
   options?: {
     useAI?: boolean;
     saveToSupabase?: boolean;
+    batchAI?: boolean;
   };
 } 
\ No newline at end of file
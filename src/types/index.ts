@@ -1,17 +1,42 @@
 // Article related types
 export interface Article {
   link: string;
+  originalLink?: string;
   title: string;
   price?: string;
   shippingPrice?: string;
   description?: string;
   image?: string;
   category?: string;
+  subcategory?: string | null;
+  confidence?: number | null;
+  secondaryCategories?: string[];
+  temperature?: number | null;
+  votes?: number | null;
+  merchant?: string | null;
+  merchantId?: string | null;
+  author?: string | null;
+  postedAt?: string | null;
+  expiresAt?: string | null;
+  voucherCode?: string | null;
+  originalPrice?: string | null;
+  commentCount?: number | null;
+  detailsScrapedAt?: string | null;
+  priceAmount?: number | null;
+  priceCurrency?: string | null;
+  shippingAmount?: number | null;
+  freeShipping?: boolean;
+  originalPriceAmount?: number | null;
+  discountPercent?: number | null;
+  site?: string;
+  status?: 'active' | 'expired';
+  statusCheckedAt?: string | null;
 }
 
 export interface CategorizedArticle extends Article {
   category: string;
   article_id: string;
+  legacy_article_id?: string | null;
   created_at?: string;
 }
 
@@ -22,11 +47,22 @@ export interface SupabaseConfig {
   ANON_KEY?: string;
 }
 
+export interface LlmConfig {
+  PROVIDER: string;
+  LOCAL: {
+    BASE_URL: string;
+    MODEL: string;
+    API_KEY: string;
+    TIMEOUT: number;
+  };
+}
+
 export interface ServicesConfig {
   SUPABASE?: SupabaseConfig;
   OPENAI?: {
     API_KEY: string;
   };
+  LLM: LlmConfig;
 }
 
 export interface AppConfig {
@@ -63,22 +99,6 @@ export interface SupabaseQueryOptions {
   returning?: string;
 }
 
-// Category definitions
-export enum Category {
-  ELECTRONICS = "Electronics",
-  HOME_HOUSEHOLD = "Home & Household",
-  FASHION = "Fashion",
-  FOOD_GROCERY = "Food & Grocery",
-  SPORTS_OUTDOOR = "Sports & Outdoor",
-  BEAUTY_HEALTH = "Beauty & Health",
-  TRAVEL = "Travel",
-  ENTERTAINMENT = "Entertainment",
-  KIDS_TOYS = "Kids & Toys",
-  AUTOMOTIVE = "Automotive",
-  SERVICES = "Services",
-  OTHER = "Other Deals"
-}
-
 // API Response types
 export interface ApiResponse<T = any> {
   success: boolean;